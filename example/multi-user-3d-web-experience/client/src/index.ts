@@ -10,8 +10,22 @@ import sprintAnimationFileUrl from "../../../assets/models/anim_run.glb";
 
 const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
 const host = window.location.host;
-const userNetworkAddress = `${protocol}//${host}/network`;
-const chatNetworkAddress = `${protocol}//${host}/chat-network`;
+const pageParams = new URLSearchParams(window.location.search);
+// A named room can be joined by adding ?room=<name> to the page URL
+const room = pageParams.get("room");
+const roomQuery = room ? `?room=${encodeURIComponent(room)}` : "";
+// A friend's overflow instance of the room can be joined by adding &instance=<number> to the page URL
+const instance = pageParams.get("instance");
+const networkParams = new URLSearchParams();
+if (room) {
+  networkParams.set("room", room);
+}
+if (instance) {
+  networkParams.set("instance", instance);
+}
+const networkQuery = networkParams.toString() ? `?${networkParams.toString()}` : "";
+const userNetworkAddress = `${protocol}//${host}/network${networkQuery}`;
+const chatNetworkAddress = `${protocol}//${host}/chat-network${roomQuery}`;
 
 const holder = Networked3dWebExperienceClient.createFullscreenHolder();
 const app = new Networked3dWebExperienceClient(holder, {
@@ -25,7 +39,9 @@ const app = new Networked3dWebExperienceClient(holder, {
     sprintAnimationFileUrl,
     doubleJumpAnimationFileUrl,
   },
-  mmlDocuments: { example: { url: `${protocol}//${host}/mml-documents/example-mml.html` } },
+  mmlDocuments: {
+    example: { url: `${protocol}//${host}/mml-documents/example-mml.html${roomQuery}` },
+  },
   environmentConfiguration: {
     skybox: {
       hdrJpgUrl: hdrJpgUrl,
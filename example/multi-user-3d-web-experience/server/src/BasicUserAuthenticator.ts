@@ -11,12 +11,24 @@ export type AuthUser = {
   userData?: UserData;
   // sessionToken is the token that is generated by this authenticator and the user uses to authenticate their websocket connection
   sessionToken: string;
+  // spectators can view the world without a character that other users can see
+  spectator: boolean;
+  // moderators can edit and delete the chat messages of other users
+  moderator: boolean;
 };
 
 export type BasicUserAuthenticatorOptions = {
   devAllowUnrecognizedSessions: boolean;
+  // How long a session token remains valid while no client is connected with it. Defaults to 5 minutes.
+  sessionTokenExpiryMilliseconds?: number;
+  // If set, pages requested with ?spectator=<spectatorSecret> are given spectator sessions
+  spectatorSecret?: string;
+  // If set, pages requested with ?moderator=<moderatorSecret> are given moderator sessions
+  moderatorSecret?: string;
 };
 
+const defaultSessionTokenExpiryMilliseconds = 5 * 60 * 1000;
+
 const defaultOptions: BasicUserAuthenticatorOptions = {
   devAllowUnrecognizedSessions: false,
 };
@@ -24,6 +36,7 @@ const defaultOptions: BasicUserAuthenticatorOptions = {
 export class BasicUserAuthenticator {
   private usersByClientId = new Map<number, AuthUser>();
   private userBySessionToken = new Map<string, AuthUser>();
+  private sessionTokenExpiryTimeouts = new Map<string, NodeJS.Timeout>();
 
   constructor(
     private characterDescription: CharacterDescription,
@@ -32,15 +45,46 @@ export class BasicUserAuthenticator {
 
   public async generateAuthorizedSessionToken(req: express.Request): Promise<string> {
     const sessionToken = crypto.randomBytes(20).toString("hex");
+    const spectatorSecret = this.options.spectatorSecret;
+    const moderatorSecret = this.options.moderatorSecret;
     const authUser: AuthUser = {
       clientId: null,
       sessionToken,
+      spectator: !!spectatorSecret && req.query.spectator === spectatorSecret,
+      moderator: !!moderatorSecret && req.query.moderator === moderatorSecret,
     };
 
     this.userBySessionToken.set(sessionToken, authUser);
+    this.startSessionTokenExpiry(sessionToken);
     return sessionToken;
   }
 
+  public isAuthorizedSessionToken(sessionToken: string): boolean {
+    return this.userBySessionToken.has(sessionToken) || this.options.devAllowUnrecognizedSessions;
+  }
+
+  private startSessionTokenExpiry(sessionToken: string) {
+    this.clearSessionTokenExpiry(sessionToken);
+    const expiryMilliseconds =
+      this.options.sessionTokenExpiryMilliseconds ?? defaultSessionTokenExpiryMilliseconds;
+    this.sessionTokenExpiryTimeouts.set(
+      sessionToken,
+      setTimeout(() => {
+        console.log(`Session token expired after ${expiryMilliseconds}ms without a connection`);
+        this.sessionTokenExpiryTimeouts.delete(sessionToken);
+        this.userBySessionToken.delete(sessionToken);
+      }, expiryMilliseconds),
+    );
+  }
+
+  private clearSessionTokenExpiry(sessionToken: string) {
+    const expiryTimeout = this.sessionTokenExpiryTimeouts.get(sessionToken);
+    if (expiryTimeout) {
+      clearTimeout(expiryTimeout);
+      this.sessionTokenExpiryTimeouts.delete(sessionToken);
+    }
+  }
+
   public onClientConnect(
     clientId: number,
     sessionToken: string,
@@ -53,6 +97,8 @@ export class BasicUserAuthenticator {
       user = {
         clientId: null,
         sessionToken,
+        spectator: false,
+        moderator: false,
       };
       this.userBySessionToken.set(sessionToken, user);
     }
@@ -67,10 +113,13 @@ export class BasicUserAuthenticator {
       return null;
     }
 
+    this.clearSessionTokenExpiry(sessionToken);
     user.clientId = clientId;
     user.userData = {
-      username: `User ${clientId}`,
+      username: user.spectator ? `Spectator ${clientId}` : `User ${clientId}`,
       characterDescription: this.characterDescription,
+      spectator: user.spectator,
+      moderator: user.moderator,
     };
     if (userIdentityPresentedOnConnection) {
       console.warn("Ignoring user-identity on initial connect");
@@ -111,19 +160,22 @@ export class BasicUserAuthenticator {
     const newUserData: UserData = {
       username: msg.username ?? user.userData.username,
       characterDescription: msg.characterDescription ?? user.userData.characterDescription,
+      spectator: user.userData.spectator,
+      moderator: user.userData.moderator,
     };
 
-    this.usersByClientId.set(clientId, { ...user, userData: newUserData });
+    // The user is shared with the session token's entry, which a resumed session is authenticated with
+    user.userData = newUserData;
     return newUserData;
   }
 
   public onClientDisconnect(clientId: number) {
     console.log(`Remove user-session for ${clientId}`);
-    // TODO - expire session token after a period of disconnection
     const userData = this.usersByClientId.get(clientId);
     if (userData) {
       userData.clientId = null;
       this.usersByClientId.delete(clientId);
+      this.startSessionTokenExpiry(userData.sessionToken);
     }
   }
 }
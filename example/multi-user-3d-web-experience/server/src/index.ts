@@ -41,6 +41,10 @@ const userAuthenticator = new BasicUserAuthenticator(characterDescription, {
    This is useful for development, but in deployed usage, it is recommended to set this to false.
   */
   devAllowUnrecognizedSessions: true,
+  // Open the page with ?spectator=<SPECTATOR_SECRET> to view the world without a character
+  spectatorSecret: process.env.SPECTATOR_SECRET,
+  // Open the page with ?moderator=<MODERATOR_SECRET> to be able to edit and delete the chat messages of other users
+  moderatorSecret: process.env.MODERATOR_SECRET,
 });
 
 const webClientBuildDir = path.join(dirname, "../../client/build/");
@@ -58,6 +62,8 @@ if (DOLBY_APP_KEY && DOLBY_APP_SECRET) {
 
 const networked3dWebExperienceServer = new Networked3dWebExperienceServer({
   networkPath: "/network",
+  // Allow clients that lose their connection briefly to come back as the same user
+  sessionResumptionGracePeriod: 10000,
   userAuthenticator,
   mmlServing: {
     documentsWatchPath: mmlDocumentsWatchPath,
@@ -73,10 +79,43 @@ const networked3dWebExperienceServer = new Networked3dWebExperienceServer({
       process.env.NODE_ENV !== "production" ? "/web-client-build" : undefined,
   },
   chatNetworkPath: "/chat-network",
+  // Users that join see the chat from the last hour (kept across restarts if a directory is provided)
+  chatHistory: {
+    maxAgeMilliseconds: 60 * 60 * 1000,
+    directory: process.env.CHAT_HISTORY_DIRECTORY,
+  },
+  // If CHAT_PROXIMITY_RADIUS is set, chat messages only reach users within that distance unless they start with /shout
+  chatProximity: process.env.CHAT_PROXIMITY_RADIUS
+    ? { radius: parseFloat(process.env.CHAT_PROXIMITY_RADIUS) }
+    : undefined,
+  // Only moderators can post announcements, and users join off-topic from the channel switcher if they want to
+  chatChannels: [
+    { name: "general" },
+    { name: "announcements", post: "moderators" },
+    { name: "off-topic", autoJoin: false },
+  ],
   assetServing: {
     assetsDir: path.resolve(dirname, "../../../assets/"),
     assetsUrl: "/assets/",
   },
+  // Each named room loads its own instances of the example documents
+  rooms: {
+    template: {
+      mmlServing: {
+        documentsWatchPath: mmlDocumentsWatchPath,
+        documentsDirectoryRoot: mmlDocumentsDirectoryRoot,
+      },
+      chatHistory: {
+        maxAgeMilliseconds: 60 * 60 * 1000,
+      },
+    },
+  },
+  // Records the activity of the default room to files that can be replayed with the replay config
+  recording: process.env.RECORDING_DIRECTORY
+    ? { directory: process.env.RECORDING_DIRECTORY }
+    : undefined,
+  // The admin API (e.g. GET /admin/users) is only enabled if a secret is provided
+  adminApi: process.env.ADMIN_API_SECRET ? { secret: process.env.ADMIN_API_SECRET } : undefined,
 });
 networked3dWebExperienceServer.registerExpressRoutes(app);
 
@@ -65,6 +65,8 @@ export class Character extends Group {
   public speakingIndicator: CharacterSpeakingIndicator | null = null;
 
   public chatTooltips: CharacterTooltip[] = [];
+  // Bubbles for messages that can be edited or deleted
+  private chatTooltipsByMessageId = new Map<number, CharacterTooltip>();
 
   constructor(private config: CharacterConfig) {
     super();
@@ -158,7 +160,7 @@ export class Character extends Group {
     return this.model?.currentAnimation || AnimationState.idle;
   }
 
-  addChatBubble(message: string) {
+  addChatBubble(message: string, messageId?: number) {
     const tooltip = new CharacterTooltip({
       maxWidth: 1000,
       secondsToFadeOut: 10,
@@ -166,15 +168,42 @@ export class Character extends Group {
     });
     this.add(tooltip);
     this.chatTooltips.unshift(tooltip);
-    tooltip.setText(message, () => {
-      this.chatTooltips = this.chatTooltips.filter((t) => t !== tooltip);
-      this.remove(tooltip);
-      this.setTooltipHeights();
-    });
+    if (messageId !== undefined) {
+      this.chatTooltipsByMessageId.set(messageId, tooltip);
+    }
+    tooltip.setText(message, () => this.removeChatTooltip(tooltip));
     if (this.config.isLocal) {
       // Show the character's name if they're local and they emit a chat bubble
       this.tooltip.show();
     }
     this.setTooltipHeights();
   }
+
+  // Does nothing if the bubble for the message has already faded out
+  editChatBubble(messageId: number, message: string) {
+    const tooltip = this.chatTooltipsByMessageId.get(messageId);
+    if (!tooltip) {
+      return;
+    }
+    tooltip.setText(message, () => this.removeChatTooltip(tooltip));
+    this.setTooltipHeights();
+  }
+
+  removeChatBubble(messageId: number) {
+    const tooltip = this.chatTooltipsByMessageId.get(messageId);
+    if (tooltip) {
+      this.removeChatTooltip(tooltip);
+    }
+  }
+
+  private removeChatTooltip(tooltip: CharacterTooltip) {
+    this.chatTooltips = this.chatTooltips.filter((t) => t !== tooltip);
+    for (const [messageId, messageTooltip] of this.chatTooltipsByMessageId) {
+      if (messageTooltip === tooltip) {
+        this.chatTooltipsByMessageId.delete(messageId);
+      }
+    }
+    this.remove(tooltip);
+    this.setTooltipHeights();
+  }
 }
@@ -80,7 +80,6 @@ export class CharacterManager {
   public remoteCharacters: Map<number, Character> = new Map();
   public remoteCharacterControllers: Map<number, RemoteController> = new Map();
 
-  private localCharacterSpawned: boolean = false;
   public localController: LocalController;
   public localCharacter: Character | null = null;
 
@@ -139,7 +138,6 @@ export class CharacterManager {
     this.localCharacter.position.set(spawnPosition.x, spawnPosition.y, spawnPosition.z);
     this.localCharacter.rotation.set(spawnRotation.x, spawnRotation.y, spawnRotation.z);
     this.group.add(character);
-    this.localCharacterSpawned = true;
   }
 
   public createRespawnButton(): HTMLDivElement {
@@ -169,6 +167,18 @@ export class CharacterManager {
     return respawnButton;
   }
 
+  // Returns whether there was a local character to teleport
+  public teleportLocalCharacter(
+    position: { x: number; y: number; z: number },
+    rotation: { quaternionY: number; quaternionW: number },
+  ): boolean {
+    if (!this.localCharacter) {
+      return false;
+    }
+    this.localController.teleport(position, rotation);
+    return true;
+  }
+
   public setupTweakPane(tweakPane: TweakPane) {
     tweakPane.setupCharacterController(this.localController);
   }
@@ -231,14 +241,29 @@ export class CharacterManager {
     this.speakingCharacters.set(id, value);
   }
 
-  public addSelfChatBubble(message: string) {
+  public addSelfChatBubble(message: string, messageId?: number) {
     if (this.localCharacter) {
-      this.localCharacter.addChatBubble(message);
+      this.localCharacter.addChatBubble(message, messageId);
     }
   }
 
-  public addChatBubble(id: number, message: string) {
-    this.remoteCharacters.get(id)?.addChatBubble(message);
+  public addChatBubble(id: number, message: string, messageId?: number) {
+    this.remoteCharacters.get(id)?.addChatBubble(message, messageId);
+  }
+
+  // The message may have been sent by any character, including the local one
+  public editChatBubble(messageId: number, message: string) {
+    this.localCharacter?.editChatBubble(messageId, message);
+    for (const character of this.remoteCharacters.values()) {
+      character.editChatBubble(messageId, message);
+    }
+  }
+
+  public removeChatBubble(messageId: number) {
+    this.localCharacter?.removeChatBubble(messageId);
+    for (const character of this.remoteCharacters.values()) {
+      character.removeChatBubble(messageId);
+    }
   }
 
   public respawnIfPresent(id: number) {
@@ -282,42 +307,6 @@ export class CharacterManager {
         .add(this.localCharacter.position);
       this.config.cameraManager.setTarget(targetOffset);
 
-      for (const [id, update] of this.config.remoteUserStates) {
-        if (this.remoteCharacters.has(id) && this.speakingCharacters.has(id)) {
-          const character = this.remoteCharacters.get(id);
-          character?.speakingIndicator?.setSpeaking(this.speakingCharacters.get(id)!);
-        }
-        const { position } = update;
-
-        if (!this.remoteCharacters.has(id) && this.localCharacterSpawned === true) {
-          const characterInfo = this.config.characterResolve(id);
-          this.spawnRemoteCharacter(
-            id,
-            characterInfo.username,
-            characterInfo.characterDescription,
-            new Vector3(position.x, position.y, position.z),
-          );
-        }
-
-        const characterController = this.remoteCharacterControllers.get(id);
-        if (characterController) {
-          characterController.update(
-            update,
-            this.config.timeManager.time,
-            this.config.timeManager.deltaTime,
-          );
-        }
-      }
-
-      for (const [id, character] of this.remoteCharacters) {
-        if (!this.config.remoteUserStates.has(id)) {
-          character.speakingIndicator?.dispose();
-          this.group.remove(character);
-          this.remoteCharacters.delete(id);
-          this.remoteCharacterControllers.delete(id);
-        }
-      }
-
       if (
         this.config.updateURLLocation &&
         this.config.timeManager.frame % 60 === 0 &&
@@ -337,5 +326,42 @@ export class CharacterManager {
         window.history.replaceState({}, "", url);
       }
     }
+
+    // Remote characters are shown even if there is no local character (e.g. for spectators)
+    for (const [id, update] of this.config.remoteUserStates) {
+      if (this.remoteCharacters.has(id) && this.speakingCharacters.has(id)) {
+        const character = this.remoteCharacters.get(id);
+        character?.speakingIndicator?.setSpeaking(this.speakingCharacters.get(id)!);
+      }
+      const { position } = update;
+
+      if (!this.remoteCharacters.has(id)) {
+        const characterInfo = this.config.characterResolve(id);
+        this.spawnRemoteCharacter(
+          id,
+          characterInfo.username,
+          characterInfo.characterDescription,
+          new Vector3(position.x, position.y, position.z),
+        );
+      }
+
+      const characterController = this.remoteCharacterControllers.get(id);
+      if (characterController) {
+        characterController.update(
+          update,
+          this.config.timeManager.time,
+          this.config.timeManager.deltaTime,
+        );
+      }
+    }
+
+    for (const [id, character] of this.remoteCharacters) {
+      if (!this.config.remoteUserStates.has(id)) {
+        character.speakingIndicator?.dispose();
+        this.group.remove(character);
+        this.remoteCharacters.delete(id);
+        this.remoteCharacterControllers.delete(id);
+      }
+    }
   }
 }
@@ -29,4 +29,6 @@ export type CharacterState = {
     w: number;
   };
   state: AnimationState;
+  // The server time (milliseconds since epoch) that the state was sent at, if known
+  timestamp?: number;
 };
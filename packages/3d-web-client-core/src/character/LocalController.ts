@@ -566,9 +566,7 @@ export class LocalController {
       return Math.random() * (max - min) + min;
     };
 
-    this.characterVelocity.x = 0;
-    this.characterVelocity.y = 0;
-    this.characterVelocity.z = 0;
+    this.resetMotion();
 
     this.config.character.position.set(
       randomWithVariance(
@@ -590,6 +588,23 @@ export class LocalController {
       0,
     );
     this.config.character.rotation.set(respawnRotation.x, respawnRotation.y, respawnRotation.z);
+  }
+
+  public teleport(
+    position: { x: number; y: number; z: number },
+    rotation: { quaternionY: number; quaternionW: number },
+  ): void {
+    this.resetMotion();
+    this.config.character.position.set(position.x, position.y, position.z);
+    this.config.character.quaternion.set(0, rotation.quaternionY, 0, rotation.quaternionW);
+    this.latestPosition = this.config.character.position.clone();
+    this.updateNetworkState();
+  }
+
+  private resetMotion(): void {
+    this.characterVelocity.x = 0;
+    this.characterVelocity.y = 0;
+    this.characterVelocity.z = 0;
 
     this.characterOnGround = false;
     this.doubleJumpUsed = false;
@@ -1,5 +1,7 @@
 import { Quaternion, Vector3 } from "three";
 
+import { remoteCharacterValues } from "../tweakpane/blades/remoteCharactersFolder";
+
 import { Character } from "./Character";
 import { AnimationState, CharacterState } from "./CharacterState";
 
@@ -8,13 +10,41 @@ export type RemoteControllerConfig = {
   character: Character;
 };
 
+type Snapshot = {
+  // Server time (milliseconds) that the state was sent at
+  time: number;
+  position: Vector3;
+  rotation: Quaternion;
+  state: AnimationState;
+};
+
+export type RemoteControllerBufferHealth = {
+  bufferedSnapshots: number;
+  // How far (milliseconds) the newest snapshot is ahead of the render time. Negative if the buffer has run dry.
+  bufferedTime: number;
+  extrapolating: boolean;
+};
+
 const tempQuaternion = new Quaternion();
+const tempVector = new Vector3();
+
+// Snapshots further apart than this are treated as a teleport rather than movement to interpolate through
+const teleportDistanceSquared = 5 * 5;
+// Snapshots older than this (relative to the render time) are no longer needed
+const maxSnapshotAge = 1000;
 
 export class RemoteController {
   public currentAnimation: AnimationState = AnimationState.idle;
 
   public networkState: CharacterState;
 
+  private snapshots: Array<Snapshot> = [];
+  private latestClientUpdate: CharacterState | null = null;
+  // Estimated difference between the server clock and the local clock
+  private clockOffset: number | null = null;
+  private renderTime = 0;
+  private extrapolating = false;
+
   constructor(private config: RemoteControllerConfig) {
     this.networkState = {
       id: this.config.id,
@@ -39,20 +69,107 @@ export class RemoteController {
     this.config.character.update(time, deltaTime);
   }
 
-  private updateFromNetwork(clientUpdate: CharacterState): void {
+  public getBufferHealth(): RemoteControllerBufferHealth {
+    const newestSnapshot = this.snapshots[this.snapshots.length - 1];
+    return {
+      bufferedSnapshots: this.snapshots.length,
+      bufferedTime: newestSnapshot ? newestSnapshot.time - this.renderTime : 0,
+      extrapolating: this.extrapolating,
+    };
+  }
+
+  private addSnapshot(clientUpdate: CharacterState, localTime: number) {
+    // Updates from servers that do not send timestamps are timed by their arrival
+    const time = clientUpdate.timestamp ?? localTime;
+    const sampleOffset = time - localTime;
+    if (this.clockOffset === null) {
+      this.clockOffset = sampleOffset;
+    } else {
+      // Smooth the estimate so that network jitter does not make the render time jump around
+      this.clockOffset += (sampleOffset - this.clockOffset) * 0.05;
+    }
+    const newestSnapshot = this.snapshots[this.snapshots.length - 1];
+    if (newestSnapshot && time <= newestSnapshot.time) {
+      // Out of date or duplicate
+      return;
+    }
     const { position, rotation, state } = clientUpdate;
-    const distanceSquared = this.config.character.position.distanceToSquared(position);
-    if (distanceSquared > 5 * 5) {
-      // More than 5m of movement in a tick - the character is likely teleporting rather than just moving quickly - snap to the new position
-      this.config.character.position.copy(position);
+    this.snapshots.push({
+      time,
+      position: new Vector3(position.x, position.y, position.z),
+      rotation: new Quaternion(0, rotation.quaternionY, 0, rotation.quaternionW),
+      state,
+    });
+  }
+
+  private updateFromNetwork(clientUpdate: CharacterState): void {
+    const localTime = Date.now();
+    if (clientUpdate !== this.latestClientUpdate) {
+      this.latestClientUpdate = clientUpdate;
+      this.addSnapshot(clientUpdate, localTime);
+    }
+    if (this.snapshots.length === 0 || this.clockOffset === null) {
+      return;
+    }
+
+    this.renderTime = localTime + this.clockOffset - remoteCharacterValues.interpolationDelay;
+
+    // Discard snapshots that are entirely in the past, keeping the one before the render time to interpolate from
+    while (this.snapshots.length > 2 && this.snapshots[1].time <= this.renderTime) {
+      this.snapshots.shift();
+    }
+    while (this.snapshots.length > 1 && this.snapshots[0].time < this.renderTime - maxSnapshotAge) {
+      this.snapshots.shift();
+    }
+
+    const character = this.config.character;
+    const from = this.snapshots[0];
+    const to = this.snapshots.length > 1 ? this.snapshots[1] : null;
+    this.extrapolating = false;
+    let animationState = from.state;
+
+    if (this.renderTime <= from.time) {
+      // Not yet reached the oldest snapshot - hold at it
+      character.position.copy(from.position);
+      character.quaternion.copy(from.rotation);
+    } else if (to && this.renderTime <= to.time) {
+      if (from.position.distanceToSquared(to.position) > teleportDistanceSquared) {
+        // The character is likely teleporting rather than just moving quickly - stay in place until the jump
+        character.position.copy(from.position);
+        character.quaternion.copy(from.rotation);
+      } else {
+        const alpha = (this.renderTime - from.time) / (to.time - from.time);
+        character.position.lerpVectors(from.position, to.position, alpha);
+        character.quaternion.slerpQuaternions(from.rotation, to.rotation, alpha);
+      }
     } else {
-      this.config.character.position.lerp(new Vector3(position.x, position.y, position.z), 0.15);
+      // The buffer has run dry - continue along the most recent velocity for a short time
+      const newest = to ?? from;
+      const previous = to ? from : null;
+      character.quaternion.copy(newest.rotation);
+      animationState = newest.state;
+      const extrapolationTime = Math.min(
+        this.renderTime - newest.time,
+        remoteCharacterValues.maxExtrapolation,
+      );
+      if (
+        previous &&
+        extrapolationTime > 0 &&
+        previous.position.distanceToSquared(newest.position) <= teleportDistanceSquared
+      ) {
+        this.extrapolating = true;
+        tempVector
+          .subVectors(newest.position, previous.position)
+          .multiplyScalar(extrapolationTime / (newest.time - previous.time));
+        character.position.copy(newest.position).add(tempVector);
+      } else {
+        character.position.copy(newest.position);
+      }
     }
-    const rotationQuaternion = tempQuaternion.set(0, rotation.quaternionY, 0, rotation.quaternionW);
-    this.config.character.quaternion.slerp(rotationQuaternion, 0.6);
-    if (state !== this.currentAnimation) {
-      this.currentAnimation = state;
-      this.config.character.updateAnimation(state);
+
+    if (animationState !== this.currentAnimation) {
+      this.currentAnimation = animationState;
+      character.updateAnimation(animationState);
     }
   }
 }
@@ -13,6 +13,7 @@ export { Key, KeyInputManager } from "./input/KeyInputManager";
 export { VirtualJoystick } from "./input/VirtualJoystick";
 export { MMLCompositionScene } from "./mml/MMLCompositionScene";
 export { TweakPane } from "./tweakpane/TweakPane";
+export { networkConditionValues } from "./tweakpane/blades/networkConditionsFolder";
 export { Composer } from "./rendering/composer";
 export { TimeManager } from "./time/TimeManager";
 export { CollisionsManager } from "./collisions/CollisionsManager";
@@ -20,4 +21,5 @@ export { Sun } from "./sun/Sun";
 export { GroundPlane } from "./ground-plane/GroundPlane";
 export { LoadingScreenConfig, LoadingScreen } from "./loading-screen/LoadingScreen";
 export { ErrorScreen } from "./error-screen/ErrorScreen";
+export { QueueScreen } from "./queue-screen/QueueScreen";
 export { EnvironmentConfiguration } from "./rendering/composer";
@@ -0,0 +1,126 @@
+import { LoadingScreenConfig } from "../loading-screen/LoadingScreen";
+
+// Shown while the server is full and the user is waiting for a slot. Uses the same styling as the LoadingScreen.
+export class QueueScreen {
+  public readonly element: HTMLDivElement;
+
+  private readonly backgroundBlur: HTMLDivElement;
+
+  private queueBanner: HTMLDivElement;
+  private queueBannerTitle: HTMLDivElement;
+  private queueBannerSubtitle: HTMLDivElement;
+
+  private positionBackground: HTMLDivElement;
+  private positionText: HTMLDivElement;
+
+  constructor(private config?: LoadingScreenConfig) {
+    const defaultBackground = "linear-gradient(45deg, #28284B 0%, #303056 100%)";
+    this.element = document.createElement("div");
+    this.element.id = "queue-screen";
+
+    this.element.style.position = "absolute";
+    this.element.style.top = "0";
+    this.element.style.left = "0";
+    this.element.style.width = "100%";
+    this.element.style.height = "100%";
+    this.element.style.backgroundColor = this.config?.background || defaultBackground;
+    this.element.style.background = this.config?.background || defaultBackground;
+    // Above the LoadingScreen, which is still shown underneath while waiting
+    this.element.style.zIndex = "10002";
+
+    this.backgroundBlur = document.createElement("div");
+    this.backgroundBlur.style.position = "absolute";
+    this.backgroundBlur.style.top = "0";
+    this.backgroundBlur.style.left = "0";
+    this.backgroundBlur.style.width = "100%";
+    this.backgroundBlur.style.height = "100%";
+    this.backgroundBlur.style.display = "flex";
+    if (this.config?.backgroundBlurAmount) {
+      this.backgroundBlur.style.backdropFilter = `blur(${this.config.backgroundBlurAmount}px)`;
+    }
+    this.element.append(this.backgroundBlur);
+
+    if (this.config?.backgroundImageUrl) {
+      this.element.style.backgroundImage = `url(${this.config.backgroundImageUrl})`;
+      this.element.style.backgroundPosition = "center";
+      this.element.style.backgroundSize = "cover";
+    }
+
+    this.element.style.color = this.config?.color || "white";
+
+    this.queueBanner = document.createElement("div");
+    this.queueBanner.style.position = "absolute";
+    this.queueBanner.style.display = "flex";
+    this.queueBanner.style.flexDirection = "column";
+    this.queueBanner.style.left = "0";
+    this.queueBanner.style.bottom = "0";
+    this.queueBanner.style.padding = "0";
+    this.queueBanner.style.width = "100%";
+    this.queueBanner.style.justifyContent = "flex-end";
+    this.backgroundBlur.append(this.queueBanner);
+
+    this.queueBannerTitle = document.createElement("div");
+    this.queueBannerTitle.textContent = "The world is full";
+    this.queueBannerTitle.style.color = this.config?.color || "white";
+    this.queueBannerTitle.style.paddingLeft = "40px";
+    this.queueBannerTitle.style.paddingRight = "40px";
+    this.queueBannerTitle.style.fontSize = "42px";
+    this.queueBannerTitle.style.fontWeight = "bold";
+    this.queueBannerTitle.style.fontFamily = "sans-serif";
+    if (this.config?.background) {
+      this.queueBannerTitle.style.textShadow = `0px 0px 80px ${this.config.background}`;
+    }
+    this.queueBanner.append(this.queueBannerTitle);
+
+    this.queueBannerSubtitle = document.createElement("div");
+    this.queueBannerSubtitle.textContent =
+      "You will join automatically when a place becomes available. Keep this page open.";
+    this.queueBannerSubtitle.style.color = this.config?.color || "white";
+    this.queueBannerSubtitle.style.paddingLeft = "40px";
+    this.queueBannerSubtitle.style.paddingRight = "40px";
+    this.queueBannerSubtitle.style.fontSize = "16px";
+    this.queueBannerSubtitle.style.fontWeight = "400";
+    this.queueBannerSubtitle.style.fontFamily = "sans-serif";
+    this.queueBannerSubtitle.style.marginTop = "12px";
+    if (this.config?.background) {
+      this.queueBannerSubtitle.style.textShadow = `0px 0px 40px ${this.config.background}`;
+    }
+    this.queueBanner.append(this.queueBannerSubtitle);
+
+    this.positionBackground = document.createElement("div");
+    this.positionBackground.style.width = "80%";
+    this.positionBackground.style.maxWidth = "400px";
+    this.positionBackground.style.minWidth = "240px";
+    this.positionBackground.style.marginLeft = "40px";
+    this.positionBackground.style.marginBottom = "40px";
+    this.positionBackground.style.marginTop = "24px";
+    this.positionBackground.style.backgroundColor = "rgba(32,32,32, 0.25)";
+    this.positionBackground.style.backdropFilter = "blur(4px)";
+    this.positionBackground.style.height = "16px";
+    this.positionBackground.style.lineHeight = "16px";
+    this.positionBackground.style.borderRadius = "16px";
+    this.queueBanner.append(this.positionBackground);
+
+    this.positionText = document.createElement("div");
+    this.positionText.style.width = "100%";
+    this.positionText.style.height = "100%";
+    this.positionText.style.color = "rgba(200,200,200,0.9)";
+    this.positionText.style.fontSize = "10px";
+    this.positionText.style.textAlign = "center";
+    this.positionText.style.fontFamily = "sans-serif";
+    this.positionText.style.fontWeight = "bold";
+    this.positionText.style.userSelect = "none";
+    this.positionText.textContent = "Waiting...";
+    this.positionBackground.append(this.positionText);
+  }
+
+  // position is 1 for the next user to be admitted
+  public setPosition(position: number) {
+    this.positionText.textContent =
+      position === 1 ? "You are next in line" : `Position in line: ${position}`;
+  }
+
+  public dispose() {
+    this.element.remove();
+  }
+}
@@ -12,6 +12,7 @@ import { FolderApi, Pane } from "tweakpane";
 
 import { CameraManager } from "../camera/CameraManager";
 import { LocalController } from "../character/LocalController";
+import { RemoteController } from "../character/RemoteController";
 import { EventHandlerCollection } from "../input/EventHandlerCollection";
 import { BrightnessContrastSaturation } from "../rendering/post-effects/bright-contrast-sat";
 import { GaussGrainEffect } from "../rendering/post-effects/gauss-grain";
@@ -23,7 +24,9 @@ import { CameraFolder } from "./blades/cameraFolder";
 import { CharacterControlsFolder } from "./blades/characterControlsFolder";
 import { CharacterFolder } from "./blades/characterFolder";
 import { EnvironmentFolder } from "./blades/environmentFolder";
+import { NetworkConditionsFolder } from "./blades/networkConditionsFolder";
 import { PostExtrasFolder } from "./blades/postExtrasFolder";
+import { RemoteCharactersFolder } from "./blades/remoteCharactersFolder";
 import { RendererFolder, rendererValues } from "./blades/rendererFolder";
 import { RendererStatsFolder } from "./blades/rendererStatsFolder";
 import { SSAOFolder } from "./blades/ssaoFolder";
@@ -45,6 +48,8 @@ export class TweakPane {
   private environment: EnvironmentFolder;
   private camera: CameraFolder;
   private characterControls: CharacterControlsFolder;
+  private remoteCharacters: RemoteCharactersFolder;
+  private networkConditions: NetworkConditionsFolder;
 
   private export: FolderApi;
 
@@ -102,6 +107,8 @@ export class TweakPane {
     this.environment = new EnvironmentFolder(this.gui, false);
     this.camera = new CameraFolder(this.gui, false);
     this.characterControls = new CharacterControlsFolder(this.gui, false);
+    this.remoteCharacters = new RemoteCharactersFolder(this.gui, false);
+    this.networkConditions = new NetworkConditionsFolder(this.gui, false);
 
     this.toneMappingFolder.folder.hidden = rendererValues.toneMapping === 5 ? false : true;
 
@@ -201,6 +208,10 @@ export class TweakPane {
     this.characterControls.setupChangeEvent(localController);
   }
 
+  public setupNetworkConditions(dropConnections: () => void) {
+    this.networkConditions.setupChangeEvent(dropConnections);
+  }
+
   public updateStats(timeManager: TimeManager): void {
     this.renderStatsFolder.update(this.renderer, this.composer, timeManager);
   }
@@ -213,6 +224,10 @@ export class TweakPane {
     this.characterControls.update(localController);
   }
 
+  public updateRemoteCharacterData(remoteControllers: Map<number, RemoteController>) {
+    this.remoteCharacters.update(remoteControllers);
+  }
+
   private formatDateForFilename(): string {
     const date = new Date();
     const year = date.getFullYear();
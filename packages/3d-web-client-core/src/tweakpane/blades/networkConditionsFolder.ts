@@ -0,0 +1,59 @@
+import { FolderApi } from "tweakpane";
+
+// Read by a network condition simulator (see @mml-io/3d-web-user-networking) that wraps the client's websockets
+export const networkConditionValues = {
+  enabled: false,
+  latency: 0,
+  jitter: 0,
+  reorderChance: 0,
+  // Bytes per second, or 0 for no limit
+  bandwidth: 0,
+  randomDropsPerMinute: 0,
+  dropAfterSeconds: 0,
+};
+
+export const networkConditionOptions = {
+  latency: { min: 0, max: 2000, step: 1 },
+  jitter: { min: 0, max: 1000, step: 1 },
+  reorderChance: { min: 0, max: 1, step: 0.01 },
+  bandwidth: { min: 0, max: 1000000, step: 1000 },
+  randomDropsPerMinute: { min: 0, max: 10, step: 0.1 },
+  dropAfterSeconds: { min: 0, max: 300, step: 1 },
+};
+
+export class NetworkConditionsFolder {
+  public folder: FolderApi;
+
+  constructor(parentFolder: FolderApi, expand: boolean = false) {
+    this.folder = parentFolder.addFolder({ title: "networkConditions", expanded: expand });
+    this.folder.addBinding(networkConditionValues, "enabled");
+    this.folder.addBinding(networkConditionValues, "latency", networkConditionOptions.latency);
+    this.folder.addBinding(networkConditionValues, "jitter", networkConditionOptions.jitter);
+    this.folder.addBinding(
+      networkConditionValues,
+      "reorderChance",
+      networkConditionOptions.reorderChance,
+    );
+    this.folder.addBinding(networkConditionValues, "bandwidth", networkConditionOptions.bandwidth);
+    this.folder.addBinding(
+      networkConditionValues,
+      "randomDropsPerMinute",
+      networkConditionOptions.randomDropsPerMinute,
+    );
+    this.folder.addBinding(
+      networkConditionValues,
+      "dropAfterSeconds",
+      networkConditionOptions.dropAfterSeconds,
+    );
+    // Only shown once there are connections to drop
+    this.folder.hidden = true;
+  }
+
+  public setupChangeEvent(dropConnections: () => void): void {
+    const dropButton = this.folder.addButton({ title: "drop connections" });
+    dropButton.on("click", () => {
+      dropConnections();
+    });
+    this.folder.hidden = false;
+  }
+}
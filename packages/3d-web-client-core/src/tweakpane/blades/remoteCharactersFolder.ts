@@ -0,0 +1,72 @@
+import { FolderApi } from "tweakpane";
+
+import { RemoteController } from "../../character/RemoteController";
+
+export const remoteCharacterValues = {
+  // How far in the past (milliseconds) remote characters are rendered so that there are snapshots to interpolate between
+  interpolationDelay: 100,
+  // How long (milliseconds) to continue moving a remote character when no newer snapshot has arrived
+  maxExtrapolation: 250,
+};
+
+export const remoteCharacterOptions = {
+  interpolationDelay: { min: 0, max: 500, step: 1 },
+  maxExtrapolation: { min: 0, max: 1000, step: 1 },
+};
+
+type RemoteCharacterData = {
+  remoteCharacters: string;
+  bufferedSnapshots: string;
+  bufferedTime: string;
+  extrapolating: string;
+};
+
+export class RemoteCharactersFolder {
+  public folder: FolderApi;
+
+  private remoteCharacterData: RemoteCharacterData = {
+    remoteCharacters: "0",
+    bufferedSnapshots: "0",
+    bufferedTime: "0ms",
+    extrapolating: "0",
+  };
+
+  constructor(parentFolder: FolderApi, expand: boolean = false) {
+    this.folder = parentFolder.addFolder({ title: "remoteCharacters", expanded: expand });
+    this.folder.addBinding(
+      remoteCharacterValues,
+      "interpolationDelay",
+      remoteCharacterOptions.interpolationDelay,
+    );
+    this.folder.addBinding(
+      remoteCharacterValues,
+      "maxExtrapolation",
+      remoteCharacterOptions.maxExtrapolation,
+    );
+    this.folder.addBinding(this.remoteCharacterData, "remoteCharacters", { readonly: true });
+    this.folder.addBinding(this.remoteCharacterData, "bufferedSnapshots", { readonly: true });
+    this.folder.addBinding(this.remoteCharacterData, "bufferedTime", { readonly: true });
+    this.folder.addBinding(this.remoteCharacterData, "extrapolating", { readonly: true });
+  }
+
+  public update(remoteControllers: Map<number, RemoteController>): void {
+    let bufferedSnapshots = 0;
+    let bufferedTime = 0;
+    let extrapolating = 0;
+    for (const remoteController of remoteControllers.values()) {
+      const bufferHealth = remoteController.getBufferHealth();
+      bufferedSnapshots += bufferHealth.bufferedSnapshots;
+      bufferedTime += bufferHealth.bufferedTime;
+      if (bufferHealth.extrapolating) {
+        extrapolating++;
+      }
+    }
+    const count = remoteControllers.size;
+    this.remoteCharacterData.remoteCharacters = count.toString();
+    // Averages across remote characters
+    this.remoteCharacterData.bufferedSnapshots =
+      count > 0 ? (bufferedSnapshots / count).toFixed(1) : "0";
+    this.remoteCharacterData.bufferedTime = `${count > 0 ? Math.round(bufferedTime / count) : 0}ms`;
+    this.remoteCharacterData.extrapolating = extrapolating.toString();
+  }
+}
@@ -0,0 +1,61 @@
+import { CharacterManager, CharacterManagerConfig } from "../src/character/CharacterManager";
+import { AnimationState, CharacterState } from "../src/character/CharacterState";
+
+// Characters load models and create tooltips, which are not needed to check which characters are shown
+jest.mock("../src/character/Character", () => {
+  const { Group } = jest.requireActual("three");
+  class Character extends Group {
+    public speakingIndicator = null;
+    public update = jest.fn();
+    public updateAnimation = jest.fn();
+
+    constructor(public config: { username: string; characterId: number }) {
+      super();
+    }
+  }
+  return { Character };
+});
+
+function createState(id: number, x: number): CharacterState {
+  return {
+    id,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: AnimationState.idle,
+  };
+}
+
+describe("CharacterManager", () => {
+  test("should show remote characters when there is no local character (e.g. for spectators)", () => {
+    const remoteUserStates = new Map<number, CharacterState>();
+    const sendUpdate = jest.fn();
+    const characterManager = new CharacterManager({
+      timeManager: { time: 0, deltaTime: 0.016, frame: 0 },
+      remoteUserStates,
+      sendUpdate,
+      characterResolve: (clientId: number) => ({
+        username: `User ${clientId}`,
+        characterDescription: { meshFileUrl: `http://example.com/${clientId}.glb` },
+      }),
+    } as unknown as CharacterManagerConfig);
+
+    remoteUserStates.set(2, createState(2, 5));
+    remoteUserStates.set(3, createState(3, -5));
+    characterManager.update();
+
+    expect(characterManager.localCharacter).toBeNull();
+    expect(Array.from(characterManager.remoteCharacters.keys())).toEqual([2, 3]);
+    expect(characterManager.group.children).toHaveLength(2);
+    expect(characterManager.remoteCharacters.get(2)?.position.x).toEqual(5);
+    expect((characterManager.remoteCharacters.get(3) as any).config.username).toEqual("User 3");
+    expect(characterManager.remoteCharacters.get(3)?.update).toHaveBeenCalled();
+
+    remoteUserStates.delete(2);
+    characterManager.update();
+    expect(Array.from(characterManager.remoteCharacters.keys())).toEqual([3]);
+    expect(characterManager.group.children).toHaveLength(1);
+
+    // Nothing is sent for the missing local character
+    expect(sendUpdate).not.toHaveBeenCalled();
+  });
+});
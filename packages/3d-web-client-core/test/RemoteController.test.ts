@@ -0,0 +1,123 @@
+import { Euler, Quaternion, Vector3 } from "three";
+
+import { Character } from "../src/character/Character";
+import { AnimationState, CharacterState } from "../src/character/CharacterState";
+import { RemoteController } from "../src/character/RemoteController";
+import { remoteCharacterValues } from "../src/tweakpane/blades/remoteCharactersFolder";
+
+// The remote server's clock runs ahead of the local one to check that the offset is accounted for
+const serverClockOffset = 5000;
+
+function createTestCharacter() {
+  return {
+    position: new Vector3(),
+    rotation: new Euler(),
+    quaternion: new Quaternion(),
+    update: jest.fn(),
+    updateAnimation: jest.fn(),
+  };
+}
+
+function createState(
+  serverTime: number,
+  x: number,
+  state = AnimationState.walking,
+): CharacterState {
+  return {
+    id: 1,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state,
+    timestamp: serverTime + serverClockOffset,
+  };
+}
+
+describe("RemoteController", () => {
+  let localTime = 0;
+  let character: ReturnType<typeof createTestCharacter>;
+  let controller: RemoteController;
+
+  // Runs a frame of the controller at the given local time with the latest known state of the character
+  function updateAt(time: number, clientUpdate: CharacterState) {
+    localTime = time;
+    controller.update(clientUpdate, time / 1000, 0.016);
+  }
+
+  beforeEach(() => {
+    localTime = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => localTime);
+    character = createTestCharacter();
+    controller = new RemoteController({ id: 1, character: character as unknown as Character });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("interpolates between snapshots at the interpolation delay", () => {
+    expect(remoteCharacterValues.interpolationDelay).toEqual(100);
+
+    const first = createState(1000, 0);
+    updateAt(1000, first);
+    // The render time is before the first snapshot so the character holds at it
+    expect(character.position.x).toEqual(0);
+
+    const second = createState(1050, 1);
+    updateAt(1050, second);
+    expect(character.position.x).toEqual(0);
+
+    updateAt(1125, second);
+    expect(character.position.x).toBeCloseTo(0.5);
+    expect(controller.getBufferHealth()).toEqual({
+      bufferedSnapshots: 2,
+      bufferedTime: 25,
+      extrapolating: false,
+    });
+
+    updateAt(1150, second);
+    expect(character.position.x).toBeCloseTo(1);
+    expect(character.updateAnimation).toHaveBeenCalledWith(AnimationState.walking);
+  });
+
+  test("smooths jitter in the arrival time of snapshots", () => {
+    updateAt(1000, createState(1000, 0));
+    // Arrives 40ms late, but only shifts the estimated clock offset by a fraction of that
+    const late = createState(1050, 1);
+    updateAt(1090, late);
+    updateAt(1125, late);
+    expect(character.position.x).toBeCloseTo(0.46);
+  });
+
+  test("limits how far the character is extrapolated when the buffer runs dry", () => {
+    updateAt(1000, createState(1000, 0));
+    const last = createState(1050, 1);
+    updateAt(1050, last);
+
+    // 50ms past the newest snapshot the character continues at its last velocity
+    updateAt(1200, last);
+    expect(character.position.x).toBeCloseTo(2);
+    expect(controller.getBufferHealth().extrapolating).toEqual(true);
+
+    // Far past the newest snapshot the character stops at the extrapolation limit
+    updateAt(1650, last);
+    const maxDistance = 1 + (remoteCharacterValues.maxExtrapolation / 50) * 1;
+    expect(character.position.x).toBeCloseTo(maxDistance);
+  });
+
+  test("snaps to the new position rather than interpolating through a teleport", () => {
+    updateAt(1000, createState(1000, 0));
+    const teleported = createState(1050, 100);
+    updateAt(1050, teleported);
+
+    // Halfway between the snapshots the character is still at its original position
+    updateAt(1125, teleported);
+    expect(character.position.x).toEqual(0);
+
+    // Once the render time passes the teleport the character is at the destination, without extrapolating
+    updateAt(1151, teleported);
+    expect(character.position.x).toEqual(100);
+    updateAt(1300, teleported);
+    expect(character.position.x).toEqual(100);
+    expect(controller.getBufferHealth().extrapolating).toEqual(false);
+  });
+});
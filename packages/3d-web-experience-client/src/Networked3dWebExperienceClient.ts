@@ -17,6 +17,8 @@ import {
   LoadingScreen,
   LoadingScreenConfig,
   MMLCompositionScene,
+  networkConditionValues,
+  QueueScreen,
   TimeManager,
   TweakPane,
   SpawnConfiguration,
@@ -24,18 +26,28 @@ import {
   VirtualJoystick,
 } from "@mml-io/3d-web-client-core";
 import {
+  ChatNetworkingChannelState,
   ChatNetworkingClient,
-  ChatNetworkingClientChatMessage,
+  ChatNetworkingHistoryEntry,
+  ChatNetworkingRejectedMessage,
+  ChatNetworkingServerChatMessage,
+  ChatNetworkingServerDirectMessage,
   ChatNetworkingServerErrorType,
+  ChatUIScope,
   StringToHslOptions,
   TextChatUI,
   TextChatUIProps,
 } from "@mml-io/3d-web-text-chat";
 import {
   USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE,
+  USER_NETWORKING_BANNED_ERROR_TYPE,
   USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
+  USER_NETWORKING_KICKED_ERROR_TYPE,
+  USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE,
   USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+  USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE,
   USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE,
+  NetworkConditionSimulator,
   UserData,
   UserNetworkingClient,
   UserNetworkingClientUpdate,
@@ -79,7 +91,12 @@ export type Networked3dWebExperienceClientConfig = {
   animationConfig: AnimationConfig;
   voiceChatAddress?: string;
   updateURLLocation?: boolean;
-  onServerBroadcast?: (broadcast: { broadcastType: string; payload: any }) => void;
+  // targeted is true if the broadcast was only sent to selected users rather than to every user
+  onServerBroadcast?: (broadcast: {
+    broadcastType: string;
+    payload: any;
+    targeted: boolean;
+  }) => void;
   loadingScreen?: LoadingScreenConfig;
 } & UpdatableConfig;
 
@@ -143,10 +160,16 @@ export class Networked3dWebExperienceClient {
   private mmlCompositionScene: MMLCompositionScene;
   private mmlFrames: { [key: string]: HTMLElement } = {};
 
+  // Applies the network conditions set in the TweakPane to the client's websockets (passes through unless enabled)
+  private networkConditionSimulator = new NetworkConditionSimulator(networkConditionValues);
+
   private clientId: number | null = null;
+  // The client ID from before the connection was lost. The server may resume the session with the same ID.
+  private resumableClientId: number | null = null;
   private networkClient: UserNetworkingClient;
   private remoteUserStates = new Map<number, CharacterState>();
   private userProfiles = new Map<number, UserData>();
+  private customMessageHandlers = new Map<string, Set<(payload: any) => void>>();
 
   private networkChat: ChatNetworkingClient | null = null;
   private textChatUI: TextChatUI | null = null;
@@ -165,9 +188,11 @@ export class Networked3dWebExperienceClient {
   private loadingProgressManager = new LoadingProgressManager();
   private loadingScreen: LoadingScreen;
   private errorScreen?: ErrorScreen;
+  private queueScreen: QueueScreen | null = null;
   private currentRequestAnimationFrame: number | null = null;
   private groundPlane: GroundPlane | null = null;
   private respawnButton: HTMLDivElement | null = null;
+  private instanceLabel: HTMLDivElement | null = null;
 
   constructor(
     private holderElement: HTMLElement,
@@ -222,20 +247,41 @@ export class Networked3dWebExperienceClient {
     this.networkClient = new UserNetworkingClient({
       url: this.config.userNetworkAddress,
       sessionToken: this.config.sessionToken,
-      websocketFactory: (url: string) => new WebSocket(url),
+      websocketFactory: this.networkConditionSimulator.wrapWebsocketFactory(
+        (url: string) => new WebSocket(url),
+      ),
       statusUpdateCallback: (status: WebsocketStatus) => {
         if (status === WebsocketStatus.Disconnected || status === WebsocketStatus.Reconnecting) {
-          // The connection was lost after being established - the connection may be re-established with a different client ID
-          this.characterManager.clear();
+          /*
+           The connection was lost after being established. The local character is kept in case the server resumes the
+           session with the same client ID, but the other users are cleared as the server will send them again.
+          */
+          if (this.clientId !== null) {
+            this.resumableClientId = this.clientId;
+          }
           this.remoteUserStates.clear();
           this.clientId = null;
         }
       },
       assignedIdentity: (clientId: number) => {
         console.log(`Assigned ID: ${clientId}`);
+        const resumed =
+          clientId === this.resumableClientId && this.characterManager.localCharacter !== null;
+        this.resumableClientId = null;
         this.clientId = clientId;
+        if (this.queueScreen) {
+          // Admitted from the queue
+          this.queueScreen.dispose();
+          this.queueScreen = null;
+        }
+        this.updateInstanceLabel(this.networkClient.getInstanceName());
         if (this.initialLoadCompleted) {
+          if (resumed) {
+            // The session was resumed - the local character continues from where it is
+            return;
+          }
           // Already loaded - respawn the character
+          this.characterManager.clear();
           this.spawnCharacter();
         } else {
           this.loadingProgressManager.completedLoadingAsset(initialNetworkLoadRef);
@@ -244,11 +290,12 @@ export class Networked3dWebExperienceClient {
       clientUpdate: (
         remoteClientId: number,
         userNetworkingClientUpdate: null | UserNetworkingClientUpdate,
+        timestamp?: number,
       ) => {
         if (userNetworkingClientUpdate === null) {
           this.remoteUserStates.delete(remoteClientId);
         } else {
-          this.remoteUserStates.set(remoteClientId, userNetworkingClientUpdate);
+          this.remoteUserStates.set(remoteClientId, { ...userNetworkingClientUpdate, timestamp });
         }
       },
       clientProfileUpdated: (
@@ -269,17 +316,57 @@ export class Networked3dWebExperienceClient {
           case USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE:
             this.disposeWithError(error.message);
             break;
+          case USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE:
+            this.disposeWithError(error.message);
+            break;
+          case USER_NETWORKING_KICKED_ERROR_TYPE:
+            this.disposeWithError(error.message, "You have been removed");
+            break;
+          case USER_NETWORKING_BANNED_ERROR_TYPE:
+            this.disposeWithError(error.message, "You have been banned");
+            break;
           case USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE:
             this.disposeWithError(error.message || "Server shutdown");
             break;
+          case USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE:
+            // The page is likely a cached copy of an older client - a refresh will load the current one
+            this.disposeWithError(
+              "This page is out of date. Please refresh the page to continue.",
+              "Update available",
+            );
+            break;
           default:
             console.error(`Unhandled server error: ${error.message}`);
             this.disposeWithError(error.message);
         }
       },
-      onServerBroadcast: (broadcast: { broadcastType: string; payload: any }) => {
+      onServerBroadcast: (broadcast: {
+        broadcastType: string;
+        payload: any;
+        targeted: boolean;
+      }) => {
         this.config.onServerBroadcast?.(broadcast);
       },
+      onCustomMessage: ({ customType, payload }) => {
+        const handlers = this.customMessageHandlers.get(customType);
+        if (!handlers) {
+          console.warn(`Unhandled custom message: ${customType}`);
+          return;
+        }
+        for (const handler of handlers) {
+          handler(payload);
+        }
+      },
+      onQueuePositionUpdate: (position: number) => {
+        if (!this.queueScreen) {
+          this.queueScreen = new QueueScreen(this.config.loadingScreen);
+          this.element.append(this.queueScreen.element);
+        }
+        this.queueScreen.setPosition(position);
+      },
+      onTeleport: ({ position, rotation }) => {
+        return this.characterManager.teleportLocalCharacter(position, rotation);
+      },
     });
 
     if (this.config.allowOrbitalCamera) {
@@ -305,6 +392,10 @@ export class Networked3dWebExperienceClient {
       remoteUserStates: this.remoteUserStates,
       sendUpdate: (characterState: CharacterState) => {
         this.latestCharacterObject.characterState = characterState;
+        if (this.clientId === null) {
+          // Reconnecting - the server will receive the latest state once the session is resumed
+          return;
+        }
         this.networkClient.sendUpdate(characterState);
       },
       animationConfig: this.config.animationConfig,
@@ -337,7 +428,9 @@ export class Networked3dWebExperienceClient {
         */
         this.connectToVoiceChat();
         this.connectToTextChat();
-        this.mountAvatarSelectionUI();
+        if (!this.networkClient.isSpectator()) {
+          this.mountAvatarSelectionUI();
+        }
         this.spawnCharacter();
       }
     });
@@ -356,6 +449,57 @@ export class Networked3dWebExperienceClient {
     }
   }
 
+  /*
+   The instance of the world that the server placed the user in if the server uses overflow instances. Other users can
+   join the same instance by connecting with the instance as a join hint (see the server's overflowInstances config).
+  */
+  public getInstanceName(): string | null {
+    return this.networkClient.getInstanceName();
+  }
+
+  private updateInstanceLabel(instanceName: string | null) {
+    if (instanceName === null) {
+      this.instanceLabel?.remove();
+      this.instanceLabel = null;
+      return;
+    }
+    if (!this.instanceLabel) {
+      this.instanceLabel = document.createElement("div");
+      this.instanceLabel.style.position = "absolute";
+      this.instanceLabel.style.top = "14px";
+      this.instanceLabel.style.right = "8px";
+      this.instanceLabel.style.zIndex = "102";
+      this.instanceLabel.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+      this.instanceLabel.style.color = "#ffffff";
+      this.instanceLabel.style.borderRadius = "8px";
+      this.instanceLabel.style.border = "1px solid rgba(255, 255, 255, 0.21)";
+      this.instanceLabel.style.padding = "8px";
+      this.instanceLabel.style.fontSize = "12px";
+      this.instanceLabel.style.fontFamily = "Helvetica, sans-serif";
+      this.instanceLabel.style.userSelect = "none";
+      this.element.appendChild(this.instanceLabel);
+    }
+    this.instanceLabel.textContent = `Instance ${instanceName}`;
+  }
+
+  // Sends a custom message to the server to be handled by the handler registered for the customType
+  public sendCustomMessage<T = any>(customType: string, payload: T) {
+    this.networkClient.sendCustomMessage(customType, payload);
+  }
+
+  // Registers a handler for custom messages of the given type from the server. Returns a function that removes it.
+  public onCustomMessage<T = any>(customType: string, handler: (payload: T) => void): () => void {
+    const handlers = this.customMessageHandlers.get(customType) ?? new Set();
+    this.customMessageHandlers.set(customType, handlers);
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0 && this.customMessageHandlers.get(customType) === handlers) {
+        this.customMessageHandlers.delete(customType);
+      }
+    };
+  }
+
   public updateConfig(config: Partial<UpdatableConfig>) {
     this.config = {
       ...this.config,
@@ -513,6 +657,7 @@ export class Networked3dWebExperienceClient {
     );
     this.cameraManager.setupTweakPane(this.tweakPane);
     this.composer.setupTweakPane(this.tweakPane);
+    this.tweakPane.setupNetworkConditions(() => this.networkConditionSimulator.dropConnections());
   }
 
   private connectToTextChat() {
@@ -529,12 +674,59 @@ export class Networked3dWebExperienceClient {
         const textChatUISettings: TextChatUIProps = {
           holderElement: this.element,
           clientname: user.username,
-          sendMessageToServerMethod: (message: string) => {
-            this.characterManager.addSelfChatBubble(message);
-
+          sendMessageToServerMethod: (message: string, scope?: ChatUIScope, channel?: string) => {
+            if (this.networkClient.isSpectator()) {
+              // The server does not accept chat messages from spectators
+              return;
+            }
             this.mmlCompositionScene.onChatMessage(message);
-            if (this.clientId === null || this.networkChat === null) return;
-            this.networkChat.sendChatMessage(message);
+            if (this.clientId === null || this.networkChat === null) {
+              this.characterManager.addSelfChatBubble(message);
+              return;
+            }
+            const networkChat = this.networkChat;
+            return new Promise((resolve, reject) => {
+              networkChat.sendChatMessage(message, {
+                onSent: (messageId: number, timestamp: number) => {
+                  // The bubble is added once the message has an id so that it can be edited or deleted
+                  this.characterManager.addSelfChatBubble(message, messageId);
+                  resolve({ messageId, timestamp });
+                },
+                onRejected: (reason: string) => {
+                  reject(new Error(reason));
+                },
+                scope,
+                channel,
+              });
+            });
+          },
+          editMessageOnServerMethod: (messageId: number, text: string) => {
+            this.networkChat?.editChatMessage(messageId, text);
+          },
+          deleteMessageOnServerMethod: (messageId: number) => {
+            this.networkChat?.deleteChatMessage(messageId);
+          },
+          sendDirectMessageToServerMethod: (recipientId: number, message: string) => {
+            if (this.networkClient.isSpectator()) {
+              return;
+            }
+            // Direct messages are private, so they are not shown in chat bubbles or passed to the MML documents
+            this.networkChat?.sendDirectMessage(recipientId, message);
+          },
+          getDirectMessageRecipients: () => {
+            const recipients: Array<{ id: number; username: string }> = [];
+            for (const [id, profile] of this.userProfiles) {
+              if (id !== this.clientId) {
+                recipients.push({ id, username: profile.username });
+              }
+            }
+            return recipients;
+          },
+          joinChannelMethod: (channel: string) => {
+            this.networkChat?.joinChannel(channel);
+          },
+          leaveChannelMethod: (channel: string) => {
+            this.networkChat?.leaveChannel(channel);
           },
           visibleByDefault: this.config.chatVisibleByDefault,
           stringToHslOptions: this.config.userNameToColorOptions,
@@ -546,7 +738,9 @@ export class Networked3dWebExperienceClient {
       this.networkChat = new ChatNetworkingClient({
         url: this.config.chatNetworkAddress,
         sessionToken: this.config.sessionToken,
-        websocketFactory: (url: string) => new WebSocket(url),
+        websocketFactory: this.networkConditionSimulator.wrapWebsocketFactory(
+          (url: string) => new WebSocket(url),
+        ),
         statusUpdateCallback: (status: WebsocketStatus) => {
           if (status === WebsocketStatus.Disconnected || status === WebsocketStatus.Reconnecting) {
             // The connection was lost after being established - the connection may be re-established with a different client ID
@@ -554,14 +748,79 @@ export class Networked3dWebExperienceClient {
         },
         clientChatUpdate: (
           clientId: number,
-          chatNetworkingUpdate: null | ChatNetworkingClientChatMessage,
+          chatNetworkingUpdate: null | ChatNetworkingServerChatMessage,
         ) => {
           if (chatNetworkingUpdate !== null && this.textChatUI !== null) {
-            const username = this.userProfiles.get(clientId)?.username || "Unknown";
-            this.textChatUI.addTextMessage(username, chatNetworkingUpdate.text);
-            this.characterManager.addChatBubble(clientId, chatNetworkingUpdate.text);
+            const username =
+              chatNetworkingUpdate.username ||
+              this.userProfiles.get(clientId)?.username ||
+              "Unknown";
+            this.textChatUI.addTextMessage(username, chatNetworkingUpdate.text, {
+              messageId: chatNetworkingUpdate.messageId,
+              timestamp: chatNetworkingUpdate.timestamp,
+              scope: chatNetworkingUpdate.scope,
+              channel: chatNetworkingUpdate.channel,
+            });
+            this.characterManager.addChatBubble(
+              clientId,
+              chatNetworkingUpdate.text,
+              chatNetworkingUpdate.messageId,
+            );
           }
         },
+        onChatHistory: (messages: Array<ChatNetworkingHistoryEntry>, channel?: string) => {
+          // The history is shown in the chat panel only - the senders may no longer be present for chat bubbles
+          this.textChatUI?.setHistory(
+            messages.map((entry) => ({
+              username: entry.username,
+              message: entry.text,
+              messageId: entry.messageId,
+              timestamp: entry.timestamp,
+              own: entry.id === this.clientId,
+              edited: entry.edited,
+              channel: entry.channel,
+            })),
+            channel,
+          );
+        },
+        onChannels: (channels: Array<ChatNetworkingChannelState>) => {
+          this.textChatUI?.setChannels(channels);
+        },
+        onDirectMessage: (directMessage: ChatNetworkingServerDirectMessage) => {
+          const own = directMessage.id === this.clientId;
+          this.textChatUI?.addTextMessage(
+            directMessage.username ||
+              this.userProfiles.get(directMessage.id)?.username ||
+              "Unknown",
+            directMessage.text,
+            {
+              messageId: directMessage.messageId,
+              timestamp: directMessage.timestamp,
+              own,
+              direct: true,
+              recipientUsername:
+                directMessage.toUsername ||
+                this.userProfiles.get(directMessage.toId)?.username ||
+                "Unknown",
+            },
+          );
+        },
+        onIdentity: (identity) => {
+          this.textChatUI?.setCanModerate(identity.moderator);
+          this.textChatUI?.setProximity(identity.proximity);
+        },
+        onChatMessageEdited: (messageId: number, text: string) => {
+          this.textChatUI?.editTextMessage(messageId, text);
+          this.characterManager.editChatBubble(messageId, text);
+        },
+        onChatMessageDeleted: (messageId: number) => {
+          this.textChatUI?.deleteTextMessage(messageId);
+          this.characterManager.removeChatBubble(messageId);
+        },
+        onRequestRejected: (rejection: ChatNetworkingRejectedMessage) => {
+          // Rejected chat messages are shown by the text chat UI as it sends them with onRejected
+          this.textChatUI?.addTextMessage("", rejection.message, { notice: true });
+        },
         onServerError: (error: { message: string; errorType: ChatNetworkingServerErrorType }) => {
           console.error(`Chat server error: ${error.message}. errorType: ${error.errorType}`);
           this.disposeWithError(error.message);
@@ -611,6 +870,7 @@ export class Networked3dWebExperienceClient {
           this.tweakPane.updateCharacterData(this.characterManager.localController);
         }
       }
+      this.tweakPane.updateRemoteCharacterData(this.characterManager.remoteCharacterControllers);
     }
     this.currentRequestAnimationFrame = requestAnimationFrame(() => {
       this.update();
@@ -659,6 +919,21 @@ export class Networked3dWebExperienceClient {
       spawnRotation.setFromQuaternion(urlParams.character.quaternion);
       cameraPosition = urlParams.camera.position;
     }
+
+    if (this.networkClient.isSpectator()) {
+      // Spectators have no character - they view the world from the spawn point with the fly camera
+      this.cameraManager.camera.position.copy(cameraPosition);
+      this.cameraManager.setTarget(
+        new Vector3().add(spawnPosition).add(this.characterManager.headTargetOffset),
+      );
+      this.cameraManager.reverseUpdateFromPositions();
+      if (!this.cameraManager.isFlyCameraOn()) {
+        this.cameraManager.toggleFlyCamera();
+        this.composer.fitContainer();
+      }
+      return;
+    }
+
     const ownIdentity = this.userProfiles.get(this.clientId);
     if (!ownIdentity) {
       throw new Error("Own identity not found");
@@ -681,15 +956,16 @@ export class Networked3dWebExperienceClient {
     }
   }
 
-  private disposeWithError(message: string) {
+  private disposeWithError(message: string, title = "An error occurred") {
     this.dispose();
-    this.errorScreen = new ErrorScreen("An error occurred", message);
+    this.errorScreen = new ErrorScreen(title, message);
     this.element.append(this.errorScreen.element);
   }
 
   public dispose() {
     this.networkClient.stop();
     this.networkChat?.stop();
+    this.networkConditionSimulator.dispose();
     for (const [key, element] of Object.entries(this.mmlFrames)) {
       element.remove();
     }
@@ -704,6 +980,8 @@ export class Networked3dWebExperienceClient {
     }
     this.cameraManager.dispose();
     this.loadingScreen.dispose();
+    this.queueScreen?.dispose();
+    this.queueScreen = null;
     this.errorScreen?.dispose();
   }
 
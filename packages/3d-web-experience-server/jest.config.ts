@@ -0,0 +1,3 @@
+import { jestConfig } from "../../utils/jest-config.cjs";
+
+export default jestConfig;
@@ -0,0 +1,85 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { ChatHistoryStorage, ChatNetworkingHistoryEntry } from "@mml-io/3d-web-text-chat";
+
+export type ChatHistoryConfig = {
+  // The most recent messages that are kept (default 100)
+  maxMessages?: number;
+  // Messages older than this are discarded. Messages do not expire if not set.
+  maxAgeMilliseconds?: number;
+  // If set, the history of each room is kept in <directory>/<room id>.json so that it survives restarts
+  directory?: string;
+};
+
+// How long after a change the history is written, so that bursts of messages result in a single write
+const saveDelayMilliseconds = 1000;
+
+function isHistoryEntry(entry: any): entry is ChatNetworkingHistoryEntry {
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.id === "number" &&
+    typeof entry.messageId === "number" &&
+    typeof entry.username === "string" &&
+    typeof entry.text === "string" &&
+    typeof entry.timestamp === "number"
+  );
+}
+
+// Keeps a chat history in a JSON file
+export class FileChatHistoryStorage implements ChatHistoryStorage {
+  private pendingEntries: Array<ChatNetworkingHistoryEntry> | null = null;
+  private saveTimeout: NodeJS.Timeout | null = null;
+
+  constructor(public readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  public load(): Array<ChatNetworkingHistoryEntry> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+    const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Chat history file ${this.filePath} does not contain an array`);
+    }
+    return parsed.filter(isHistoryEntry);
+  }
+
+  public save(entries: Array<ChatNetworkingHistoryEntry>) {
+    // The history may be modified after this call, so a copy is written
+    this.pendingEntries = entries.slice();
+    if (this.saveTimeout === null) {
+      this.saveTimeout = setTimeout(() => {
+        this.saveTimeout = null;
+        this.writePendingEntries();
+      }, saveDelayMilliseconds);
+    }
+  }
+
+  // Writes any pending changes immediately (e.g. before the server stops)
+  public flush() {
+    if (this.saveTimeout !== null) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    this.writePendingEntries();
+  }
+
+  private writePendingEntries() {
+    if (this.pendingEntries === null) {
+      return;
+    }
+    const entries = this.pendingEntries;
+    this.pendingEntries = null;
+    // Written to a temporary file first so that a crash during the write does not lose the previous history
+    const temporaryPath = `${this.filePath}.tmp`;
+    try {
+      fs.writeFileSync(temporaryPath, JSON.stringify(entries));
+      fs.renameSync(temporaryPath, this.filePath);
+    } catch (e) {
+      console.error(`Failed to write chat history to ${this.filePath}`, e);
+    }
+  }
+}
@@ -38,6 +38,22 @@ export class MMLDocumentsServer {
     this.watcher.close();
   }
 
+  // Returns the paths (relative to the documents directory) of the documents being served
+  public getDocumentPaths(): Array<string> {
+    return Array.from(this.documents.keys());
+  }
+
+  // Reloads the document from its file, restarting it for all connected clients. Returns false if it does not exist.
+  public reloadDocument(relativePath: string): boolean {
+    const documentState = this.documents.get(relativePath);
+    if (!documentState) {
+      return false;
+    }
+    console.log(`MML Document '${relativePath}' is being reloaded`);
+    documentState.document.load(getMmlDocumentContent(documentState.documentPath));
+    return true;
+  }
+
   public handle(filename: string, ws: WebSocket) {
     const document = this.documents.get(filename)?.document;
     if (!document) {
@@ -0,0 +1,420 @@
+import path from "node:path";
+
+import {
+  CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+  CHAT_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+  ChatNetworkingChannel,
+  ChatNetworkingProximityOptions,
+  ChatNetworkingServer,
+} from "@mml-io/3d-web-text-chat";
+import {
+  InMemoryUserNetworkingBus,
+  USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE,
+  USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+  USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+  UserData,
+  UserIdentity,
+  UserNetworkingBanIdentity,
+  UserNetworkingBus,
+  UserNetworkingMovementValidationOptions,
+  UserNetworkingReplay,
+  UserNetworkingReplayBus,
+  UserNetworkingServer,
+  UserNetworkingServerClientInfo,
+  UserNetworkingServerInterestManagementOptions,
+  UserNetworkingVirtualClient,
+} from "@mml-io/3d-web-user-networking";
+import WebSocket from "ws";
+
+import { ChatHistoryConfig, FileChatHistoryStorage } from "./FileChatHistoryStorage";
+import { MMLDocumentsServer } from "./MMLDocumentsServer";
+import type { UserAuthenticator } from "./Networked3dWebExperienceServer";
+import { SessionRecorder, SessionRecordingConfig } from "./SessionRecorder";
+
+// The settings that can differ between rooms
+export type Networked3dWebExperienceRoomConfig = {
+  connectionLimit?: number;
+  // If set, users that join when the connectionLimit has been reached wait in a queue rather than being rejected
+  queueWhenFull?: boolean;
+  // If set, users only receive updates for other users within the configured radius
+  interestManagement?: UserNetworkingServerInterestManagementOptions;
+  // If set, movement updates from users are checked for invalid values and impossible movement
+  movementValidation?: UserNetworkingMovementValidationOptions;
+  /*
+   The MML documents of the room, served at the documentsUrl of the server's mmlServing config. Each room loads its own
+   instances of the documents.
+  */
+  mmlServing?: {
+    documentsWatchPath: string;
+    documentsDirectoryRoot: string;
+  };
+  // If set, the activity of the room (including users of other servers on the bus) is recorded to a file
+  recording?: SessionRecordingConfig;
+  // If set, recent chat messages are kept and shown to users when they join the chat
+  chatHistory?: ChatHistoryConfig;
+  // If set, chat messages are only delivered to users near the sender unless they are shouted
+  chatProximity?: Omit<ChatNetworkingProximityOptions, "getClientPosition">;
+  // If set, chat messages are sent in named channels and only delivered to the users that joined the channel
+  chatChannels?: Array<ChatNetworkingChannel>;
+};
+
+export type Networked3dWebExperienceRoomOptions = Networked3dWebExperienceRoomConfig & {
+  minimumProtocolVersion?: number;
+  sessionResumptionGracePeriod?: number;
+  userNetworkingBus?: UserNetworkingBus;
+  // The ids assigned to the users of the room. Rooms must not share ids as the user authenticator is shared.
+  clientIdRange: { min: number; max: number };
+  enableChat: boolean;
+  userAuthenticator: UserAuthenticator;
+  /*
+   The number of this instance of the room (starting from 1). Instances other than the first are overflow instances
+   that share the MML documents of the first instance but have separate users and chat.
+  */
+  instance?: number;
+  // Sent to users to show which instance they are in. Not sent if not set.
+  instanceName?: string;
+  // If set, the room uses these MML documents rather than loading its own (and does not dispose them)
+  sharedMMLDocumentsServer?: MMLDocumentsServer;
+  /*
+   If set, the room shows the users and chat of the replay rather than a live world. All users join as spectators and
+   the clientIdRange must not overlap the ids in the recording.
+  */
+  replay?: UserNetworkingReplay;
+  onClientCustomMessage: (
+    room: Networked3dWebExperienceRoom,
+    clientId: number,
+    customType: string,
+    payload: any,
+  ) => void;
+};
+
+// Identifies a room instance, e.g. "lobby" for the first instance of the lobby room and "lobby:2" for the second
+export function getRoomInstanceId(roomName: string, instance: number): string {
+  return instance === 1 ? roomName : `${roomName}:${instance}`;
+}
+
+/*
+ A world with its own users, chat and MML documents. Users in one room never see or hear from the users of another
+ room.
+*/
+export class Networked3dWebExperienceRoom {
+  public readonly instance: number;
+  public readonly id: string;
+
+  public userNetworkingServer: UserNetworkingServer;
+
+  public chatNetworkingServer?: ChatNetworkingServer;
+
+  public mmlDocumentsServer?: MMLDocumentsServer;
+
+  public sessionRecorder?: SessionRecorder;
+
+  private chatHistoryStorage?: FileChatHistoryStorage;
+
+  private unsubscribeFromReplay: (() => void) | null = null;
+
+  // The number of open websockets (of any kind) for this room
+  private connectionCount = 0;
+
+  constructor(
+    public readonly name: string,
+    private options: Networked3dWebExperienceRoomOptions,
+  ) {
+    this.instance = options.instance ?? 1;
+    this.id = getRoomInstanceId(name, this.instance);
+
+    if (options.sharedMMLDocumentsServer) {
+      this.mmlDocumentsServer = options.sharedMMLDocumentsServer;
+    } else if (options.mmlServing) {
+      const { documentsWatchPath, documentsDirectoryRoot } = options.mmlServing;
+      this.mmlDocumentsServer = new MMLDocumentsServer(documentsDirectoryRoot, documentsWatchPath);
+    }
+
+    let userNetworkingBus = options.userNetworkingBus;
+    if (options.replay) {
+      userNetworkingBus = new UserNetworkingReplayBus(options.replay);
+    } else if (options.recording) {
+      // The recorder observes the room through the bus
+      userNetworkingBus = userNetworkingBus ?? new InMemoryUserNetworkingBus();
+      this.sessionRecorder = new SessionRecorder(
+        this.id.replace(":", "-"),
+        userNetworkingBus,
+        options.recording,
+      );
+    }
+
+    if (options.enableChat) {
+      if (options.chatHistory?.directory) {
+        this.chatHistoryStorage = new FileChatHistoryStorage(
+          path.join(options.chatHistory.directory, `${this.id.replace(":", "-")}.json`),
+        );
+      }
+      this.chatNetworkingServer = new ChatNetworkingServer({
+        getChatUserIdentity: (sessionToken: string) => {
+          const identity = options.userAuthenticator.getClientIdForSessionToken(sessionToken);
+          if (!identity) {
+            return null;
+          }
+          if (!this.hasClientId(identity.id)) {
+            // The user is in a different room
+            return null;
+          }
+          // Spectators can read the chat but not post to it
+          const userData = this.userNetworkingServer.getClient(identity.id)?.userData;
+          return {
+            id: identity.id,
+            readOnly: userData?.spectator ?? false,
+            moderator: userData?.moderator ?? false,
+          };
+        },
+        onChatMessage: (clientId: number, text: string) => {
+          this.sessionRecorder?.recordChatMessage(clientId, text);
+        },
+        getUsername: (clientId: number) =>
+          this.userNetworkingServer.getUserData(clientId)?.username ?? null,
+        history: options.chatHistory && {
+          maxMessages: options.chatHistory.maxMessages,
+          maxAgeMilliseconds: options.chatHistory.maxAgeMilliseconds,
+          storage: this.chatHistoryStorage,
+        },
+        proximity: options.chatProximity && {
+          ...options.chatProximity,
+          // Includes virtual clients and users of other servers on the bus
+          getClientPosition: (clientId: number) =>
+            this.userNetworkingServer.getClientPosition(clientId),
+        },
+        channels: options.chatChannels,
+      });
+      if (options.replay) {
+        this.unsubscribeFromReplay = options.replay.subscribe((event) => {
+          if (event.type === USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE) {
+            this.chatNetworkingServer?.sendChatMessage(event.id, event.text);
+          }
+        });
+      }
+    }
+
+    this.userNetworkingServer = new UserNetworkingServer({
+      connectionLimit: options.connectionLimit,
+      queueWhenFull: options.queueWhenFull,
+      interestManagement: options.interestManagement,
+      minimumProtocolVersion: options.minimumProtocolVersion,
+      sessionResumptionGracePeriod: options.sessionResumptionGracePeriod,
+      bus: userNetworkingBus,
+      clientIdRange: options.clientIdRange,
+      movementValidation: options.movementValidation,
+      instanceName: options.instanceName,
+      onClientConnect: (
+        clientId: number,
+        sessionToken: string,
+        userIdentityPresentedOnConnection?: UserIdentity,
+      ): Promise<UserData | null> | UserData | null => {
+        const userData = options.userAuthenticator.onClientConnect(
+          clientId,
+          sessionToken,
+          userIdentityPresentedOnConnection,
+        );
+        if (!options.replay) {
+          return userData;
+        }
+        // Users of a replay can only watch
+        return Promise.resolve(userData).then(
+          (resolvedUserData) => resolvedUserData && { ...resolvedUserData, spectator: true },
+        );
+      },
+      onClientUserIdentityUpdate: (
+        clientId: number,
+        userIdentity: UserIdentity,
+      ): UserData | null => {
+        // Called whenever a user connects or updates their character/identity
+        return options.userAuthenticator.onClientUserIdentityUpdate(clientId, userIdentity);
+      },
+      onClientDisconnect: (clientId: number): void => {
+        options.userAuthenticator.onClientDisconnect(clientId);
+        // Disconnect the corresponding chat client to avoid later conflicts of client ids
+        if (this.chatNetworkingServer) {
+          this.chatNetworkingServer.disconnectClientId(clientId);
+        }
+      },
+      onClientCustomMessage: (clientId: number, customType: string, payload: any) => {
+        options.onClientCustomMessage(this, clientId, customType, payload);
+      },
+      onVirtualClientChatMessage: (clientId: number, text: string) => {
+        this.chatNetworkingServer?.sendChatMessage(clientId, text);
+      },
+    });
+  }
+
+  // Whether the id is in the range of ids assigned to the users of this room
+  public hasClientId(clientId: number): boolean {
+    const { min, max } = this.options.clientIdRange;
+    return clientId >= min && clientId <= max;
+  }
+
+  // Whether the room has reached its connection limit (counting users that are still authenticating)
+  public isFull(): boolean {
+    const { connectionLimit } = this.options;
+    return (
+      connectionLimit !== undefined && this.userNetworkingServer.getClientCount() >= connectionLimit
+    );
+  }
+
+  public getConnectionCount(): number {
+    return this.connectionCount;
+  }
+
+  // onClose is called with the number of websockets that remain open for the room once the websocket closes
+  public trackConnection(ws: WebSocket, onClose: (connectionCount: number) => void) {
+    this.connectionCount++;
+    ws.on("close", () => {
+      this.connectionCount--;
+      onClose(this.connectionCount);
+    });
+  }
+
+  // initialMessage is a message that was already received from the websocket (see UserNetworkingServer.connectClient)
+  public connectUserNetworkingClient(ws: WebSocket, initialMessage?: WebSocket.Data) {
+    this.userNetworkingServer.connectClient(ws, initialMessage);
+  }
+
+  // Returns false if chat is not enabled
+  public connectChatClient(ws: WebSocket, initialMessage?: WebSocket.Data): boolean {
+    if (!this.chatNetworkingServer) {
+      return false;
+    }
+    this.chatNetworkingServer.connectClient(ws, initialMessage);
+    return true;
+  }
+
+  // Returns false if the room does not serve MML documents
+  public connectMMLDocumentClient(path: string, ws: WebSocket): boolean {
+    if (!this.mmlDocumentsServer) {
+      return false;
+    }
+    this.mmlDocumentsServer.handle(path, ws);
+    return true;
+  }
+
+  public broadcastMessage(broadcastType: string, payload: any) {
+    this.userNetworkingServer.broadcastMessage(broadcastType, payload);
+  }
+
+  // Returns false if the user is not connected
+  public sendToClient(clientId: number, broadcastType: string, payload: any): boolean {
+    return this.userNetworkingServer.sendToClient(clientId, broadcastType, payload);
+  }
+
+  public sendToClients(clientIds: Iterable<number>, broadcastType: string, payload: any) {
+    this.userNetworkingServer.sendToClients(clientIds, broadcastType, payload);
+  }
+
+  // Sends to every connected user that the predicate returns true for (e.g. all users within a region or with a role)
+  public sendToMatchingClients(
+    predicate: (client: UserNetworkingServerClientInfo) => boolean,
+    broadcastType: string,
+    payload: any,
+  ) {
+    this.userNetworkingServer.sendToMatchingClients(predicate, broadcastType, payload);
+  }
+
+  // Sends a custom message to the given users, or to every user if clientIds is not provided
+  public sendCustomMessage(customType: string, payload: any, clientIds?: Iterable<number>) {
+    this.userNetworkingServer.sendCustomMessage(customType, payload, clientIds);
+  }
+
+  /*
+   Adds a server-driven user (e.g. a guide or greeter) that users of the room see as if it were a connected user. Chat
+   messages sent with the returned handle appear in the room's chat.
+  */
+  public createVirtualClient(
+    userData: UserData,
+    position?: { x: number; y: number; z: number },
+    rotation?: { quaternionY: number; quaternionW: number },
+  ): UserNetworkingVirtualClient {
+    return this.userNetworkingServer.createVirtualClient(userData, position, rotation);
+  }
+
+  public updateUserCharacter(clientId: number, userData: UserData) {
+    console.log(`Initiate server-side update of client ${clientId}`);
+    this.userNetworkingServer.updateUserCharacter(clientId, userData);
+  }
+
+  // Disconnects the user, showing them the reason. Returns false if the user is not connected.
+  public kickClient(clientId: number, reason: string): boolean {
+    return this.userNetworkingServer.kickClient(clientId, reason);
+  }
+
+  /*
+   Disconnects the user and prevents them from reconnecting with the same session token or username until the ban
+   expires (or indefinitely if no duration is given). Returns false if the user is not connected.
+  */
+  public banClient(clientId: number, reason: string, durationMilliseconds?: number): boolean {
+    return this.userNetworkingServer.banClient(clientId, reason, durationMilliseconds);
+  }
+
+  public banIdentity(
+    identity: UserNetworkingBanIdentity,
+    reason: string,
+    durationMilliseconds?: number,
+  ) {
+    this.userNetworkingServer.banIdentity(identity, reason, durationMilliseconds);
+  }
+
+  public unbanIdentity(identity: UserNetworkingBanIdentity) {
+    this.userNetworkingServer.unbanIdentity(identity);
+  }
+
+  /*
+   Drops the user's chat messages until the mute expires, including after they reconnect. Returns false if chat is not
+   enabled or the user is not known to the chat.
+  */
+  public muteClient(clientId: number, durationMilliseconds?: number): boolean {
+    if (!this.chatNetworkingServer) {
+      return false;
+    }
+    return this.chatNetworkingServer.muteClient(clientId, durationMilliseconds);
+  }
+
+  public unmuteClient(clientId: number) {
+    this.chatNetworkingServer?.unmuteClient(clientId);
+  }
+
+  public teleportClient(
+    clientId: number,
+    position: { x: number; y: number; z: number },
+    rotation: { quaternionY: number; quaternionW: number },
+  ): Promise<void> {
+    console.log(`Initiate server-side teleport of client ${clientId}`);
+    return this.userNetworkingServer.teleportClient(clientId, position, rotation);
+  }
+
+  public dispose(errorMessage?: string) {
+    this.unsubscribeFromReplay?.();
+    this.unsubscribeFromReplay = null;
+    this.sessionRecorder?.stop();
+    this.userNetworkingServer.dispose(
+      errorMessage
+        ? {
+            type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+            errorType: USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+            message: errorMessage,
+          }
+        : undefined,
+    );
+    if (this.chatNetworkingServer) {
+      this.chatNetworkingServer.dispose(
+        errorMessage
+          ? {
+              type: CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+              errorType: CHAT_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+              message: errorMessage,
+            }
+          : undefined,
+      );
+    }
+    this.chatHistoryStorage?.flush();
+    if (this.mmlDocumentsServer && !this.options.sharedMMLDocumentsServer) {
+      this.mmlDocumentsServer.dispose();
+    }
+  }
+}
@@ -1,25 +1,43 @@
+import fs from "node:fs";
+
+import { ChatNetworkingServer } from "@mml-io/3d-web-text-chat";
 import {
-  CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
-  CHAT_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
-  ChatNetworkingServer,
-} from "@mml-io/3d-web-text-chat";
-import {
-  USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
-  USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
+  parseUserNetworkingRecording,
+  USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
   UserData,
   UserIdentity,
+  UserNetworkingBanIdentity,
+  UserNetworkingBus,
+  UserNetworkingMovementValidationOptions,
+  UserNetworkingRecording,
+  UserNetworkingReplay,
   UserNetworkingServer,
+  UserNetworkingServerClientInfo,
+  UserNetworkingServerInterestManagementOptions,
 } from "@mml-io/3d-web-user-networking";
 import cors from "cors";
 import express from "express";
 import enableWs from "express-ws";
 import WebSocket from "ws";
 
+import { AdminApiOptions, registerAdminApiRoutes } from "./adminApi";
+import { ChatHistoryConfig } from "./FileChatHistoryStorage";
 import { MMLDocumentsServer } from "./MMLDocumentsServer";
+import {
+  getRoomInstanceId,
+  Networked3dWebExperienceRoom,
+  Networked3dWebExperienceRoomConfig,
+} from "./Networked3dWebExperienceRoom";
+import { SessionRecordingConfig } from "./SessionRecorder";
 import { websocketDirectoryChangeListener } from "./websocketDirectoryChangeListener";
 
-type UserAuthenticator = {
+export type UserAuthenticator = {
   generateAuthorizedSessionToken(req: express.Request): Promise<string | null>;
+  /*
+   Whether the session token would be accepted by onClientConnect. Rooms are only created for connections that present
+   an authorized token (getClientIdForSessionToken cannot be used as the client is not connected yet).
+  */
+  isAuthorizedSessionToken(sessionToken: string): boolean;
   getClientIdForSessionToken: (sessionToken: string) => {
     id: number;
   } | null;
@@ -32,10 +50,74 @@ type UserAuthenticator = {
   onClientDisconnect(clientId: number): void;
 };
 
+export type CustomMessageContext = {
+  // The id of the user that sent the message
+  clientId: number;
+  // The room that the user is in. Replies are only sent to users in the same room.
+  room: Networked3dWebExperienceRoom;
+  // Sends a custom message to the user that sent the message
+  reply: (customType: string, payload: any) => void;
+  sendToClients: (clientIds: Iterable<number>, customType: string, payload: any) => void;
+  sendToAll: (customType: string, payload: any) => void;
+};
+
+export type CustomMessageHandler<T = any> = (
+  payload: T,
+  context: CustomMessageContext,
+) => void | Promise<void>;
+
 export const defaultSessionTokenPlaceholder = "SESSION.TOKEN.PLACEHOLDER";
 
+export type Networked3dWebExperienceRoomsConfig = {
+  /*
+   The configuration of rooms that are created on demand when first joined, or a function that creates the
+   configuration for the named room (returning null to reject the room name)
+  */
+  template:
+    | Networked3dWebExperienceRoomConfig
+    | ((roomName: string) => Networked3dWebExperienceRoomConfig | null);
+  // The number of user ids reserved for each room, which limits the number of users in a room. Defaults to 1000.
+  clientIdsPerRoom?: number;
+  // How long (milliseconds) a room is kept once all of its connections have closed. Defaults to 60000.
+  emptyRoomTimeout?: number;
+  // If set, only rooms with these names can be created
+  allowedRoomNames?: Array<string>;
+  // The maximum number of named rooms (not counting overflow instances) that can exist at once. Defaults to 50.
+  maxRooms?: number;
+};
+
+// The name of the room that connections without a room name join
+export const defaultRoomName = "default";
+
+const defaultClientIdsPerRoom = 1000;
+const defaultEmptyRoomTimeout = 60000;
+const defaultMaxRooms = 50;
+const defaultMaxInstances = 10;
+// How long (milliseconds) to wait for the authentication message of a connection before closing it
+const authenticationMessageTimeout = 10000;
+const roomNamePattern = /^[a-zA-Z0-9_-]{1,64}$/;
+
 export type Networked3dWebExperienceServerConfig = {
   connectionLimit?: number;
+  /*
+   If set, users that join when the connectionLimit has been reached wait in a queue and are admitted automatically when
+   a slot frees up. With overflowInstances, users only queue once the maximum number of instances are full.
+  */
+  queueWhenFull?: boolean;
+  // If set, users only receive updates for other users within the configured radius
+  interestManagement?: UserNetworkingServerInterestManagementOptions;
+  // Clients older than this protocol version are asked to refresh the page
+  minimumProtocolVersion?: number;
+  // How long (milliseconds) a disconnected user's slot is held for them to reconnect with the same session token
+  sessionResumptionGracePeriod?: number;
+  /*
+   If set, users connected to other servers on the bus are presented as if they were connected to this server. Each
+   server must be given a distinct clientIdRange.
+  */
+  userNetworkingBus?: UserNetworkingBus;
+  clientIdRange?: { min: number; max: number };
+  // If set, movement updates from users are checked for invalid values and impossible movement
+  movementValidation?: UserNetworkingMovementValidationOptions;
   networkPath: string;
   webClientServing: {
     indexUrl: string;
@@ -47,6 +129,12 @@ export type Networked3dWebExperienceServerConfig = {
     clientWatchWebsocketPath?: string;
   };
   chatNetworkPath?: string;
+  // If set, recent chat messages of the default room are shown to users when they join (set chatHistory in the rooms template for rooms)
+  chatHistory?: ChatHistoryConfig;
+  // If set, chat messages in the default room are only delivered to nearby users (set chatProximity in the rooms template for rooms)
+  chatProximity?: Networked3dWebExperienceRoomConfig["chatProximity"];
+  // If set, the chat of the default room is split into these channels (set chatChannels in the rooms template for rooms)
+  chatChannels?: Networked3dWebExperienceRoomConfig["chatChannels"];
   assetServing?: {
     assetsDir: string;
     assetsUrl: string;
@@ -57,99 +145,628 @@ export type Networked3dWebExperienceServerConfig = {
     documentsUrl: string;
   };
   userAuthenticator: UserAuthenticator;
+  // The admin API is only registered if a secret is configured
+  adminApi?: AdminApiOptions;
+  /*
+   If set, users can join named rooms by connecting to the network, chat and MML document websockets with a "room"
+   query parameter (or as a path segment after the network and chat paths, e.g. /network/my-room). Each room has its
+   own users, chat and MML documents. Connections without a room name join the default room, which is configured by
+   the rest of this config. Named rooms do not use the userNetworkingBus. Rooms are only created by network
+   connections that have sent their authentication message - chat and MML document connections can only join rooms
+   that already exist.
+  */
+  rooms?: Networked3dWebExperienceRoomsConfig;
+  /*
+   If set, users that join a room that has reached its connectionLimit are placed in the least full instance of the
+   room (creating a new instance if all are full) rather than being rejected. Instances share the MML documents of the
+   room but have separate users and chat. Users that reconnect with the same session token return to their previous
+   instance, and users can ask to join a friend's instance with an "instance" query parameter on the network websocket
+   (e.g. /network?instance=2). Instances are identified as "room:instance" (e.g. "default:2") by getRoom.
+  */
+  overflowInstances?: {
+    // The maximum number of instances of each room (including the first). Defaults to 10.
+    maxInstances?: number;
+  };
+  // If set, the activity of the default room is recorded to a file (set recording in the rooms template for rooms)
+  recording?: SessionRecordingConfig;
+  /*
+   If set, the default room shows the recording rather than a live world and all users join as spectators. The replay
+   is controlled with the replay property (or the admin API). Cannot be combined with rooms or overflowInstances.
+  */
+  replay?: {
+    recordingPath: string;
+    // Defaults to true
+    autoplay?: boolean;
+  };
 };
 
+// The ids of users must not overlap the ids of the recorded users that are presented alongside them
+function getReplayClientIdRange(recording: UserNetworkingRecording): { min: number; max: number } {
+  let maxRecordedId = 0;
+  for (const entry of recording.entries) {
+    if (entry.type === USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE) {
+      maxRecordedId = Math.max(maxRecordedId, entry.id);
+    }
+  }
+  return { min: maxRecordedId + 1, max: 65535 };
+}
+
 export class Networked3dWebExperienceServer {
+  // The user networking, chat and MML documents of the default room
   public userNetworkingServer: UserNetworkingServer;
 
   public chatNetworkingServer?: ChatNetworkingServer;
 
   public mmlDocumentsServer?: MMLDocumentsServer;
 
-  constructor(private config: Networked3dWebExperienceServerConfig) {
-    if (this.config.mmlServing) {
-      const { documentsWatchPath, documentsDirectoryRoot } = this.config.mmlServing;
-      this.mmlDocumentsServer = new MMLDocumentsServer(documentsDirectoryRoot, documentsWatchPath);
-    }
+  // Set if the server is showing a recording (see the replay config)
+  public replay: UserNetworkingReplay | null = null;
 
-    if (this.config.chatNetworkPath) {
-      this.chatNetworkingServer = new ChatNetworkingServer({
-        getChatUserIdentity: (sessionToken: string) => {
-          return this.config.userAuthenticator.getClientIdForSessionToken(sessionToken);
-        },
-      });
+  private defaultRoom: Networked3dWebExperienceRoom;
+  // All instances of all rooms by id (see getRoomInstanceId)
+  private rooms = new Map<string, Networked3dWebExperienceRoom>();
+  // The configuration of each room by name, used to create overflow instances
+  private roomConfigs = new Map<string, Networked3dWebExperienceRoomConfig>();
+  // The index of the block of client ids used by each room (see clientIdsPerRoom)
+  private roomClientIdBlocks = new Map<Networked3dWebExperienceRoom, number>();
+  private emptyRoomTimeouts = new Map<Networked3dWebExperienceRoom, NodeJS.Timeout>();
+
+  private customMessageHandlers = new Map<string, CustomMessageHandler>();
+
+  constructor(private config: Networked3dWebExperienceServerConfig) {
+    let replayClientIdRange: { min: number; max: number } | null = null;
+    if (config.replay) {
+      if (config.rooms || config.overflowInstances) {
+        throw new Error("replay cannot be combined with rooms or overflowInstances");
+      }
+      const recording = parseUserNetworkingRecording(
+        fs.readFileSync(config.replay.recordingPath, "utf8"),
+      );
+      this.replay = new UserNetworkingReplay(recording);
+      replayClientIdRange = getReplayClientIdRange(recording);
     }
 
-    this.userNetworkingServer = new UserNetworkingServer({
+    const defaultRoomConfig: Networked3dWebExperienceRoomConfig = {
       connectionLimit: config.connectionLimit,
-      onClientConnect: (
-        clientId: number,
-        sessionToken: string,
-        userIdentityPresentedOnConnection?: UserIdentity,
-      ): Promise<UserData | null> | UserData | null => {
-        return this.config.userAuthenticator.onClientConnect(
-          clientId,
-          sessionToken,
-          userIdentityPresentedOnConnection,
-        );
+      queueWhenFull: config.queueWhenFull,
+      interestManagement: config.interestManagement,
+      movementValidation: config.movementValidation,
+      mmlServing: config.mmlServing,
+      recording: config.recording,
+      chatHistory: config.chatHistory,
+      chatProximity: config.chatProximity,
+      chatChannels: config.chatChannels,
+    };
+    this.defaultRoom = new Networked3dWebExperienceRoom(defaultRoomName, {
+      ...defaultRoomConfig,
+      minimumProtocolVersion: config.minimumProtocolVersion,
+      sessionResumptionGracePeriod: config.sessionResumptionGracePeriod,
+      userNetworkingBus: config.userNetworkingBus,
+      // The default room uses the whole range unless it has to share it with other rooms or instances
+      clientIdRange:
+        replayClientIdRange ??
+        (config.rooms || config.overflowInstances
+          ? this.getClientIdRange(0)
+          : this.getFullClientIdRange()),
+      replay: this.replay ?? undefined,
+      enableChat: !!config.chatNetworkPath,
+      userAuthenticator: config.userAuthenticator,
+      instanceName: config.overflowInstances ? "1" : undefined,
+      onClientCustomMessage: (room, clientId, customType, payload) => {
+        this.handleCustomMessage(room, clientId, customType, payload);
       },
-      onClientUserIdentityUpdate: (
-        clientId: number,
-        userIdentity: UserIdentity,
-      ): UserData | null => {
-        // Called whenever a user connects or updates their character/identity
-        return this.config.userAuthenticator.onClientUserIdentityUpdate(clientId, userIdentity);
+    });
+    this.rooms.set(defaultRoomName, this.defaultRoom);
+    this.roomConfigs.set(defaultRoomName, defaultRoomConfig);
+    this.roomClientIdBlocks.set(this.defaultRoom, 0);
+    this.userNetworkingServer = this.defaultRoom.userNetworkingServer;
+    this.chatNetworkingServer = this.defaultRoom.chatNetworkingServer;
+    this.mmlDocumentsServer = this.defaultRoom.mmlDocumentsServer;
+
+    if (this.replay && config.replay?.autoplay !== false) {
+      this.replay.play();
+    }
+  }
+
+  private getFullClientIdRange(): { min: number; max: number } {
+    return this.config.clientIdRange ?? { min: 1, max: 65535 };
+  }
+
+  private getClientIdRange(blockIndex: number): { min: number; max: number } {
+    const clientIdsPerRoom = this.config.rooms?.clientIdsPerRoom ?? defaultClientIdsPerRoom;
+    const { min } = this.getFullClientIdRange();
+    return {
+      min: min + blockIndex * clientIdsPerRoom,
+      max: min + (blockIndex + 1) * clientIdsPerRoom - 1,
+    };
+  }
+
+  // Returns the room with the given name (or the default room if no name is given) if it exists
+  public getRoom(roomName?: string | null): Networked3dWebExperienceRoom | null {
+    return this.rooms.get(roomName || defaultRoomName) ?? null;
+  }
+
+  // Returns the instances of the room with the given name, ordered by instance number
+  public getRoomInstances(roomName: string): Array<Networked3dWebExperienceRoom> {
+    return Array.from(this.rooms.values())
+      .filter((room) => room.name === roomName)
+      .sort((a, b) => a.instance - b.instance);
+  }
+
+  public getRooms(): Array<Networked3dWebExperienceRoom> {
+    return Array.from(this.rooms.values());
+  }
+
+  /*
+   Returns the room with the given name, creating it from the rooms template if it does not exist. Returns null if
+   rooms are not enabled, the name is invalid or not allowed, the maximum number of rooms exist or the template
+   rejects the name.
+  */
+  public getOrCreateRoom(roomName?: string | null): Networked3dWebExperienceRoom | null {
+    const existingRoom = this.getRoom(roomName);
+    if (existingRoom || !roomName) {
+      return existingRoom;
+    }
+    const roomsConfig = this.config.rooms;
+    if (
+      !roomsConfig ||
+      !roomNamePattern.test(roomName) ||
+      (roomsConfig.allowedRoomNames && !roomsConfig.allowedRoomNames.includes(roomName))
+    ) {
+      return null;
+    }
+    const roomCount = this.getRooms().filter(
+      (room) => room !== this.defaultRoom && room.instance === 1,
+    ).length;
+    if (roomCount >= (roomsConfig.maxRooms ?? defaultMaxRooms)) {
+      console.error(`Cannot create room ${roomName}: the maximum number of rooms exist`);
+      return null;
+    }
+    const roomConfig =
+      typeof roomsConfig.template === "function"
+        ? roomsConfig.template(roomName)
+        : roomsConfig.template;
+    if (!roomConfig) {
+      return null;
+    }
+    const room = this.createRoomInstance(roomName, 1, roomConfig);
+    if (room) {
+      this.roomConfigs.set(roomName, roomConfig);
+    }
+    return room;
+  }
+
+  private createRoomInstance(
+    roomName: string,
+    instance: number,
+    roomConfig: Networked3dWebExperienceRoomConfig,
+  ): Networked3dWebExperienceRoom | null {
+    const roomId = getRoomInstanceId(roomName, instance);
+    const usedBlocks = new Set(this.roomClientIdBlocks.values());
+    let blockIndex = 1;
+    while (usedBlocks.has(blockIndex)) {
+      blockIndex++;
+    }
+    const clientIdRange = this.getClientIdRange(blockIndex);
+    if (clientIdRange.max > this.getFullClientIdRange().max) {
+      console.error(`Cannot create room ${roomId}: no client ids available`);
+      return null;
+    }
+
+    console.log(`Creating room ${roomId}`);
+    const room = new Networked3dWebExperienceRoom(roomName, {
+      ...roomConfig,
+      minimumProtocolVersion: this.config.minimumProtocolVersion,
+      sessionResumptionGracePeriod: this.config.sessionResumptionGracePeriod,
+      clientIdRange,
+      enableChat: !!this.config.chatNetworkPath,
+      userAuthenticator: this.config.userAuthenticator,
+      instance,
+      instanceName: this.config.overflowInstances ? String(instance) : undefined,
+      // Overflow instances show the same world as the first instance
+      sharedMMLDocumentsServer:
+        instance === 1 ? undefined : this.rooms.get(roomName)?.mmlDocumentsServer,
+      onClientCustomMessage: (room, clientId, customType, payload) => {
+        this.handleCustomMessage(room, clientId, customType, payload);
       },
-      onClientDisconnect: (clientId: number): void => {
-        this.config.userAuthenticator.onClientDisconnect(clientId);
-        // Disconnect the corresponding chat client to avoid later conflicts of client ids
-        if (this.chatNetworkingServer) {
-          this.chatNetworkingServer.disconnectClientId(clientId);
+    });
+    this.rooms.set(roomId, room);
+    this.roomClientIdBlocks.set(room, blockIndex);
+    return room;
+  }
+
+  /*
+   Chooses the instance of the room for a user connecting with the given session token. Returns the first instance if
+   no instance has space and no more can be created, in which case the user is rejected (or queued) by the connection
+   limit.
+  */
+  private getInstanceForUser(
+    room: Networked3dWebExperienceRoom,
+    sessionToken: string | null,
+    requestedInstance: number | null,
+  ): Networked3dWebExperienceRoom {
+    const instances = this.getRoomInstances(room.name);
+    if (sessionToken !== null) {
+      // Return the user to their previous instance so that their session is resumed (or their ban is applied)
+      const previousInstance = instances.find(
+        (instance) =>
+          instance.userNetworkingServer.hasSessionToken(sessionToken) ||
+          instance.userNetworkingServer.isSessionTokenBanned(sessionToken),
+      );
+      if (previousInstance) {
+        return previousInstance;
+      }
+    }
+
+    const requested = instances.find((instance) => instance.instance === requestedInstance);
+    if (requested && !requested.isFull()) {
+      return requested;
+    }
+
+    let leastFull: Networked3dWebExperienceRoom | null = null;
+    for (const instance of instances) {
+      if (
+        !instance.isFull() &&
+        (leastFull === null ||
+          instance.userNetworkingServer.getClientCount() <
+            leastFull.userNetworkingServer.getClientCount())
+      ) {
+        leastFull = instance;
+      }
+    }
+    if (leastFull) {
+      return leastFull;
+    }
+
+    const roomConfig = this.roomConfigs.get(room.name);
+    const maxInstances = this.config.overflowInstances?.maxInstances ?? defaultMaxInstances;
+    if (roomConfig && instances.length < maxInstances) {
+      const usedInstances = new Set(instances.map((instance) => instance.instance));
+      let instance = 1;
+      while (usedInstances.has(instance)) {
+        instance++;
+      }
+      const overflowInstance = this.createRoomInstance(room.name, instance, roomConfig);
+      if (overflowInstance) {
+        return overflowInstance;
+      }
+    }
+    return room;
+  }
+
+  // Reads the session token from the authentication message that both user networking and chat clients send first
+  private getSessionToken(message: WebSocket.Data): string | null {
+    if (typeof message !== "string") {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(message);
+      return typeof parsed?.sessionToken === "string" ? parsed.sessionToken : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Calls the callback with the first message of the connection, closing it if none arrives in time
+  private onAuthenticationMessage(ws: WebSocket, callback: (message: WebSocket.Data) => void) {
+    const timeout = setTimeout(() => {
+      console.warn("Closing connection that did not authenticate in time");
+      ws.close();
+    }, authenticationMessageTimeout);
+    ws.once("close", () => {
+      clearTimeout(timeout);
+    });
+    ws.once("message", (message: WebSocket.Data) => {
+      clearTimeout(timeout);
+      callback(message);
+    });
+  }
+
+  private getRequestedInstance(req: express.Request): number | null {
+    const instance =
+      typeof req.query.instance === "string" ? parseInt(req.query.instance, 10) : NaN;
+    return isNaN(instance) ? null : instance;
+  }
+
+  private trackRoomConnection(room: Networked3dWebExperienceRoom, ws: WebSocket) {
+    const emptyRoomTimeout = this.emptyRoomTimeouts.get(room);
+    if (emptyRoomTimeout) {
+      clearTimeout(emptyRoomTimeout);
+      this.emptyRoomTimeouts.delete(room);
+    }
+    room.trackConnection(ws, () => {
+      this.scheduleEmptyRoomRemoval(room);
+    });
+  }
+
+  private scheduleEmptyRoomRemoval(room: Networked3dWebExperienceRoom) {
+    if (
+      room.getConnectionCount() > 0 ||
+      room === this.defaultRoom ||
+      this.rooms.get(room.id) !== room ||
+      this.emptyRoomTimeouts.has(room)
+    ) {
+      return;
+    }
+    if (room.instance === 1 && this.getRoomInstances(room.name).length > 1) {
+      // The overflow instances use the MML documents of the first instance
+      return;
+    }
+    this.emptyRoomTimeouts.set(
+      room,
+      setTimeout(() => {
+        console.log(`Disposing empty room ${room.id}`);
+        this.removeRoom(room);
+        const firstInstance = this.rooms.get(room.name);
+        if (firstInstance && firstInstance !== room) {
+          this.scheduleEmptyRoomRemoval(firstInstance);
         }
+      }, this.config.rooms?.emptyRoomTimeout ?? defaultEmptyRoomTimeout),
+    );
+  }
+
+  private removeRoom(room: Networked3dWebExperienceRoom, errorMessage?: string) {
+    const emptyRoomTimeout = this.emptyRoomTimeouts.get(room);
+    if (emptyRoomTimeout) {
+      clearTimeout(emptyRoomTimeout);
+      this.emptyRoomTimeouts.delete(room);
+    }
+    this.rooms.delete(room.id);
+    if (room.instance === 1) {
+      this.roomConfigs.delete(room.name);
+    }
+    this.roomClientIdBlocks.delete(room);
+    room.dispose(errorMessage);
+  }
+
+  private getRequestedRoomName(req: express.Request): string | null {
+    const roomName = req.params.room ?? req.query.room;
+    return typeof roomName === "string" && roomName !== "" ? roomName : null;
+  }
+
+  /*
+   Registers the handler for custom messages of the given type sent by users (replacing any existing handler for the
+   type). Returns a function that removes the handler.
+  */
+  public registerCustomMessageHandler<T = any>(
+    customType: string,
+    handler: CustomMessageHandler<T>,
+  ): () => void {
+    this.customMessageHandlers.set(customType, handler);
+    return () => {
+      if (this.customMessageHandlers.get(customType) === handler) {
+        this.customMessageHandlers.delete(customType);
+      }
+    };
+  }
+
+  // The instance of the default room that the user is in
+  private getDefaultRoomInstance(clientId: number): Networked3dWebExperienceRoom {
+    return (
+      this.getRoomInstances(defaultRoomName).find((room) => room.hasClientId(clientId)) ??
+      this.defaultRoom
+    );
+  }
+
+  public broadcastMessage(broadcastType: string, payload: any) {
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.broadcastMessage(broadcastType, payload);
+    }
+  }
+
+  // Returns false if the user is not connected
+  public sendToClient(clientId: number, broadcastType: string, payload: any): boolean {
+    return this.getDefaultRoomInstance(clientId).sendToClient(clientId, broadcastType, payload);
+  }
+
+  public sendToClients(clientIds: Iterable<number>, broadcastType: string, payload: any) {
+    const ids = Array.from(clientIds);
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.sendToClients(ids, broadcastType, payload);
+    }
+  }
+
+  // Sends to every connected user that the predicate returns true for (e.g. all users within a region or with a role)
+  public sendToMatchingClients(
+    predicate: (client: UserNetworkingServerClientInfo) => boolean,
+    broadcastType: string,
+    payload: any,
+  ) {
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.sendToMatchingClients(predicate, broadcastType, payload);
+    }
+  }
+
+  // Sends a custom message to the given users, or to every user if clientIds is not provided
+  public sendCustomMessage(customType: string, payload: any, clientIds?: Iterable<number>) {
+    const ids = clientIds ? Array.from(clientIds) : undefined;
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.sendCustomMessage(customType, payload, ids);
+    }
+  }
+
+  private handleCustomMessage(
+    room: Networked3dWebExperienceRoom,
+    clientId: number,
+    customType: string,
+    payload: any,
+  ) {
+    const handler = this.customMessageHandlers.get(customType);
+    if (!handler) {
+      console.warn(`No handler registered for custom message type: ${customType}`);
+      return;
+    }
+    const context: CustomMessageContext = {
+      clientId,
+      room,
+      reply: (replyType: string, replyPayload: any) => {
+        room.sendCustomMessage(replyType, replyPayload, [clientId]);
       },
-    });
+      sendToClients: (clientIds: Iterable<number>, replyType: string, replyPayload: any) => {
+        room.sendCustomMessage(replyType, replyPayload, clientIds);
+      },
+      sendToAll: (replyType: string, replyPayload: any) => {
+        room.sendCustomMessage(replyType, replyPayload);
+      },
+    };
+    Promise.resolve()
+      .then(() => handler(payload, context))
+      .catch((e) => {
+        console.error(`Error handling custom message of type ${customType}`, e);
+      });
   }
 
   public updateUserCharacter(clientId: number, userData: UserData) {
-    console.log(`Initiate server-side update of client ${clientId}`);
-    this.userNetworkingServer.updateUserCharacter(clientId, userData);
+    this.getDefaultRoomInstance(clientId).updateUserCharacter(clientId, userData);
   }
 
-  public dispose(errorMessage?: string) {
-    this.userNetworkingServer.dispose(
-      errorMessage
-        ? {
-            type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
-            errorType: USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
-            message: errorMessage,
-          }
-        : undefined,
-    );
-    if (this.chatNetworkingServer) {
-      this.chatNetworkingServer.dispose(
-        errorMessage
-          ? {
-              type: CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
-              errorType: CHAT_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE,
-              message: errorMessage,
-            }
-          : undefined,
-      );
+  // Disconnects the user, showing them the reason. Returns false if the user is not connected.
+  public kickClient(clientId: number, reason: string): boolean {
+    return this.getDefaultRoomInstance(clientId).kickClient(clientId, reason);
+  }
+
+  /*
+   Disconnects the user and prevents them from reconnecting with the same session token or username until the ban
+   expires (or indefinitely if no duration is given). Returns false if the user is not connected.
+  */
+  public banClient(clientId: number, reason: string, durationMilliseconds?: number): boolean {
+    return this.getDefaultRoomInstance(clientId).banClient(clientId, reason, durationMilliseconds);
+  }
+
+  public banIdentity(
+    identity: UserNetworkingBanIdentity,
+    reason: string,
+    durationMilliseconds?: number,
+  ) {
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.banIdentity(identity, reason, durationMilliseconds);
+    }
+  }
+
+  public unbanIdentity(identity: UserNetworkingBanIdentity) {
+    for (const room of this.getRoomInstances(defaultRoomName)) {
+      room.unbanIdentity(identity);
     }
-    if (this.mmlDocumentsServer) {
-      this.mmlDocumentsServer.dispose();
+  }
+
+  /*
+   Drops the user's chat messages until the mute expires, including after they reconnect. Returns false if chat is not
+   enabled or the user is not known to the chat.
+  */
+  public muteClient(clientId: number, durationMilliseconds?: number): boolean {
+    return this.getDefaultRoomInstance(clientId).muteClient(clientId, durationMilliseconds);
+  }
+
+  public unmuteClient(clientId: number) {
+    this.getDefaultRoomInstance(clientId).unmuteClient(clientId);
+  }
+
+  public teleportClient(
+    clientId: number,
+    position: { x: number; y: number; z: number },
+    rotation: { quaternionY: number; quaternionW: number },
+  ): Promise<void> {
+    return this.getDefaultRoomInstance(clientId).teleportClient(clientId, position, rotation);
+  }
+
+  public dispose(errorMessage?: string) {
+    for (const room of Array.from(this.rooms.values())) {
+      this.removeRoom(room, errorMessage);
     }
+    this.replay?.dispose();
   }
 
   registerExpressRoutes(app: enableWs.Application) {
-    app.ws(this.config.networkPath, (ws) => {
-      this.userNetworkingServer.connectClient(ws);
-    });
+    const networkPaths = [this.config.networkPath];
+    const chatNetworkPaths = this.config.chatNetworkPath ? [this.config.chatNetworkPath] : [];
+    if (this.config.rooms) {
+      networkPaths.push(`${this.config.networkPath}/:room`);
+      if (this.config.chatNetworkPath) {
+        chatNetworkPaths.push(`${this.config.chatNetworkPath}/:room`);
+      }
+    }
 
-    if (this.config.chatNetworkPath && this.chatNetworkingServer) {
-      const chatServer = this.chatNetworkingServer;
-      app.ws(this.config.chatNetworkPath, (ws) => {
-        chatServer.connectClient(ws);
+    for (const networkPath of networkPaths) {
+      app.ws(networkPath, (ws: WebSocket, req: express.Request) => {
+        const roomName = this.getRequestedRoomName(req);
+        const requestedRoom = this.getRoom(roomName);
+        if (requestedRoom && !this.config.overflowInstances) {
+          this.trackRoomConnection(requestedRoom, ws);
+          requestedRoom.connectUserNetworkingClient(ws);
+          return;
+        }
+        /*
+         Rooms are only created for connections that send an authentication message with an authorized session token, and
+         the instance is chosen using the session token
+        */
+        this.onAuthenticationMessage(ws, (message: WebSocket.Data) => {
+          const sessionToken = this.getSessionToken(message);
+          if (
+            sessionToken === null ||
+            (!this.getRoom(roomName) &&
+              !this.config.userAuthenticator.isAuthorizedSessionToken(sessionToken))
+          ) {
+            ws.close();
+            return;
+          }
+          // The room may have been removed while waiting for the message
+          const room = this.getOrCreateRoom(roomName);
+          if (!room) {
+            ws.close();
+            return;
+          }
+          if (!this.config.overflowInstances) {
+            this.trackRoomConnection(room, ws);
+            room.connectUserNetworkingClient(ws, message);
+            return;
+          }
+          const instance = this.getInstanceForUser(
+            room,
+            sessionToken,
+            this.getRequestedInstance(req),
+          );
+          this.trackRoomConnection(instance, ws);
+          instance.connectUserNetworkingClient(ws, message);
+        });
+      });
+    }
+
+    for (const chatNetworkPath of chatNetworkPaths) {
+      app.ws(chatNetworkPath, (ws: WebSocket, req: express.Request) => {
+        const roomName = this.getRequestedRoomName(req);
+        // Chat users must already be in the room through their network connection
+        const requestedRoom = this.getRoom(roomName);
+        if (!requestedRoom) {
+          ws.close();
+          return;
+        }
+        if (!this.config.overflowInstances) {
+          this.trackRoomConnection(requestedRoom, ws);
+          requestedRoom.connectChatClient(ws);
+          return;
+        }
+        // Chat users join the instance that they were placed in by the user networking connection
+        this.onAuthenticationMessage(ws, (message: WebSocket.Data) => {
+          // The room may have been removed while waiting for the message
+          const room = this.getRoom(roomName);
+          if (!room) {
+            ws.close();
+            return;
+          }
+          const sessionToken = this.getSessionToken(message);
+          const identity =
+            sessionToken !== null
+              ? this.config.userAuthenticator.getClientIdForSessionToken(sessionToken)
+              : null;
+          const instance =
+            (identity &&
+              this.getRoomInstances(room.name).find((instance) =>
+                instance.hasClientId(identity.id),
+              )) ||
+            room;
+          this.trackRoomConnection(instance, ws);
+          instance.connectChatClient(ws, message);
+        });
       });
     }
 
@@ -177,17 +794,30 @@ export class Networked3dWebExperienceServer {
       }
     }
 
-    const mmlDocumentsServer = this.mmlDocumentsServer;
     const mmlServing = this.config.mmlServing;
     // Handle example document sockets
-    if (mmlServing && mmlDocumentsServer) {
+    if (mmlServing) {
       app.ws(`${mmlServing.documentsUrl}*`, (ws: WebSocket, req: express.Request) => {
         const path = req.params[0];
-        console.log("document requested", { path });
-        mmlDocumentsServer.handle(path, ws);
+        const roomName = this.getRequestedRoomName(req);
+        console.log("document requested", { path, roomName });
+        // The documents of a room are only served once a user has created it (the client retries until then)
+        const room = this.getRoom(roomName);
+        if (!room) {
+          ws.close();
+          return;
+        }
+        this.trackRoomConnection(room, ws);
+        if (!room.connectMMLDocumentClient(path, ws)) {
+          ws.close();
+        }
       });
     }
 
+    if (this.config.adminApi?.secret) {
+      registerAdminApiRoutes(app, this, this.config.adminApi);
+    }
+
     if (this.config.assetServing) {
       // Serve assets with CORS allowing all origins
       app.use(
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  serializeUserNetworkingRecordingLine,
+  USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+  USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE,
+  USER_NETWORKING_RECORDING_HEADER_TYPE,
+  USER_NETWORKING_RECORDING_VERSION,
+  UserNetworkingBus,
+  UserNetworkingBusMessage,
+  UserNetworkingClientUpdate,
+  UserNetworkingRecordingEvent,
+} from "@mml-io/3d-web-user-networking";
+
+export type SessionRecordingConfig = {
+  // Recordings are written to this directory as <room id>-<start time>.jsonl
+  directory: string;
+  // How many times per second the movement of users is recorded. Defaults to 10.
+  updatesPerSecond?: number;
+};
+
+const defaultUpdatesPerSecond = 10;
+
+function isSameUpdate(a: UserNetworkingClientUpdate, b: UserNetworkingClientUpdate): boolean {
+  return (
+    a.position.x === b.position.x &&
+    a.position.y === b.position.y &&
+    a.position.z === b.position.z &&
+    a.rotation.quaternionY === b.rotation.quaternionY &&
+    a.rotation.quaternionW === b.rotation.quaternionW &&
+    a.state === b.state
+  );
+}
+
+/*
+ Writes the joins, profiles, movement, chat and disconnections of the users on a bus to a file that can be played back
+ with UserNetworkingReplay. Movement is sampled at updatesPerSecond and only users that moved are written.
+*/
+export class SessionRecorder {
+  public readonly filePath: string;
+
+  private stream: fs.WriteStream;
+  private startTime = Date.now();
+  private unsubscribeFromBus: () => void;
+  private writeUpdatesIntervalTimer: NodeJS.Timeout;
+  private serverId = `recorder-${Math.random().toString(36).slice(2)}`;
+
+  // The latest update of each user, and the update that was last written for them
+  private latestUpdates = new Map<number, UserNetworkingClientUpdate>();
+  private writtenUpdates = new Map<number, UserNetworkingClientUpdate>();
+
+  constructor(recordingName: string, bus: UserNetworkingBus, config: SessionRecordingConfig) {
+    fs.mkdirSync(config.directory, { recursive: true });
+    const timestamp = new Date(this.startTime).toISOString().replace(/[:.]/g, "-");
+    this.filePath = path.join(config.directory, `${recordingName}-${timestamp}.jsonl`);
+    console.log(`Recording session to ${this.filePath}`);
+    this.stream = fs.createWriteStream(this.filePath, { flags: "wx" });
+    this.stream.on("error", (e) => {
+      console.error(`Error writing recording ${this.filePath}`, e);
+    });
+    this.stream.write(
+      serializeUserNetworkingRecordingLine({
+        type: USER_NETWORKING_RECORDING_HEADER_TYPE,
+        version: USER_NETWORKING_RECORDING_VERSION,
+        startTime: this.startTime,
+      }),
+    );
+
+    this.unsubscribeFromBus = bus.subscribe((message) => this.handleBusMessage(message));
+    // Ask the servers on the bus for the profiles of the users that are already connected
+    bus.publish({ type: USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE, serverId: this.serverId });
+
+    const updatesPerSecond = config.updatesPerSecond ?? defaultUpdatesPerSecond;
+    this.writeUpdatesIntervalTimer = setInterval(
+      () => this.writeUpdates(),
+      1000 / updatesPerSecond,
+    );
+  }
+
+  public recordChatMessage(clientId: number, text: string) {
+    this.writeEvent({ type: USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE, id: clientId, text });
+  }
+
+  private handleBusMessage(message: UserNetworkingBusMessage) {
+    switch (message.type) {
+      case USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE:
+        this.writeEvent({
+          type: USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+          id: message.id,
+          userData: message.userData,
+        });
+        break;
+      case USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE:
+        for (const update of message.updates) {
+          this.latestUpdates.set(update.id, update);
+        }
+        break;
+      case USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE:
+        // Write the final position before the disconnection
+        this.writeUpdates();
+        this.latestUpdates.delete(message.id);
+        this.writtenUpdates.delete(message.id);
+        this.writeEvent({ type: USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE, id: message.id });
+        break;
+    }
+  }
+
+  private writeUpdates() {
+    const updates: Array<UserNetworkingClientUpdate> = [];
+    for (const [id, update] of this.latestUpdates) {
+      const writtenUpdate = this.writtenUpdates.get(id);
+      if (!writtenUpdate || !isSameUpdate(writtenUpdate, update)) {
+        updates.push(update);
+        this.writtenUpdates.set(id, update);
+      }
+    }
+    if (updates.length > 0) {
+      this.writeEvent({ type: USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE, updates });
+    }
+  }
+
+  private writeEvent(event: UserNetworkingRecordingEvent) {
+    this.stream.write(
+      serializeUserNetworkingRecordingLine({ ...event, time: Date.now() - this.startTime }),
+    );
+  }
+
+  public stop() {
+    clearInterval(this.writeUpdatesIntervalTimer);
+    this.unsubscribeFromBus();
+    this.writeUpdates();
+    this.stream.end();
+  }
+}
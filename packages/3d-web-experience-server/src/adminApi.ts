@@ -0,0 +1,349 @@
+import crypto from "node:crypto";
+
+import { CharacterDescription, UserNetworkingReplay } from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import type { Networked3dWebExperienceRoom } from "./Networked3dWebExperienceRoom";
+import type { Networked3dWebExperienceServer } from "./Networked3dWebExperienceServer";
+
+export type AdminApiOptions = {
+  // Requests must include the secret as a bearer token in the Authorization header
+  secret: string;
+  // Defaults to "/admin"
+  path?: string;
+};
+
+const defaultAdminApiPath = "/admin";
+
+function hashSecret(secret: string): Buffer {
+  // Hashing makes the buffers the same length so that they can be compared in constant time
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+function isVector3(value: any): value is { x: number; y: number; z: number } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Number.isFinite(value.x) &&
+    Number.isFinite(value.y) &&
+    Number.isFinite(value.z)
+  );
+}
+
+function isRotation(value: any): value is { quaternionY: number; quaternionW: number } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Number.isFinite(value.quaternionY) &&
+    Number.isFinite(value.quaternionW)
+  );
+}
+
+function isCharacterDescription(value: any): value is CharacterDescription {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const sources = [value.meshFileUrl, value.mmlCharacterString, value.mmlCharacterUrl].filter(
+    (source) => source !== undefined && source !== null,
+  );
+  return sources.length === 1 && typeof sources[0] === "string";
+}
+
+/*
+ Registers a REST API for operating a running world (listing, moderating and messaging users, reloading MML documents
+ and controlling a replay). All routes respond with JSON and require the configured secret. Routes apply to the
+ default room unless a "room" query parameter is given, which can identify an overflow instance of a room (e.g.
+ "lobby:2").
+*/
+export function registerAdminApiRoutes(
+  app: enableWs.Application,
+  server: Networked3dWebExperienceServer,
+  options: AdminApiOptions,
+) {
+  const expectedSecretHash = hashSecret(options.secret);
+  const router = express.Router();
+
+  // Authenticate before anything else (e.g. parsing the body) is done with the request
+  router.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const authorization = req.headers.authorization;
+    const token = authorization?.startsWith("Bearer ")
+      ? authorization.substring("Bearer ".length)
+      : null;
+    if (token === null || !crypto.timingSafeEqual(hashSecret(token), expectedSecretHash)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  });
+  router.use(express.json());
+
+  const getRoom = (
+    req: express.Request,
+    res: express.Response,
+  ): Networked3dWebExperienceRoom | null => {
+    const roomName = typeof req.query.room === "string" ? req.query.room : null;
+    const room = server.getRoom(roomName);
+    if (!room) {
+      res.status(404).json({ error: `Room ${roomName} not found` });
+      return null;
+    }
+    return room;
+  };
+
+  const getRoomAndClientId = (
+    req: express.Request,
+    res: express.Response,
+  ): [Networked3dWebExperienceRoom, number] | null => {
+    const room = getRoom(req, res);
+    if (!room) {
+      return null;
+    }
+    const clientId = parseInt(String(req.params.clientId), 10);
+    if (isNaN(clientId) || !room.userNetworkingServer.getClient(clientId)) {
+      res.status(404).json({ error: `User ${req.params.clientId} not found` });
+      return null;
+    }
+    return [room, clientId];
+  };
+
+  router.get("/rooms", (req: express.Request, res: express.Response) => {
+    res.json({
+      rooms: server.getRooms().map((room) => ({
+        id: room.id,
+        name: room.name,
+        instance: room.instance,
+        userCount: room.userNetworkingServer.getClients().length,
+      })),
+    });
+  });
+
+  router.get("/users", (req: express.Request, res: express.Response) => {
+    const room = getRoom(req, res);
+    if (!room) {
+      return;
+    }
+    res.json({ users: room.userNetworkingServer.getClients() });
+  });
+
+  /*
+   Changes the user's name and character. The user authenticator is not told about the change, so it is lost if the user
+   later updates their own identity (which the authenticator resolves from the user data that it holds).
+  */
+  router.put("/users/:clientId", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    const { username, characterDescription } = req.body;
+    if (typeof username !== "string" || !isCharacterDescription(characterDescription)) {
+      res.status(400).json({ error: "Expected a username and characterDescription" });
+      return;
+    }
+    room.updateUserCharacter(clientId, { username, characterDescription });
+    res.json({ success: true });
+  });
+
+  router.post("/users/:clientId/kick", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    const reason = typeof req.body.reason === "string" ? req.body.reason : "Kicked";
+    res.json({ success: room.kickClient(clientId, reason) });
+  });
+
+  router.post("/users/:clientId/ban", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    const { durationMilliseconds } = req.body;
+    if (durationMilliseconds !== undefined && !Number.isFinite(durationMilliseconds)) {
+      res.status(400).json({ error: "durationMilliseconds must be a number" });
+      return;
+    }
+    const reason = typeof req.body.reason === "string" ? req.body.reason : "Banned";
+    res.json({ success: room.banClient(clientId, reason, durationMilliseconds) });
+  });
+
+  // Drops the user's chat messages until the mute expires (or indefinitely if no duration is given)
+  router.post("/users/:clientId/mute", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    const { durationMilliseconds } = req.body;
+    if (durationMilliseconds !== undefined && !Number.isFinite(durationMilliseconds)) {
+      res.status(400).json({ error: "durationMilliseconds must be a number" });
+      return;
+    }
+    res.json({ success: room.muteClient(clientId, durationMilliseconds) });
+  });
+
+  router.post("/users/:clientId/unmute", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    room.unmuteClient(clientId);
+    res.json({ success: true });
+  });
+
+  router.post("/users/:clientId/teleport", (req: express.Request, res: express.Response) => {
+    const roomAndClientId = getRoomAndClientId(req, res);
+    if (!roomAndClientId) {
+      return;
+    }
+    const [room, clientId] = roomAndClientId;
+    const { position, rotation = { quaternionY: 0, quaternionW: 1 } } = req.body;
+    if (!isVector3(position) || !isRotation(rotation)) {
+      res.status(400).json({ error: "Expected a position and optional rotation" });
+      return;
+    }
+    room
+      .teleportClient(clientId, position, rotation)
+      .then(() => {
+        res.json({ success: true });
+      })
+      .catch((e: Error) => {
+        res.status(409).json({ error: e.message });
+      });
+  });
+
+  router.post("/messages", (req: express.Request, res: express.Response) => {
+    const room = getRoom(req, res);
+    if (!room) {
+      return;
+    }
+    const { type, payload, clientIds } = req.body;
+    if (typeof type !== "string") {
+      res.status(400).json({ error: "Expected a message type" });
+      return;
+    }
+    if (clientIds === undefined) {
+      room.broadcastMessage(type, payload);
+    } else if (
+      Array.isArray(clientIds) &&
+      clientIds.every((clientId: unknown) => typeof clientId === "number")
+    ) {
+      room.sendToClients(clientIds, type, payload);
+    } else {
+      res.status(400).json({ error: "clientIds must be an array of user ids" });
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  router.get("/documents", (req: express.Request, res: express.Response) => {
+    const room = getRoom(req, res);
+    if (!room) {
+      return;
+    }
+    res.json({ documents: room.mmlDocumentsServer?.getDocumentPaths() ?? [] });
+  });
+
+  // Reloads the given document, or all documents if no path is given
+  router.post("/documents/reload", (req: express.Request, res: express.Response) => {
+    const room = getRoom(req, res);
+    if (!room) {
+      return;
+    }
+    const mmlDocumentsServer = room.mmlDocumentsServer;
+    if (!mmlDocumentsServer) {
+      res.status(404).json({ error: "MML documents are not being served" });
+      return;
+    }
+    const { path } = req.body;
+    if (path === undefined) {
+      const documents = mmlDocumentsServer.getDocumentPaths();
+      for (const documentPath of documents) {
+        mmlDocumentsServer.reloadDocument(documentPath);
+      }
+      res.json({ documents });
+      return;
+    }
+    if (typeof path !== "string" || !mmlDocumentsServer.reloadDocument(path)) {
+      res.status(404).json({ error: `Document ${path} not found` });
+      return;
+    }
+    res.json({ documents: [path] });
+  });
+
+  const getReplay = (req: express.Request, res: express.Response): UserNetworkingReplay | null => {
+    if (!server.replay) {
+      res.status(404).json({ error: "The server is not showing a replay" });
+      return null;
+    }
+    return server.replay;
+  };
+
+  const getReplayStatus = (replay: UserNetworkingReplay) => ({
+    playing: replay.isPlaying(),
+    currentTime: replay.getCurrentTime(),
+    duration: replay.getDuration(),
+    speed: replay.getSpeed(),
+  });
+
+  router.get("/replay", (req: express.Request, res: express.Response) => {
+    const replay = getReplay(req, res);
+    if (!replay) {
+      return;
+    }
+    res.json(getReplayStatus(replay));
+  });
+
+  router.post("/replay/play", (req: express.Request, res: express.Response) => {
+    const replay = getReplay(req, res);
+    if (!replay) {
+      return;
+    }
+    replay.play();
+    res.json(getReplayStatus(replay));
+  });
+
+  router.post("/replay/pause", (req: express.Request, res: express.Response) => {
+    const replay = getReplay(req, res);
+    if (!replay) {
+      return;
+    }
+    replay.pause();
+    res.json(getReplayStatus(replay));
+  });
+
+  // Moves to the given time (milliseconds from the start of the recording)
+  router.post("/replay/seek", (req: express.Request, res: express.Response) => {
+    const replay = getReplay(req, res);
+    if (!replay) {
+      return;
+    }
+    const { time } = req.body;
+    if (!Number.isFinite(time)) {
+      res.status(400).json({ error: "Expected a time" });
+      return;
+    }
+    replay.seek(time);
+    res.json(getReplayStatus(replay));
+  });
+
+  router.post("/replay/speed", (req: express.Request, res: express.Response) => {
+    const replay = getReplay(req, res);
+    if (!replay) {
+      return;
+    }
+    const { speed } = req.body;
+    if (!Number.isFinite(speed) || speed <= 0) {
+      res.status(400).json({ error: "Expected a positive speed" });
+      return;
+    }
+    replay.setSpeed(speed);
+    res.json(getReplayStatus(replay));
+  });
+
+  app.use(options.path ?? defaultAdminApiPath, router);
+}
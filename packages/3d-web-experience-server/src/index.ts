@@ -1,3 +1,7 @@
+export * from "./adminApi";
+export * from "./FileChatHistoryStorage";
 export * from "./MMLDocumentsServer";
+export * from "./Networked3dWebExperienceRoom";
 export * from "./Networked3dWebExperienceServer";
+export * from "./SessionRecorder";
 export * from "./websocketDirectoryChangeListener";
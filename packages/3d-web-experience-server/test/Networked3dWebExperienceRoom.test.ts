@@ -0,0 +1,148 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { ChatNetworkingClient, ChatNetworkingServerChatMessage } from "@mml-io/3d-web-text-chat";
+import { UserData, UserNetworkingClient } from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import { Networked3dWebExperienceRoom } from "../src/Networked3dWebExperienceRoom";
+import type { UserAuthenticator } from "../src/Networked3dWebExperienceServer";
+
+import { createWaitable, waitUntil } from "./test-utils";
+
+type TestUser = {
+  id: number;
+  userNetworkingClient: UserNetworkingClient;
+  chatClient: ChatNetworkingClient;
+  chatMessages: Array<ChatNetworkingServerChatMessage>;
+};
+
+async function connectUser(
+  room: Networked3dWebExperienceRoom,
+  port: number,
+  sessionToken: string,
+  position: { x: number; y: number; z: number },
+): Promise<TestUser> {
+  const [idPromise, resolveId] = await createWaitable<number>();
+  const userNetworkingClient = new UserNetworkingClient({
+    url: `ws://localhost:${port}/network`,
+    sessionToken,
+    websocketFactory: (url) => new WebSocket(url),
+    statusUpdateCallback: () => {},
+    assignedIdentity: (clientId: number) => {
+      resolveId(clientId);
+    },
+    clientUpdate: () => {},
+    clientProfileUpdated: () => {},
+    onServerError: () => {},
+  });
+  const id = await idPromise;
+  userNetworkingClient.sendUpdate({
+    id,
+    position,
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  });
+  await waitUntil(
+    () => room.userNetworkingServer.getClientPosition(id)?.x === position.x,
+    `wait for the server to receive the position of ${sessionToken}`,
+  );
+
+  const chatMessages: Array<ChatNetworkingServerChatMessage> = [];
+  const chatClient = new ChatNetworkingClient({
+    url: `ws://localhost:${port}/chat`,
+    sessionToken,
+    websocketFactory: (url) => new WebSocket(url),
+    statusUpdateCallback: () => {},
+    clientChatUpdate: (clientId, update) => {
+      if (update !== null) {
+        chatMessages.push(update);
+      }
+    },
+    onServerError: () => {},
+  });
+  await waitUntil(
+    () => (room.chatNetworkingServer as any).clientsById.has(id),
+    `wait for ${sessionToken} to join the chat`,
+  );
+  return { id, userNetworkingClient, chatClient, chatMessages };
+}
+
+describe("Networked3dWebExperienceRoom", () => {
+  test("should deliver nearby chat by the positions of local and virtual users", async () => {
+    const clientIdsBySessionToken = new Map<string, number>();
+    const userAuthenticator: UserAuthenticator = {
+      generateAuthorizedSessionToken: async () => null,
+      isAuthorizedSessionToken: () => true,
+      getClientIdForSessionToken: (sessionToken: string) => {
+        const id = clientIdsBySessionToken.get(sessionToken);
+        return id !== undefined ? { id } : null;
+      },
+      onClientConnect: (clientId: number, sessionToken: string): UserData => {
+        clientIdsBySessionToken.set(sessionToken, clientId);
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: () => null,
+      onClientDisconnect: () => {},
+    };
+    const room = new Networked3dWebExperienceRoom("lobby", {
+      clientIdRange: { min: 1, max: 999 },
+      enableChat: true,
+      chatProximity: { radius: 10 },
+      userAuthenticator,
+      onClientCustomMessage: () => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/network", (ws) => {
+      room.connectUserNetworkingClient(ws);
+    });
+    app.ws("/chat", (ws) => {
+      room.connectChatClient(ws);
+    });
+    const listener = app.listen(8803);
+
+    const alice = await connectUser(room, 8803, "alice", { x: 0, y: 0, z: 0 });
+    const bob = await connectUser(room, 8803, "bob", { x: 50, y: 0, z: 0 });
+
+    alice.chatClient.sendChatMessage("nearby from alice", { scope: "nearby" });
+    alice.chatClient.sendChatMessage("global from alice", { scope: "global" });
+    await waitUntil(
+      () => bob.chatMessages.length > 0,
+      "wait for bob to receive the global message",
+    );
+    expect(bob.chatMessages.map((message) => message.text)).toEqual(["global from alice"]);
+
+    // The position of a virtual user is used to find the users near it
+    const guide = room.createVirtualClient(
+      {
+        username: "Guide",
+        characterDescription: { meshFileUrl: "http://example.com/guide.glb" },
+      },
+      { x: 45, y: 0, z: 0 },
+    );
+    room.chatNetworkingServer!.sendChatMessage(guide.id, "nearby from the guide", "nearby");
+    await waitUntil(
+      () => bob.chatMessages.length === 2,
+      "wait for bob to receive the message from the guide",
+    );
+    expect(bob.chatMessages[1].text).toEqual("nearby from the guide");
+    expect(alice.chatMessages).toEqual([]);
+
+    for (const user of [alice, bob]) {
+      user.chatClient.stop();
+      user.userNetworkingClient.stop();
+    }
+    await waitUntil(
+      () => room.userNetworkingServer.getClientCount() === 0,
+      "wait for the server to see the removal of all users",
+    );
+    room.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import os from "node:os";
+
+import { USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE } from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import {
+  Networked3dWebExperienceServer,
+  Networked3dWebExperienceServerConfig,
+} from "../src/Networked3dWebExperienceServer";
+
+import {
+  createTestUserAuthenticator,
+  createTestUserNetworkingClient,
+  waitUntil,
+} from "./test-utils";
+
+function startServer(
+  port: number,
+  config: Partial<Networked3dWebExperienceServerConfig>,
+): [Networked3dWebExperienceServer, ReturnType<express.Application["listen"]>] {
+  const server = new Networked3dWebExperienceServer({
+    networkPath: "/network",
+    webClientServing: {
+      indexUrl: "/",
+      indexContent: "",
+      clientBuildDir: os.tmpdir(),
+      clientUrl: "/web-client/",
+    },
+    userAuthenticator: createTestUserAuthenticator(),
+    ...config,
+  });
+  const { app } = enableWs(express());
+  server.registerExpressRoutes(app);
+  return [server, app.listen(port)];
+}
+
+// Resolves once the server has closed the connection that authenticated with the session token
+function connectAndWaitForClose(url: string, sessionToken: string): Promise<void> {
+  return new Promise((resolve) => {
+    const websocket = new WebSocket(url);
+    websocket.addEventListener("open", () => {
+      websocket.send(JSON.stringify({ type: "user_auth", sessionToken }));
+    });
+    websocket.addEventListener("close", () => {
+      resolve();
+    });
+  });
+}
+
+describe("Networked3dWebExperienceServer rooms", () => {
+  test("should keep the users of each room separate", async () => {
+    const [server, listener] = startServer(8805, { rooms: { template: {} } });
+
+    const alice = await createTestUserNetworkingClient(
+      "ws://localhost:8805/network/lobby",
+      "alice",
+    );
+    const aliceId = await alice.identityPromise;
+    const bob = await createTestUserNetworkingClient("ws://localhost:8805/network/arena", "bob");
+    const bobId = await bob.identityPromise;
+    const carol = await createTestUserNetworkingClient(
+      "ws://localhost:8805/network/lobby",
+      "carol",
+    );
+    const carolId = await carol.identityPromise;
+
+    await waitUntil(
+      () => carol.profiles.has(aliceId) && alice.profiles.has(carolId),
+      "wait for the users in the lobby to see each other",
+    );
+    await waitUntil(() => bob.profiles.has(bobId), "wait for bob to receive their own profile");
+    expect(Array.from(bob.profiles.keys())).toEqual([bobId]);
+    expect(server.getRoom("lobby")?.userNetworkingServer.getClientCount()).toEqual(2);
+    expect(server.getRoom("arena")?.userNetworkingServer.getClientCount()).toEqual(1);
+    expect(server.userNetworkingServer.getClientCount()).toEqual(0);
+
+    alice.client.stop();
+    bob.client.stop();
+    carol.client.stop();
+    await waitUntil(
+      () => server.getRooms().every((room) => room.userNetworkingServer.getClientCount() === 0),
+      "wait for the server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should only create allowed rooms for authorized users up to the maximum", async () => {
+    const [server, listener] = startServer(8806, {
+      rooms: { template: {}, allowedRoomNames: ["lobby", "arena", "hall"], maxRooms: 2 },
+      userAuthenticator: {
+        ...createTestUserAuthenticator(),
+        isAuthorizedSessionToken: (sessionToken: string) => sessionToken !== "intruder",
+      },
+    });
+
+    // A session token that the authenticator did not issue does not create a room
+    await connectAndWaitForClose("ws://localhost:8806/network/lobby", "intruder");
+    expect(server.getRoom("lobby")).toBeNull();
+
+    await connectAndWaitForClose("ws://localhost:8806/network/secret", "alice");
+    expect(server.getRoom("secret")).toBeNull();
+
+    const alice = await createTestUserNetworkingClient(
+      "ws://localhost:8806/network/lobby",
+      "alice",
+    );
+    await alice.identityPromise;
+    const bob = await createTestUserNetworkingClient("ws://localhost:8806/network/arena", "bob");
+    await bob.identityPromise;
+
+    // The maximum number of rooms exist
+    await connectAndWaitForClose("ws://localhost:8806/network/hall", "carol");
+    expect(server.getRoom("hall")).toBeNull();
+    expect(
+      server
+        .getRooms()
+        .map((room) => room.name)
+        .sort(),
+    ).toEqual(["arena", "default", "lobby"]);
+
+    alice.client.stop();
+    bob.client.stop();
+    await waitUntil(
+      () => server.getRooms().every((room) => room.userNetworkingServer.getClientCount() === 0),
+      "wait for the server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
+
+describe("Networked3dWebExperienceServer overflow instances", () => {
+  test("should place users in new instances when the room is full, up to the maximum", async () => {
+    const [server, listener] = startServer(8807, {
+      connectionLimit: 1,
+      overflowInstances: { maxInstances: 2 },
+      sessionResumptionGracePeriod: 2000,
+    });
+    const serverAddress = "ws://localhost:8807/network";
+
+    const alice = await createTestUserNetworkingClient(serverAddress, "alice");
+    await alice.identityPromise;
+    expect(alice.client.getInstanceName()).toEqual("1");
+
+    // The first instance is full, so a second instance is created
+    const bob = await createTestUserNetworkingClient(serverAddress, "bob");
+    const bobId = await bob.identityPromise;
+    expect(bob.client.getInstanceName()).toEqual("2");
+    expect(server.getRoomInstances("default").map((room) => room.id)).toEqual([
+      "default",
+      "default:2",
+    ]);
+
+    // No more instances can be created, so the user is rejected by the connection limit
+    const carol = await createTestUserNetworkingClient(serverAddress, "carol");
+    await waitUntil(
+      () => carol.serverErrors.length > 0,
+      "wait for carol to be rejected as all instances are full",
+    );
+    expect(carol.serverErrors[0].errorType).toEqual(
+      USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
+    );
+    carol.client.stop();
+    expect(server.getRoomInstances("default")).toHaveLength(2);
+
+    // A user that reconnects returns to the instance that is holding their slot
+    bob.client.stop();
+    const secondInstance = server.getRoom("default:2")!;
+    await waitUntil(
+      () => secondInstance.getConnectionCount() === 0,
+      "wait for the server to see bob disconnect",
+    );
+    const returningBob = await createTestUserNetworkingClient(serverAddress, "bob");
+    expect(await returningBob.identityPromise).toEqual(bobId);
+    expect(returningBob.client.getInstanceName()).toEqual("2");
+
+    alice.client.stop();
+    returningBob.client.stop();
+    await waitUntil(
+      () => server.getRooms().every((room) => room.getConnectionCount() === 0),
+      "wait for the server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
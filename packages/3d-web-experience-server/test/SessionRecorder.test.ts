@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  InMemoryUserNetworkingBus,
+  parseUserNetworkingRecording,
+  UserNetworkingBusMessage,
+  UserNetworkingRecordingEvent,
+  UserNetworkingReplay,
+} from "@mml-io/3d-web-user-networking";
+
+import { SessionRecorder } from "../src/SessionRecorder";
+
+import { waitUntil } from "./test-utils";
+
+function createUpdate(id: number, x: number) {
+  return {
+    id,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  };
+}
+
+const userData = {
+  username: "user1",
+  characterDescription: { meshFileUrl: "http://example.com/user1.glb" },
+};
+
+describe("SessionRecorder", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "session-recorder-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("should record a bus session that can be replayed", async () => {
+    const bus = new InMemoryUserNetworkingBus();
+    const busMessages: Array<UserNetworkingBusMessage> = [];
+    bus.subscribe((message) => busMessages.push(message));
+
+    const recorder = new SessionRecorder("room", bus, { directory, updatesPerSecond: 100 });
+    expect(path.dirname(recorder.filePath)).toEqual(directory);
+    expect(path.basename(recorder.filePath)).toMatch(/^room-.*\.jsonl$/);
+
+    // The recorder asks the servers for the users that are already connected
+    await waitUntil(
+      () => busMessages.some((message) => message.type === "sync_request"),
+      "wait for the recorder to request the connected users",
+    );
+
+    bus.publish({ type: "profile", serverId: "server1", id: 1, userData });
+    bus.publish({ type: "updates", serverId: "server1", updates: [createUpdate(1, 0)] });
+    await waitUntil(() => busMessages.length === 3, "wait for the first update");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    recorder.recordChatMessage(1, "Hello");
+    // Repeated updates without movement are not written again
+    bus.publish({ type: "updates", serverId: "server1", updates: [createUpdate(1, 0)] });
+    bus.publish({ type: "updates", serverId: "server1", updates: [createUpdate(1, 5)] });
+    await waitUntil(() => busMessages.length === 5, "wait for the update with movement");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    bus.publish({ type: "disconnected", serverId: "server1", id: 1 });
+    await waitUntil(() => busMessages.length === 6, "wait for the disconnection");
+
+    recorder.stop();
+    // Messages published after the recorder stopped are not recorded
+    bus.publish({ type: "profile", serverId: "server1", id: 2, userData });
+    await waitUntil(
+      () => fs.readFileSync(recorder.filePath, "utf8").includes('"disconnected"'),
+      "wait for the recording to be written",
+    );
+
+    const recording = parseUserNetworkingRecording(fs.readFileSync(recorder.filePath, "utf8"));
+    expect(recording.entries.map(({ time, ...event }) => event)).toEqual([
+      { type: "profile", id: 1, userData },
+      { type: "updates", updates: [createUpdate(1, 0)] },
+      { type: "chat", id: 1, text: "Hello" },
+      { type: "updates", updates: [createUpdate(1, 5)] },
+      { type: "disconnected", id: 1 },
+    ]);
+
+    const replay = new UserNetworkingReplay(recording);
+    const events: Array<UserNetworkingRecordingEvent> = [];
+    replay.subscribe((event) => events.push(event));
+
+    // The final position of the user is written before their disconnection
+    events.length = 0;
+    replay.seek(recording.entries[3].time);
+    expect(events).toEqual([
+      { type: "profile", id: 1, userData },
+      { type: "updates", updates: [createUpdate(1, 5)] },
+    ]);
+
+    events.length = 0;
+    replay.seek(replay.getDuration());
+    expect(events).toEqual([{ type: "disconnected", id: 1 }]);
+    replay.dispose();
+  });
+});
@@ -0,0 +1,359 @@
+import {
+  parseUserNetworkingRecording,
+  serializeUserNetworkingRecordingLine,
+  UserNetworkingReplay,
+} from "@mml-io/3d-web-user-networking";
+import express from "express";
+import enableWs from "express-ws";
+
+import { registerAdminApiRoutes } from "../src/adminApi";
+import { Networked3dWebExperienceRoom } from "../src/Networked3dWebExperienceRoom";
+import type { Networked3dWebExperienceServer } from "../src/Networked3dWebExperienceServer";
+
+import {
+  createTestUserAuthenticator,
+  createTestUserNetworkingClient,
+  nodeWebsocketFactory,
+  waitUntil,
+} from "./test-utils";
+
+const secret = "test-secret";
+
+function createReplay(): UserNetworkingReplay {
+  const text =
+    serializeUserNetworkingRecordingLine({ type: "recording", version: 1, startTime: 1000 }) +
+    serializeUserNetworkingRecordingLine({
+      time: 0,
+      type: "profile",
+      id: 1,
+      userData: {
+        username: "user1",
+        characterDescription: { meshFileUrl: "http://example.com/user1.glb" },
+      },
+    }) +
+    serializeUserNetworkingRecordingLine({ time: 1000, type: "disconnected", id: 1 });
+  return new UserNetworkingReplay(parseUserNetworkingRecording(text));
+}
+
+function startAdminApi(port: number, server: Partial<Networked3dWebExperienceServer>) {
+  const { app } = enableWs(express());
+  registerAdminApiRoutes(app, server as Networked3dWebExperienceServer, { secret });
+  return app.listen(port);
+}
+
+// Serves the room's user networking alongside an admin API for it
+function startRoomWithAdminApi(port: number, room: Networked3dWebExperienceRoom) {
+  const { app } = enableWs(express());
+  app.ws("/network", (ws) => {
+    room.connectUserNetworkingClient(ws);
+  });
+  registerAdminApiRoutes(
+    app,
+    {
+      getRoom: () => room,
+    } as Partial<Networked3dWebExperienceServer> as Networked3dWebExperienceServer,
+    { secret },
+  );
+  return app.listen(port);
+}
+
+function adminRequest(port: number, method: string, path: string, body?: object, token = secret) {
+  return fetch(`http://localhost:${port}/admin${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+type AdminCall = { method: string; args: Array<any> };
+
+// A room that records the calls made by the admin API. It has one user (with id 1) and serves two documents.
+function createRecordingRoom(calls: Array<AdminCall>, teleportError?: Error) {
+  const record =
+    (method: string, result?: any) =>
+    (...args: Array<any>) => {
+      calls.push({ method, args });
+      return result;
+    };
+  const user = {
+    id: 1,
+    userData: {
+      username: "user1",
+      characterDescription: { meshFileUrl: "http://example.com/user1.glb" },
+    },
+    position: { x: 0, y: 0, z: 0 },
+  };
+  return {
+    name: "default",
+    userNetworkingServer: {
+      getClient: (clientId: number) => (clientId === user.id ? user : null),
+      getClients: () => [user],
+    },
+    kickClient: record("kickClient", true),
+    banClient: record("banClient", true),
+    muteClient: record("muteClient", true),
+    unmuteClient: record("unmuteClient"),
+    teleportClient: (...args: Array<any>) => {
+      calls.push({ method: "teleportClient", args });
+      return teleportError ? Promise.reject(teleportError) : Promise.resolve();
+    },
+    broadcastMessage: record("broadcastMessage"),
+    sendToClients: record("sendToClients"),
+    mmlDocumentsServer: {
+      getDocumentPaths: () => ["one.html", "two.html"],
+      reloadDocument: (path: string) => {
+        calls.push({ method: "reloadDocument", args: [path] });
+        return path === "one.html" || path === "two.html";
+      },
+    },
+  } as unknown as Networked3dWebExperienceRoom;
+}
+
+function startRecordingAdminApi(port: number, room: Networked3dWebExperienceRoom) {
+  return startAdminApi(port, {
+    getRoom: (roomName?: string | null) => (roomName ? null : room),
+  });
+}
+
+describe("admin API moderation routes", () => {
+  test("should reject requests without the secret", async () => {
+    const calls: Array<AdminCall> = [];
+    const listener = startRecordingAdminApi(8808, createRecordingRoom(calls));
+
+    const wrongSecret = await adminRequest(8808, "POST", "/users/1/kick", {}, "wrong");
+    expect(wrongSecret.status).toEqual(401);
+    const noAuthorization = await fetch("http://localhost:8808/admin/users/1/kick", {
+      method: "POST",
+    });
+    expect(noAuthorization.status).toEqual(401);
+    expect(await noAuthorization.json()).toEqual({ error: "Unauthorized" });
+    expect(calls).toEqual([]);
+
+    listener.close();
+  });
+
+  test("should kick, ban, mute and unmute users", async () => {
+    const calls: Array<AdminCall> = [];
+    const listener = startRecordingAdminApi(8809, createRecordingRoom(calls));
+
+    const kick = await adminRequest(8809, "POST", "/users/1/kick", { reason: "Spamming" });
+    expect(await kick.json()).toEqual({ success: true });
+    const ban = await adminRequest(8809, "POST", "/users/1/ban", { durationMilliseconds: 60000 });
+    expect(await ban.json()).toEqual({ success: true });
+    const mute = await adminRequest(8809, "POST", "/users/1/mute", {});
+    expect(await mute.json()).toEqual({ success: true });
+    const unmute = await adminRequest(8809, "POST", "/users/1/unmute");
+    expect(await unmute.json()).toEqual({ success: true });
+    expect(calls).toEqual([
+      { method: "kickClient", args: [1, "Spamming"] },
+      { method: "banClient", args: [1, "Banned", 60000] },
+      { method: "muteClient", args: [1, undefined] },
+      { method: "unmuteClient", args: [1] },
+    ]);
+
+    const invalidDuration = await adminRequest(8809, "POST", "/users/1/mute", {
+      durationMilliseconds: "forever",
+    });
+    expect(invalidDuration.status).toEqual(400);
+    const unknownUser = await adminRequest(8809, "POST", "/users/2/kick", {});
+    expect(unknownUser.status).toEqual(404);
+    const unknownRoom = await adminRequest(8809, "POST", "/users/1/kick?room=lobby", {});
+    expect(unknownRoom.status).toEqual(404);
+    expect(calls).toHaveLength(4);
+
+    listener.close();
+  });
+
+  test("should teleport users and report teleports that were not applied", async () => {
+    const calls: Array<AdminCall> = [];
+    const listener = startRecordingAdminApi(8810, createRecordingRoom(calls));
+    const position = { x: 1, y: 2, z: 3 };
+
+    const teleport = await adminRequest(8810, "POST", "/users/1/teleport", { position });
+    expect(await teleport.json()).toEqual({ success: true });
+    expect(calls).toEqual([
+      { method: "teleportClient", args: [1, position, { quaternionY: 0, quaternionW: 1 }] },
+    ]);
+    const invalidPosition = await adminRequest(8810, "POST", "/users/1/teleport", {
+      position: { x: 1, y: 2 },
+    });
+    expect(invalidPosition.status).toEqual(400);
+    listener.close();
+
+    const failingListener = startRecordingAdminApi(
+      8811,
+      createRecordingRoom(calls, new Error("Teleport was not acknowledged")),
+    );
+    const failedTeleport = await adminRequest(8811, "POST", "/users/1/teleport", { position });
+    expect(failedTeleport.status).toEqual(409);
+    expect(await failedTeleport.json()).toEqual({ error: "Teleport was not acknowledged" });
+    failingListener.close();
+  });
+
+  test("should validate messages before sending them", async () => {
+    const calls: Array<AdminCall> = [];
+    const listener = startRecordingAdminApi(8812, createRecordingRoom(calls));
+
+    const broadcast = await adminRequest(8812, "POST", "/messages", {
+      type: "announcement",
+      payload: { text: "hello" },
+    });
+    expect(await broadcast.json()).toEqual({ success: true });
+    const targeted = await adminRequest(8812, "POST", "/messages", {
+      type: "announcement",
+      payload: "hi",
+      clientIds: [1],
+    });
+    expect(await targeted.json()).toEqual({ success: true });
+    expect(calls).toEqual([
+      { method: "broadcastMessage", args: ["announcement", { text: "hello" }] },
+      { method: "sendToClients", args: [[1], "announcement", "hi"] },
+    ]);
+
+    const missingType = await adminRequest(8812, "POST", "/messages", { payload: {} });
+    expect(missingType.status).toEqual(400);
+    const invalidClientIds = await adminRequest(8812, "POST", "/messages", {
+      type: "announcement",
+      clientIds: ["1"],
+    });
+    expect(invalidClientIds.status).toEqual(400);
+    expect(calls).toHaveLength(2);
+
+    listener.close();
+  });
+
+  test("should reload documents", async () => {
+    const calls: Array<AdminCall> = [];
+    const listener = startRecordingAdminApi(8813, createRecordingRoom(calls));
+
+    const documents = await adminRequest(8813, "GET", "/documents");
+    expect(await documents.json()).toEqual({ documents: ["one.html", "two.html"] });
+    const reloadOne = await adminRequest(8813, "POST", "/documents/reload", { path: "two.html" });
+    expect(await reloadOne.json()).toEqual({ documents: ["two.html"] });
+    const reloadAll = await adminRequest(8813, "POST", "/documents/reload", {});
+    expect(await reloadAll.json()).toEqual({ documents: ["one.html", "two.html"] });
+    const unknownDocument = await adminRequest(8813, "POST", "/documents/reload", {
+      path: "three.html",
+    });
+    expect(unknownDocument.status).toEqual(404);
+    expect(calls.map((call) => call.args[0])).toEqual([
+      "two.html",
+      "one.html",
+      "two.html",
+      "three.html",
+    ]);
+
+    listener.close();
+  });
+});
+
+describe("admin API replay controls", () => {
+  test("should control the replay of the server", async () => {
+    const replay = createReplay();
+    const listener = startAdminApi(8801, { replay });
+
+    const unauthorized = await adminRequest(8801, "POST", "/replay/play", undefined, "wrong");
+    expect(unauthorized.status).toEqual(401);
+    expect(replay.isPlaying()).toEqual(false);
+
+    const status = await adminRequest(8801, "GET", "/replay");
+    expect(await status.json()).toEqual({
+      playing: false,
+      currentTime: 0,
+      duration: 1000,
+      speed: 1,
+    });
+
+    const seek = await adminRequest(8801, "POST", "/replay/seek", { time: 500 });
+    expect((await seek.json()).currentTime).toEqual(500);
+    expect(replay.getCurrentTime()).toEqual(500);
+
+    const invalidSeek = await adminRequest(8801, "POST", "/replay/seek", { time: "soon" });
+    expect(invalidSeek.status).toEqual(400);
+
+    const speed = await adminRequest(8801, "POST", "/replay/speed", { speed: 2 });
+    expect((await speed.json()).speed).toEqual(2);
+    const invalidSpeed = await adminRequest(8801, "POST", "/replay/speed", { speed: 0 });
+    expect(invalidSpeed.status).toEqual(400);
+    expect(replay.getSpeed()).toEqual(2);
+
+    const play = await adminRequest(8801, "POST", "/replay/play");
+    expect((await play.json()).playing).toEqual(true);
+    expect(replay.isPlaying()).toEqual(true);
+
+    const pause = await adminRequest(8801, "POST", "/replay/pause");
+    expect((await pause.json()).playing).toEqual(false);
+    expect(replay.isPlaying()).toEqual(false);
+
+    replay.dispose();
+    listener.close();
+  });
+
+  test("should respond with not found if the server is not showing a replay", async () => {
+    const listener = startAdminApi(8802, { replay: null });
+
+    const response = await adminRequest(8802, "POST", "/replay/play");
+    expect(response.status).toEqual(404);
+    expect(await response.json()).toEqual({ error: "The server is not showing a replay" });
+
+    listener.close();
+  });
+});
+
+describe("admin API user routes", () => {
+  test("should keep a spectator hidden when its character is changed", async () => {
+    const room = new Networked3dWebExperienceRoom("lobby", {
+      clientIdRange: { min: 1, max: 999 },
+      enableChat: false,
+      userAuthenticator: createTestUserAuthenticator(["spectator"]),
+      onClientCustomMessage: () => {},
+    });
+    const listener = startRoomWithAdminApi(8804, room);
+
+    const user = await createTestUserNetworkingClient(
+      "ws://localhost:8804/network",
+      "user",
+      undefined,
+      nodeWebsocketFactory,
+    );
+    const userId = await user.identityPromise;
+    const spectator = await createTestUserNetworkingClient(
+      "ws://localhost:8804/network",
+      "spectator",
+      undefined,
+      nodeWebsocketFactory,
+    );
+    const spectatorId = await spectator.identityPromise;
+
+    const response = await adminRequest(8804, "PUT", `/users/${spectatorId}`, {
+      username: "renamed-spectator",
+      characterDescription: { meshFileUrl: "http://example.com/renamed.glb" },
+    });
+    expect(response.status).toEqual(200);
+    expect(room.userNetworkingServer.getClient(spectatorId)?.userData).toEqual({
+      username: "renamed-spectator",
+      characterDescription: { meshFileUrl: "http://example.com/renamed.glb" },
+      spectator: true,
+    });
+
+    // The user's own profile update arrives after any profile of the spectator would have
+    await adminRequest(8804, "PUT", `/users/${userId}`, {
+      username: "renamed-user",
+      characterDescription: { meshFileUrl: "http://example.com/user.glb" },
+    });
+    await waitUntil(
+      () => user.profiles.get(userId)?.username === "renamed-user",
+      "wait for the user to receive its own profile update",
+    );
+    expect(user.profiles.has(spectatorId)).toEqual(false);
+
+    user.client.stop();
+    spectator.client.stop();
+    await waitUntil(
+      () => room.userNetworkingServer.getClientCount() === 0,
+      "wait for the server to see the removal of all users",
+    );
+    room.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,38 @@
+import { UserData } from "@mml-io/3d-web-user-networking";
+import NodeWebSocket from "ws";
+
+import { createWaitable, waitUntil } from "../../../utils/test-utils";
+import { createTestUserNetworkingClient } from "../../3d-web-user-networking/test/test-utils";
+import type { UserAuthenticator } from "../src/Networked3dWebExperienceServer";
+
+export { createTestUserNetworkingClient, createWaitable, waitUntil };
+
+// For tests that run in node (e.g. to use fetch), which does not provide the browser WebSocket that jsdom does
+export function nodeWebsocketFactory(url: string): WebSocket {
+  return new NodeWebSocket(url) as unknown as WebSocket;
+}
+
+// Authenticates any session token as a user named after the token. Users with the given tokens connect as spectators.
+export function createTestUserAuthenticator(
+  spectatorSessionTokens: Array<string> = [],
+): UserAuthenticator {
+  const clientIdsBySessionToken = new Map<string, number>();
+  return {
+    generateAuthorizedSessionToken: async () => null,
+    isAuthorizedSessionToken: () => true,
+    getClientIdForSessionToken: (sessionToken: string) => {
+      const id = clientIdsBySessionToken.get(sessionToken);
+      return id !== undefined ? { id } : null;
+    },
+    onClientConnect: (clientId: number, sessionToken: string): UserData => {
+      clientIdsBySessionToken.set(sessionToken, clientId);
+      return {
+        username: sessionToken,
+        characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        spectator: spectatorSessionTokens.includes(sessionToken),
+      };
+    },
+    onClientUserIdentityUpdate: () => null,
+    onClientDisconnect: () => {},
+  };
+}
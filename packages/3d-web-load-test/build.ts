@@ -0,0 +1,8 @@
+import { handleLibraryBuild } from "../../utils/build-library";
+
+handleLibraryBuild({
+  entryPoints: {
+    index: "src/index.ts",
+    cli: "src/cli.ts",
+  },
+});
@@ -0,0 +1,215 @@
+import { LoadTestBot, LoadTestBotStats } from "./LoadTestBot";
+import { LoadTestMovement } from "./LoadTestMovement";
+
+export type LoadTestOptions = {
+  url: string;
+  chatUrl: string | null;
+  botCount: number;
+  // Bots are started evenly over this period rather than all at once
+  rampUpSeconds: number;
+  // Each bot's session token is the prefix followed by the bot's index
+  sessionTokenPrefix: string;
+  updatesPerSecond: number;
+  chatMessagesPerMinute: number;
+  chatMessages: Array<string>;
+  createMovement: (botIndex: number) => LoadTestMovement;
+};
+
+export type LoadTestLatencySummary = {
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+};
+
+export type LoadTestReport = {
+  elapsedSeconds: number;
+  startedBots: number;
+  connectedBots: number;
+  queuedBots: number;
+  connectLatencyMilliseconds: LoadTestLatencySummary | null;
+  // The average number of other users' updates each connected bot received per second since the previous report
+  updatesReceivedPerBotPerSecond: number;
+  // The traffic of all bots combined since the previous report
+  bytesReceivedPerSecond: number;
+  bytesSentPerSecond: number;
+  chatMessagesSent: number;
+  chatMessagesReceived: number;
+  reconnections: number;
+  errorCount: number;
+  // The errors reported since the previous report
+  recentErrors: Array<string>;
+};
+
+type LoadTestTotals = {
+  time: number;
+  updatesReceived: number;
+  bytesReceived: number;
+  bytesSent: number;
+  errorCount: number;
+};
+
+function getPercentile(sortedValues: Array<number>, percentile: number): number {
+  const index = Math.min(
+    sortedValues.length - 1,
+    Math.floor((percentile / 100) * sortedValues.length),
+  );
+  return sortedValues[index];
+}
+
+// Starts many bots against a server and summarises how the server treats them
+export class LoadTest {
+  private bots: Array<LoadTestBot> = [];
+  private startTime = 0;
+  private rampUpTimeout: NodeJS.Timeout | null = null;
+  private previousTotals: LoadTestTotals | null = null;
+
+  constructor(private options: LoadTestOptions) {}
+
+  public start() {
+    this.startTime = Date.now();
+    this.previousTotals = { ...this.getTotals(), time: this.startTime };
+    const interval =
+      this.options.botCount > 1 ? (this.options.rampUpSeconds * 1000) / this.options.botCount : 0;
+    const startNextBot = () => {
+      const index = this.bots.length;
+      const bot = new LoadTestBot({
+        url: this.options.url,
+        chatUrl: this.options.chatUrl,
+        sessionToken: `${this.options.sessionTokenPrefix}${index}`,
+        movement: this.options.createMovement(index),
+        updatesPerSecond: this.options.updatesPerSecond,
+        chatMessagesPerMinute: this.options.chatMessagesPerMinute,
+        chatMessages: this.options.chatMessages,
+      });
+      this.bots.push(bot);
+      bot.start();
+      if (this.bots.length < this.options.botCount) {
+        this.rampUpTimeout = setTimeout(startNextBot, interval);
+      } else {
+        this.rampUpTimeout = null;
+      }
+    };
+    if (this.options.botCount > 0) {
+      startNextBot();
+    }
+  }
+
+  private getTotals(): LoadTestTotals {
+    const totals: LoadTestTotals = {
+      time: Date.now(),
+      updatesReceived: 0,
+      bytesReceived: 0,
+      bytesSent: 0,
+      errorCount: 0,
+    };
+    for (const bot of this.bots) {
+      const stats = bot.getStats();
+      totals.updatesReceived += stats.updatesReceived;
+      totals.bytesReceived += stats.bytesReceived;
+      totals.bytesSent += stats.bytesSent;
+      totals.errorCount += stats.errors.length;
+    }
+    return totals;
+  }
+
+  // Summarises the bots since the previous report
+  public createReport(): LoadTestReport {
+    const totals = this.getTotals();
+    const previousTotals = this.previousTotals ?? { ...totals, time: this.startTime };
+    this.previousTotals = totals;
+    const elapsedSeconds = Math.max((totals.time - previousTotals.time) / 1000, 0.001);
+
+    const allStats: Array<LoadTestBotStats> = this.bots.map((bot) => bot.getStats());
+    const connectedBots = allStats.filter((stats) => stats.connected).length;
+    const latencies = allStats
+      .map((stats) => stats.connectLatencyMilliseconds)
+      .filter((latency): latency is number => latency !== null)
+      .sort((a, b) => a - b);
+
+    const recentErrors: Array<string> = [];
+    let errorIndex = 0;
+    for (const stats of allStats) {
+      for (const error of stats.errors) {
+        if (errorIndex >= previousTotals.errorCount) {
+          recentErrors.push(error);
+        }
+        errorIndex++;
+      }
+    }
+
+    return {
+      elapsedSeconds: (totals.time - this.startTime) / 1000,
+      startedBots: this.bots.length,
+      connectedBots,
+      queuedBots: allStats.filter((stats) => !stats.connected && stats.queuePosition !== null)
+        .length,
+      connectLatencyMilliseconds:
+        latencies.length > 0
+          ? {
+              min: latencies[0],
+              median: getPercentile(latencies, 50),
+              p95: getPercentile(latencies, 95),
+              max: latencies[latencies.length - 1],
+            }
+          : null,
+      updatesReceivedPerBotPerSecond:
+        connectedBots > 0
+          ? (totals.updatesReceived - previousTotals.updatesReceived) /
+            elapsedSeconds /
+            connectedBots
+          : 0,
+      bytesReceivedPerSecond:
+        (totals.bytesReceived - previousTotals.bytesReceived) / elapsedSeconds,
+      bytesSentPerSecond: (totals.bytesSent - previousTotals.bytesSent) / elapsedSeconds,
+      chatMessagesSent: allStats.reduce((total, stats) => total + stats.chatMessagesSent, 0),
+      chatMessagesReceived: allStats.reduce(
+        (total, stats) => total + stats.chatMessagesReceived,
+        0,
+      ),
+      reconnections: allStats.reduce((total, stats) => total + stats.reconnections, 0),
+      errorCount: totals.errorCount,
+      recentErrors,
+    };
+  }
+
+  public stop() {
+    if (this.rampUpTimeout) {
+      clearTimeout(this.rampUpTimeout);
+      this.rampUpTimeout = null;
+    }
+    for (const bot of this.bots) {
+      bot.stop();
+    }
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MiB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KiB`;
+  }
+  return `${Math.round(bytes)} B`;
+}
+
+export function formatLoadTestReport(report: LoadTestReport): string {
+  const latency = report.connectLatencyMilliseconds;
+  const lines = [
+    `[${report.elapsedSeconds.toFixed(1)}s] bots: ${report.connectedBots}/${report.startedBots} connected, ${report.queuedBots} queued`,
+    `  connect latency: ${
+      latency
+        ? `min ${latency.min}ms, median ${latency.median}ms, p95 ${latency.p95}ms, max ${latency.max}ms`
+        : "n/a"
+    }`,
+    `  updates received: ${report.updatesReceivedPerBotPerSecond.toFixed(1)}/s per bot`,
+    `  bandwidth: ${formatBytes(report.bytesReceivedPerSecond)}/s received, ${formatBytes(report.bytesSentPerSecond)}/s sent`,
+    `  chat: ${report.chatMessagesSent} sent, ${report.chatMessagesReceived} received`,
+    `  reconnections: ${report.reconnections}, errors: ${report.errorCount}`,
+  ];
+  for (const error of report.recentErrors) {
+    lines.push(`  error: ${error}`);
+  }
+  return lines.join("\n");
+}
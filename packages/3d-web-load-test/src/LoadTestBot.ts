@@ -0,0 +1,203 @@
+import { ChatNetworkingClient } from "@mml-io/3d-web-text-chat";
+import { UserNetworkingClient, WebsocketStatus } from "@mml-io/3d-web-user-networking";
+import NodeWebSocket from "ws";
+
+import { LoadTestMovement } from "./LoadTestMovement";
+
+export type LoadTestBotOptions = {
+  url: string;
+  // If set, the bot also connects to the chat once it has been assigned an identity
+  chatUrl: string | null;
+  // Servers that allow unrecognized sessions (e.g. with devAllowUnrecognizedSessions) accept any token
+  sessionToken: string;
+  movement: LoadTestMovement;
+  updatesPerSecond: number;
+  // 0 disables chat messages
+  chatMessagesPerMinute: number;
+  chatMessages: Array<string>;
+};
+
+// Counters that only increase over the lifetime of the bot
+export type LoadTestBotStats = {
+  connected: boolean;
+  // The time from starting to be assigned an identity, or null if not yet assigned
+  connectLatencyMilliseconds: number | null;
+  // The highest queue position the bot was given while waiting for a slot, or null if it was not queued
+  queuePosition: number | null;
+  updatesReceived: number;
+  bytesReceived: number;
+  bytesSent: number;
+  chatMessagesSent: number;
+  chatMessagesReceived: number;
+  reconnections: number;
+  errors: Array<string>;
+};
+
+// The size of a message as received (a NodeWebSocket.Data) or as passed to send
+function getByteLength(data: unknown): number {
+  if (typeof data === "string") {
+    return Buffer.byteLength(data);
+  }
+  if (Array.isArray(data)) {
+    return data.reduce((total: number, part: unknown) => total + getByteLength(part), 0);
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  return 0;
+}
+
+// A headless user that connects, moves and chats like a user of the web client
+export class LoadTestBot {
+  private userNetworkingClient: UserNetworkingClient | null = null;
+  private chatNetworkingClient: ChatNetworkingClient | null = null;
+  private clientId: number | null = null;
+  private startTime = 0;
+  private lastMovementTime = 0;
+  private movementIntervalTimer: NodeJS.Timeout | null = null;
+  private chatTimeout: NodeJS.Timeout | null = null;
+  private stats: LoadTestBotStats = {
+    connected: false,
+    connectLatencyMilliseconds: null,
+    queuePosition: null,
+    updatesReceived: 0,
+    bytesReceived: 0,
+    bytesSent: 0,
+    chatMessagesSent: 0,
+    chatMessagesReceived: 0,
+    reconnections: 0,
+    errors: [],
+  };
+
+  constructor(private options: LoadTestBotOptions) {}
+
+  public getStats(): LoadTestBotStats {
+    return this.stats;
+  }
+
+  // Counts the traffic of each websocket that the clients open
+  private createWebsocket(url: string): WebSocket {
+    const websocket = new NodeWebSocket(url);
+    websocket.addEventListener("message", (event: NodeWebSocket.MessageEvent) => {
+      this.stats.bytesReceived += getByteLength(event.data);
+    });
+    // The overloads of send are passed through as they are
+    const send = websocket.send.bind(websocket) as (data: unknown, ...args: Array<unknown>) => void;
+    websocket.send = ((data: unknown, ...args: Array<unknown>) => {
+      this.stats.bytesSent += getByteLength(data);
+      send(data, ...args);
+    }) as typeof websocket.send;
+    return websocket as unknown as WebSocket;
+  }
+
+  public start() {
+    this.startTime = Date.now();
+    this.userNetworkingClient = new UserNetworkingClient({
+      url: this.options.url,
+      sessionToken: this.options.sessionToken,
+      websocketFactory: (url: string) => this.createWebsocket(url),
+      statusUpdateCallback: (status: WebsocketStatus) => {
+        if (status === WebsocketStatus.Reconnecting && this.stats.connected) {
+          this.stats.reconnections++;
+        }
+        if (status !== WebsocketStatus.Connected) {
+          this.stats.connected = false;
+          this.clientId = null;
+        }
+      },
+      assignedIdentity: (clientId: number) => {
+        this.clientId = clientId;
+        this.stats.connected = true;
+        if (this.stats.connectLatencyMilliseconds === null) {
+          this.stats.connectLatencyMilliseconds = Date.now() - this.startTime;
+        }
+        this.connectToChat();
+      },
+      clientUpdate: (id: number, update) => {
+        if (update !== null) {
+          this.stats.updatesReceived++;
+        }
+      },
+      clientProfileUpdated: () => {},
+      onServerError: (error) => {
+        this.stats.errors.push(`${error.errorType}: ${error.message}`);
+      },
+      onServerBroadcast: () => {},
+      onCustomMessage: () => {},
+      onQueuePositionUpdate: (position: number) => {
+        this.stats.queuePosition = Math.max(this.stats.queuePosition ?? 0, position);
+      },
+    });
+
+    this.lastMovementTime = Date.now();
+    this.movementIntervalTimer = setInterval(
+      () => this.sendMovement(),
+      1000 / this.options.updatesPerSecond,
+    );
+  }
+
+  private sendMovement() {
+    const now = Date.now();
+    const deltaSeconds = (now - this.lastMovementTime) / 1000;
+    this.lastMovementTime = now;
+    const movementState = this.options.movement.update(deltaSeconds);
+    if (this.clientId === null || !this.userNetworkingClient) {
+      return;
+    }
+    this.userNetworkingClient.sendUpdate({ id: this.clientId, ...movementState });
+  }
+
+  private connectToChat() {
+    if (!this.options.chatUrl || this.chatNetworkingClient) {
+      return;
+    }
+    this.chatNetworkingClient = new ChatNetworkingClient({
+      url: this.options.chatUrl,
+      sessionToken: this.options.sessionToken,
+      websocketFactory: (url: string) => this.createWebsocket(url),
+      statusUpdateCallback: () => {},
+      clientChatUpdate: (id: number, update) => {
+        if (update !== null) {
+          this.stats.chatMessagesReceived++;
+        }
+      },
+      onServerError: (error) => {
+        this.stats.errors.push(`chat ${error.errorType}: ${error.message}`);
+      },
+    });
+    this.scheduleChatMessage();
+  }
+
+  private scheduleChatMessage() {
+    const { chatMessagesPerMinute, chatMessages } = this.options;
+    if (chatMessagesPerMinute <= 0 || chatMessages.length === 0) {
+      return;
+    }
+    // Vary the interval so that bots do not chat in lockstep
+    const interval = (60000 / chatMessagesPerMinute) * (0.5 + Math.random());
+    this.chatTimeout = setTimeout(() => {
+      if (this.clientId !== null && this.chatNetworkingClient) {
+        const message = chatMessages[Math.floor(Math.random() * chatMessages.length)];
+        this.chatNetworkingClient.sendChatMessage(message);
+        this.stats.chatMessagesSent++;
+      }
+      this.scheduleChatMessage();
+    }, interval);
+  }
+
+  public stop() {
+    if (this.movementIntervalTimer) {
+      clearInterval(this.movementIntervalTimer);
+      this.movementIntervalTimer = null;
+    }
+    if (this.chatTimeout) {
+      clearTimeout(this.chatTimeout);
+      this.chatTimeout = null;
+    }
+    this.userNetworkingClient?.stop();
+    this.userNetworkingClient = null;
+    this.chatNetworkingClient?.stop();
+    this.chatNetworkingClient = null;
+    this.stats.connected = false;
+  }
+}
@@ -0,0 +1,139 @@
+// The AnimationState values of @mml-io/3d-web-client-core that bots use
+const idleAnimationState = 0;
+const walkingAnimationState = 1;
+
+export type Vector3 = { x: number; y: number; z: number };
+
+export type LoadTestMovementState = {
+  position: Vector3;
+  rotation: { quaternionY: number; quaternionW: number };
+  state: number;
+};
+
+// Moves a bot each time update is called
+export interface LoadTestMovement {
+  update(deltaSeconds: number): LoadTestMovementState;
+}
+
+function getRotationTowards(
+  from: Vector3,
+  to: Vector3,
+): { quaternionY: number; quaternionW: number } {
+  // Characters face along +z when not rotated
+  const angle = Math.atan2(to.x - from.x, to.z - from.z);
+  return { quaternionY: Math.sin(angle / 2), quaternionW: Math.cos(angle / 2) };
+}
+
+// Moves the position towards the target by the distance covered in deltaSeconds, returning whether it was reached
+function walkTowards(
+  position: Vector3,
+  target: Vector3,
+  speed: number,
+  deltaSeconds: number,
+): boolean {
+  const dx = target.x - position.x;
+  const dy = target.y - position.y;
+  const dz = target.z - position.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const step = speed * deltaSeconds;
+  if (distance <= step) {
+    position.x = target.x;
+    position.y = target.y;
+    position.z = target.z;
+    return true;
+  }
+  position.x += (dx / distance) * step;
+  position.y += (dy / distance) * step;
+  position.z += (dz / distance) * step;
+  return false;
+}
+
+export type RandomWalkOptions = {
+  center: Vector3;
+  // Targets are chosen within this distance of the center on the horizontal plane
+  radius: number;
+  // Meters per second
+  speed: number;
+  // The longest time (seconds) that a bot idles after reaching each target
+  maxIdleSeconds: number;
+};
+
+// Walks between random points within a circle, idling for a random time at each point
+export class RandomWalkMovement implements LoadTestMovement {
+  private position: Vector3;
+  private target: Vector3;
+  private rotation = { quaternionY: 0, quaternionW: 1 };
+  private idleSecondsRemaining = 0;
+
+  constructor(private options: RandomWalkOptions) {
+    this.position = this.getRandomPoint();
+    this.target = this.getRandomPoint();
+  }
+
+  private getRandomPoint(): Vector3 {
+    const angle = Math.random() * Math.PI * 2;
+    // The square root spreads points evenly over the area of the circle
+    const distance = Math.sqrt(Math.random()) * this.options.radius;
+    return {
+      x: this.options.center.x + Math.sin(angle) * distance,
+      y: this.options.center.y,
+      z: this.options.center.z + Math.cos(angle) * distance,
+    };
+  }
+
+  public update(deltaSeconds: number): LoadTestMovementState {
+    if (this.idleSecondsRemaining > 0) {
+      this.idleSecondsRemaining -= deltaSeconds;
+      return this.getState(idleAnimationState);
+    }
+    this.rotation = getRotationTowards(this.position, this.target);
+    if (walkTowards(this.position, this.target, this.options.speed, deltaSeconds)) {
+      this.target = this.getRandomPoint();
+      this.idleSecondsRemaining = Math.random() * this.options.maxIdleSeconds;
+    }
+    return this.getState(walkingAnimationState);
+  }
+
+  private getState(state: number): LoadTestMovementState {
+    return { position: { ...this.position }, rotation: { ...this.rotation }, state };
+  }
+}
+
+export type WaypointPathOptions = {
+  waypoints: Array<Vector3>;
+  // Meters per second
+  speed: number;
+  // Bots start at a random waypoint so that they do not all walk in a single file
+  randomStart: boolean;
+};
+
+// Walks a scripted loop through the waypoints
+export class WaypointMovement implements LoadTestMovement {
+  private position: Vector3;
+  private targetIndex: number;
+  private rotation = { quaternionY: 0, quaternionW: 1 };
+
+  constructor(private options: WaypointPathOptions) {
+    if (options.waypoints.length === 0) {
+      throw new Error("A waypoint path requires at least one waypoint");
+    }
+    const startIndex = options.randomStart
+      ? Math.floor(Math.random() * options.waypoints.length)
+      : 0;
+    this.position = { ...options.waypoints[startIndex] };
+    this.targetIndex = (startIndex + 1) % options.waypoints.length;
+  }
+
+  public update(deltaSeconds: number): LoadTestMovementState {
+    const target = this.options.waypoints[this.targetIndex];
+    this.rotation = getRotationTowards(this.position, target);
+    if (walkTowards(this.position, target, this.options.speed, deltaSeconds)) {
+      this.targetIndex = (this.targetIndex + 1) % this.options.waypoints.length;
+    }
+    return {
+      position: { ...this.position },
+      rotation: { ...this.rotation },
+      state: this.options.waypoints.length > 1 ? walkingAnimationState : idleAnimationState,
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+
+import { parseNumber, parseVector3 } from "./cliArgs";
+import { formatLoadTestReport, LoadTest } from "./LoadTest";
+import {
+  LoadTestMovement,
+  RandomWalkMovement,
+  Vector3,
+  WaypointMovement,
+} from "./LoadTestMovement";
+
+const usage = `Usage: 3d-web-load-test [options]
+
+Connects headless bots to a 3d-web-experience server and reports how it performs.
+
+Options:
+  --url <url>                  User networking websocket (default: ws://localhost:8080/network)
+  --chat-url <url>             Chat websocket; bots only chat if this is set (e.g. ws://localhost:8080/chat-network)
+  --bots <count>               Number of bots (default: 10)
+  --ramp-up <seconds>          Time over which the bots are started (default: 0)
+  --duration <seconds>         Time to run for after starting; 0 runs until interrupted (default: 0)
+  --report-interval <seconds>  Time between reports (default: 5)
+  --updates-per-second <rate>  Movement updates each bot sends per second (default: 30)
+  --chat-per-minute <rate>     Chat messages each bot sends per minute (default: 0)
+  --speed <meters>             Walking speed in meters per second (default: 3)
+  --radius <meters>            Radius of the random walk area (default: 10)
+  --center <x,y,z>             Center of the random walk area (default: 0,0,0)
+  --path <file>                JSON array of {x, y, z} waypoints to walk instead of a random walk
+  --token-prefix <prefix>      Prefix of each bot's session token (default: load-test-bot-)
+  --json                       Print reports as JSON lines
+  --verbose                    Show the clients' own logging
+  --help                       Show this message
+
+The server must accept the bots' session tokens, e.g. by running in a development mode that allows
+unrecognized sessions.
+`;
+
+const chatMessages = [
+  "Hello!",
+  "Hi everyone",
+  "How is it going?",
+  "Anyone around?",
+  "This place looks great",
+  "brb",
+];
+
+function loadWaypoints(path: string): Array<Vector3> {
+  const waypoints = JSON.parse(readFileSync(path, "utf8"));
+  if (
+    !Array.isArray(waypoints) ||
+    waypoints.length === 0 ||
+    waypoints.some(
+      (waypoint) =>
+        typeof waypoint?.x !== "number" ||
+        typeof waypoint?.y !== "number" ||
+        typeof waypoint?.z !== "number",
+    )
+  ) {
+    throw new Error(`${path} must contain a non-empty array of {x, y, z} waypoints`);
+  }
+  return waypoints;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      url: { type: "string", default: "ws://localhost:8080/network" },
+      "chat-url": { type: "string" },
+      bots: { type: "string", default: "10" },
+      "ramp-up": { type: "string", default: "0" },
+      duration: { type: "string", default: "0" },
+      "report-interval": { type: "string", default: "5" },
+      "updates-per-second": { type: "string", default: "30" },
+      "chat-per-minute": { type: "string", default: "0" },
+      speed: { type: "string", default: "3" },
+      radius: { type: "string", default: "10" },
+      center: { type: "string", default: "0,0,0" },
+      path: { type: "string" },
+      "token-prefix": { type: "string", default: "load-test-bot-" },
+      json: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const botCount = Math.floor(parseNumber("bots", values.bots));
+  const rampUpSeconds = parseNumber("ramp-up", values["ramp-up"]);
+  const durationSeconds = parseNumber("duration", values.duration);
+  const reportIntervalSeconds = parseNumber("report-interval", values["report-interval"]);
+  const updatesPerSecond = parseNumber("updates-per-second", values["updates-per-second"]);
+  if (updatesPerSecond <= 0 || reportIntervalSeconds <= 0) {
+    throw new Error("--updates-per-second and --report-interval must be greater than 0");
+  }
+  const speed = parseNumber("speed", values.speed);
+  const radius = parseNumber("radius", values.radius);
+  const center = parseVector3("center", values.center);
+  const waypoints = values.path ? loadWaypoints(values.path) : null;
+
+  if (!values.verbose) {
+    // The networking clients log every connection change, which would drown out the reports
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  const loadTest = new LoadTest({
+    url: values.url,
+    chatUrl: values["chat-url"] ?? null,
+    botCount,
+    rampUpSeconds,
+    sessionTokenPrefix: values["token-prefix"],
+    updatesPerSecond,
+    chatMessagesPerMinute: parseNumber("chat-per-minute", values["chat-per-minute"]),
+    chatMessages,
+    createMovement: (): LoadTestMovement =>
+      waypoints
+        ? new WaypointMovement({ waypoints, speed, randomStart: true })
+        : new RandomWalkMovement({ center, radius, speed, maxIdleSeconds: 3 }),
+  });
+
+  const printReport = () => {
+    const report = loadTest.createReport();
+    process.stdout.write(
+      (values.json ? JSON.stringify(report) : formatLoadTestReport(report)) + "\n",
+    );
+  };
+
+  let stopped = false;
+  const reportInterval = setInterval(printReport, reportIntervalSeconds * 1000);
+  const stop = () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    clearInterval(reportInterval);
+    printReport();
+    loadTest.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  if (durationSeconds > 0) {
+    setTimeout(stop, (rampUpSeconds + durationSeconds) * 1000);
+  }
+
+  loadTest.start();
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n\n${usage}`);
+  process.exit(1);
+}
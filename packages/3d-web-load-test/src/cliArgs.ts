@@ -0,0 +1,19 @@
+import { Vector3 } from "./LoadTestMovement";
+
+// Parsers of the option values of the CLI, which throw errors that are shown to the user with the usage
+
+export function parseNumber(name: string, value: string): number {
+  const parsed = parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+export function parseVector3(name: string, value: string): Vector3 {
+  const parts = value.split(",").map((part) => parseFloat(part));
+  if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) {
+    throw new Error(`--${name} must be three comma-separated numbers`);
+  }
+  return { x: parts[0], y: parts[1], z: parts[2] };
+}
@@ -0,0 +1,3 @@
+export * from "./LoadTest";
+export * from "./LoadTestBot";
+export * from "./LoadTestMovement";
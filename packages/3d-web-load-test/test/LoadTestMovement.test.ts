@@ -0,0 +1,62 @@
+import { RandomWalkMovement, WaypointMovement } from "../src/LoadTestMovement";
+
+describe("WaypointMovement", () => {
+  test("should walk a loop through the waypoints facing the next waypoint", () => {
+    const movement = new WaypointMovement({
+      waypoints: [
+        { x: 0, y: 0, z: 0 },
+        { x: 10, y: 0, z: 0 },
+      ],
+      speed: 2,
+      randomStart: false,
+    });
+
+    const walking = movement.update(1);
+    expect(walking.position).toEqual({ x: 2, y: 0, z: 0 });
+    expect(walking.rotation.quaternionY).toBeCloseTo(Math.SQRT1_2);
+    expect(walking.rotation.quaternionW).toBeCloseTo(Math.SQRT1_2);
+    expect(walking.state).toEqual(1);
+
+    // The step is limited to the waypoint, after which the bot walks back to the first waypoint
+    expect(movement.update(10).position).toEqual({ x: 10, y: 0, z: 0 });
+    const returning = movement.update(1);
+    expect(returning.position).toEqual({ x: 8, y: 0, z: 0 });
+    expect(returning.rotation.quaternionY).toBeCloseTo(-Math.SQRT1_2);
+    expect(returning.rotation.quaternionW).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  test("should idle at a single waypoint", () => {
+    const movement = new WaypointMovement({
+      waypoints: [{ x: 1, y: 2, z: 3 }],
+      speed: 2,
+      randomStart: true,
+    });
+    const state = movement.update(1);
+    expect(state.position).toEqual({ x: 1, y: 2, z: 3 });
+    expect(state.state).toEqual(0);
+  });
+
+  test("should require a waypoint", () => {
+    expect(() => new WaypointMovement({ waypoints: [], speed: 2, randomStart: false })).toThrow(
+      "A waypoint path requires at least one waypoint",
+    );
+  });
+});
+
+describe("RandomWalkMovement", () => {
+  test("should walk at the speed within the area", () => {
+    const center = { x: 100, y: 5, z: -100 };
+    const movement = new RandomWalkMovement({ center, radius: 10, speed: 3, maxIdleSeconds: 1 });
+
+    let previous = movement.update(0.1).position;
+    for (let i = 0; i < 1000; i++) {
+      const { position } = movement.update(0.1);
+      expect(Math.hypot(position.x - center.x, position.z - center.z)).toBeLessThanOrEqual(10);
+      expect(position.y).toEqual(center.y);
+      expect(Math.hypot(position.x - previous.x, position.z - previous.z)).toBeLessThanOrEqual(
+        0.3 + 1e-9,
+      );
+      previous = position;
+    }
+  });
+});
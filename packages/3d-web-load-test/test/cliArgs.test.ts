@@ -0,0 +1,31 @@
+import { parseNumber, parseVector3 } from "../src/cliArgs";
+
+describe("cliArgs", () => {
+  test("should parse non-negative numbers", () => {
+    expect(parseNumber("bots", "12")).toEqual(12);
+    expect(parseNumber("ramp-up", "1.5")).toEqual(1.5);
+    expect(parseNumber("duration", "0")).toEqual(0);
+  });
+
+  test("should reject values that are not non-negative numbers", () => {
+    expect(() => parseNumber("bots", "-1")).toThrow("--bots must be a non-negative number");
+    expect(() => parseNumber("bots", "many")).toThrow("--bots must be a non-negative number");
+    expect(() => parseNumber("speed", "Infinity")).toThrow("--speed must be a non-negative number");
+  });
+
+  test("should parse comma-separated vectors", () => {
+    expect(parseVector3("center", "1,-2,3.5")).toEqual({ x: 1, y: -2, z: 3.5 });
+  });
+
+  test("should reject vectors without three numbers", () => {
+    expect(() => parseVector3("center", "1,2")).toThrow(
+      "--center must be three comma-separated numbers",
+    );
+    expect(() => parseVector3("center", "1,2,3,4")).toThrow(
+      "--center must be three comma-separated numbers",
+    );
+    expect(() => parseVector3("center", "1,up,3")).toThrow(
+      "--center must be three comma-separated numbers",
+    );
+  });
+});
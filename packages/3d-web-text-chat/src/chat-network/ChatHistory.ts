@@ -0,0 +1,101 @@
+import { ChatNetworkingHistoryEntry } from "./ChatNetworkingMessages";
+
+// Persists the chat history (e.g. to a file) so that it survives restarts
+export interface ChatHistoryStorage {
+  load(): Array<ChatNetworkingHistoryEntry>;
+  // Called with the whole history each time it changes
+  save(entries: Array<ChatNetworkingHistoryEntry>): void;
+}
+
+export type ChatHistoryOptions = {
+  // The most recent messages that are kept (default 100)
+  maxMessages?: number;
+  // Messages older than this are discarded. Messages do not expire if not set.
+  maxAgeMilliseconds?: number;
+  storage?: ChatHistoryStorage;
+};
+
+const defaultMaxMessages = 100;
+
+// A bounded record of the most recent chat messages, sent to users when they join the chat
+export class ChatHistory {
+  private entries: Array<ChatNetworkingHistoryEntry> = [];
+  private maxMessages: number;
+
+  constructor(private options: ChatHistoryOptions) {
+    this.maxMessages = options.maxMessages ?? defaultMaxMessages;
+    if (options.storage) {
+      try {
+        this.entries = options.storage.load();
+      } catch (e) {
+        console.error("Failed to load chat history", e);
+      }
+      this.prune();
+    }
+  }
+
+  public add(entry: ChatNetworkingHistoryEntry) {
+    this.entries.push(entry);
+    this.prune();
+    this.save();
+  }
+
+  // Returns whether the message was in the history
+  public edit(messageId: number, text: string): boolean {
+    const entry = this.entries.find((historyEntry) => historyEntry.messageId === messageId);
+    if (!entry) {
+      return false;
+    }
+    entry.text = text;
+    entry.edited = true;
+    this.save();
+    return true;
+  }
+
+  // Returns whether the message was in the history
+  public delete(messageId: number): boolean {
+    const index = this.entries.findIndex((historyEntry) => historyEntry.messageId === messageId);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  public getEntries(): Array<ChatNetworkingHistoryEntry> {
+    if (this.prune()) {
+      this.save();
+    }
+    return this.entries;
+  }
+
+  public clear() {
+    this.entries = [];
+    this.save();
+  }
+
+  // Returns whether any messages were removed
+  private prune(): boolean {
+    const previousLength = this.entries.length;
+    if (this.options.maxAgeMilliseconds !== undefined) {
+      const oldestTimestamp = Date.now() - this.options.maxAgeMilliseconds;
+      this.entries = this.entries.filter((entry) => entry.timestamp >= oldestTimestamp);
+    }
+    if (this.entries.length > this.maxMessages) {
+      this.entries = this.entries.slice(this.entries.length - this.maxMessages);
+    }
+    return this.entries.length !== previousLength;
+  }
+
+  private save() {
+    if (!this.options.storage) {
+      return;
+    }
+    try {
+      this.options.storage.save(this.entries);
+    } catch (e) {
+      console.error("Failed to save chat history", e);
+    }
+  }
+}
@@ -1,13 +1,28 @@
 import {
+  CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE,
   CHAT_NETWORKING_CHAT_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE,
+  ChatNetworkingChannelState,
   CHAT_NETWORKING_CONNECTED_MESSAGE_TYPE,
+  CHAT_NETWORKING_DIRECT_MESSAGE_TYPE,
   CHAT_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
-  ChatNetworkingClientChatMessage,
+  CHAT_NETWORKING_HISTORY_MESSAGE_TYPE,
+  ChatNetworkingHistoryEntry,
+  ChatNetworkingIdentityMessage,
+  ChatNetworkingScope,
   FromClientMessage,
   FromServerMessage,
   CHAT_NETWORKING_IDENTITY_MESSAGE_TYPE,
   CHAT_NETWORKING_PING_MESSAGE_TYPE,
+  CHAT_NETWORKING_REJECTED_MESSAGE_TYPE,
+  ChatNetworkingRejectedMessage,
   CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+  ChatNetworkingServerChatMessage,
+  ChatNetworkingServerDirectMessage,
   ChatNetworkingServerErrorType,
   CHAT_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
 } from "./ChatNetworkingMessages";
@@ -18,11 +33,44 @@ export type ChatNetworkingClientConfig = {
   sessionToken: string;
   websocketFactory: WebsocketFactory;
   statusUpdateCallback: (status: WebsocketStatus) => void;
-  clientChatUpdate: (id: number, update: null | ChatNetworkingClientChatMessage) => void;
+  clientChatUpdate: (id: number, update: null | ChatNetworkingServerChatMessage) => void;
+  /*
+   Called with the messages sent before this client joined (oldest first), if the server keeps a history. If channel is
+   set, the messages are the history of only that channel (which the client has just joined).
+  */
+  onChatHistory?: (messages: Array<ChatNetworkingHistoryEntry>, channel?: string) => void;
+  // Called with the channels of the server (if it has any) when connecting and whenever the client joins or leaves one
+  onChannels?: (channels: Array<ChatNetworkingChannelState>) => void;
+  // Called when the server assigns this client an id. Moderators can edit and delete the messages of other users.
+  onIdentity?: (identity: {
+    id: number;
+    moderator: boolean;
+    // Set if the server only delivers messages to nearby users unless they are sent with the global scope
+    proximity: NonNullable<ChatNetworkingIdentityMessage["proximity"]> | null;
+  }) => void;
+  onChatMessageEdited?: (messageId: number, text: string) => void;
+  onChatMessageDeleted?: (messageId: number) => void;
+  // Called with direct messages sent to this client, and with those it sent once they have been delivered
+  onDirectMessage?: (message: ChatNetworkingServerDirectMessage) => void;
+  /*
+   Called when the server did not carry out a message sent by this client (e.g. because the client is muted), unless it
+   was a chat message sent with onRejected.
+  */
+  onRequestRejected?: (rejection: ChatNetworkingRejectedMessage) => void;
   onServerError: (error: { message: string; errorType: ChatNetworkingServerErrorType }) => void;
 };
 
 export class ChatNetworkingClient extends ReconnectingWebSocket {
+  private nextNonce = 1;
+  // Callbacks for sent messages that the server has not yet assigned an id to or rejected, by nonce
+  private pendingSentCallbacks = new Map<
+    number,
+    {
+      onSent?: (messageId: number, timestamp: number) => void;
+      onRejected?: (message: string) => void;
+    }
+  >();
+
   constructor(private config: ChatNetworkingClientConfig) {
     super(config.url, config.websocketFactory, (status: WebsocketStatus) => {
       if (status === WebsocketStatus.Connected) {
@@ -30,13 +78,72 @@ export class ChatNetworkingClient extends ReconnectingWebSocket {
           type: CHAT_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
           sessionToken: config.sessionToken,
         });
+      } else if (
+        status === WebsocketStatus.Disconnected ||
+        status === WebsocketStatus.Reconnecting
+      ) {
+        // Messages that were not acknowledged before the connection was lost will not be
+        const pendingSentCallbacks = Array.from(this.pendingSentCallbacks.values());
+        this.pendingSentCallbacks.clear();
+        for (const { onRejected } of pendingSentCallbacks) {
+          onRejected?.("The connection to the chat was lost");
+        }
       }
       config.statusUpdateCallback(status);
     });
   }
 
-  public sendChatMessage(message: string) {
-    this.sendMessage({ type: CHAT_NETWORKING_CHAT_MESSAGE_TYPE, text: message });
+  /*
+   onSent is called with the id and timestamp the server assigned to the message, and onRejected with the reason if the
+   server did not send it (or the connection was lost first). The scope is only used if the server has proximity chat
+   enabled, and the channel if it has channels.
+  */
+  public sendChatMessage(
+    message: string,
+    options: {
+      onSent?: (messageId: number, timestamp: number) => void;
+      onRejected?: (message: string) => void;
+      scope?: ChatNetworkingScope;
+      channel?: string;
+    } = {},
+  ) {
+    const { onSent, onRejected, scope, channel } = options;
+    if (!onSent && !onRejected) {
+      this.sendMessage({ type: CHAT_NETWORKING_CHAT_MESSAGE_TYPE, text: message, scope, channel });
+      return;
+    }
+    const nonce = this.nextNonce++;
+    this.pendingSentCallbacks.set(nonce, { onSent, onRejected });
+    this.sendMessage({
+      type: CHAT_NETWORKING_CHAT_MESSAGE_TYPE,
+      text: message,
+      nonce,
+      scope,
+      channel,
+    });
+  }
+
+  // The server sends the channel's history once the client has joined
+  public joinChannel(channel: string) {
+    this.sendMessage({ type: CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE, channel });
+  }
+
+  public leaveChannel(channel: string) {
+    this.sendMessage({ type: CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE, channel });
+  }
+
+  // Sends a message that only the recipient receives
+  public sendDirectMessage(toId: number, message: string) {
+    this.sendMessage({ type: CHAT_NETWORKING_DIRECT_MESSAGE_TYPE, toId, text: message });
+  }
+
+  // Only the author of a message or a moderator can edit or delete it
+  public editChatMessage(messageId: number, text: string) {
+    this.sendMessage({ type: CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE, messageId, text });
+  }
+
+  public deleteChatMessage(messageId: number) {
+    this.sendMessage({ type: CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE, messageId });
   }
 
   private sendMessage(message: FromClientMessage): void {
@@ -53,6 +160,11 @@ export class ChatNetworkingClient extends ReconnectingWebSocket {
           break;
         case CHAT_NETWORKING_IDENTITY_MESSAGE_TYPE:
           console.log(`Client ID: ${parsed.id} assigned to self`);
+          this.config.onIdentity?.({
+            id: parsed.id,
+            moderator: parsed.moderator ?? false,
+            proximity: parsed.proximity ?? null,
+          });
           break;
         case CHAT_NETWORKING_CONNECTED_MESSAGE_TYPE:
           console.log(`Client ID: ${parsed.id} joined chat`);
@@ -68,6 +180,46 @@ export class ChatNetworkingClient extends ReconnectingWebSocket {
           this.config.clientChatUpdate(parsed.id, parsed);
           break;
         }
+        case CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE: {
+          const pending = this.pendingSentCallbacks.get(parsed.nonce);
+          if (pending) {
+            this.pendingSentCallbacks.delete(parsed.nonce);
+            pending.onSent?.(parsed.messageId, parsed.timestamp);
+          }
+          break;
+        }
+        case CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE: {
+          this.config.onChatMessageEdited?.(parsed.messageId, parsed.text);
+          break;
+        }
+        case CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE: {
+          this.config.onChatMessageDeleted?.(parsed.messageId);
+          break;
+        }
+        case CHAT_NETWORKING_DIRECT_MESSAGE_TYPE: {
+          this.config.onDirectMessage?.(parsed);
+          break;
+        }
+        case CHAT_NETWORKING_REJECTED_MESSAGE_TYPE: {
+          if (parsed.nonce !== undefined) {
+            const pending = this.pendingSentCallbacks.get(parsed.nonce);
+            this.pendingSentCallbacks.delete(parsed.nonce);
+            if (pending?.onRejected) {
+              pending.onRejected(parsed.message);
+              break;
+            }
+          }
+          this.config.onRequestRejected?.(parsed);
+          break;
+        }
+        case CHAT_NETWORKING_HISTORY_MESSAGE_TYPE: {
+          this.config.onChatHistory?.(parsed.messages, parsed.channel);
+          break;
+        }
+        case CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE: {
+          this.config.onChannels?.(parsed.channels);
+          break;
+        }
         default:
           console.warn("unknown message type received", parsed);
       }
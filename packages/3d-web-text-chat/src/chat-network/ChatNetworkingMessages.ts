@@ -6,10 +6,38 @@ export const CHAT_NETWORKING_SERVER_ERROR_MESSAGE_TYPE = "error";
 export const CHAT_NETWORKING_PING_MESSAGE_TYPE = "ping";
 export const CHAT_NETWORKING_PONG_MESSAGE_TYPE = "pong";
 export const CHAT_NETWORKING_CHAT_MESSAGE_TYPE = "chat";
+export const CHAT_NETWORKING_HISTORY_MESSAGE_TYPE = "history";
+export const CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE = "chat_ack";
+export const CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE = "chat_edit";
+export const CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE = "chat_delete";
+export const CHAT_NETWORKING_DIRECT_MESSAGE_TYPE = "direct";
+export const CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE = "channels";
+export const CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE = "channel_join";
+export const CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE = "channel_leave";
+export const CHAT_NETWORKING_REJECTED_MESSAGE_TYPE = "rejected";
+
+export const CHAT_NETWORKING_NEARBY_SCOPE = "nearby";
+export const CHAT_NETWORKING_GLOBAL_SCOPE = "global";
+
+/*
+ If the server has proximity chat enabled, messages are only delivered to users near the sender unless they are sent
+ with the global scope. Otherwise all messages are global.
+*/
+export type ChatNetworkingScope =
+  | typeof CHAT_NETWORKING_NEARBY_SCOPE
+  | typeof CHAT_NETWORKING_GLOBAL_SCOPE;
 
 export type ChatNetworkingIdentityMessage = {
   type: typeof CHAT_NETWORKING_IDENTITY_MESSAGE_TYPE;
   id: number;
+  // Moderators can edit and delete the messages of other users
+  moderator?: boolean;
+  // Set if the server has proximity chat enabled
+  proximity?: {
+    radius: number;
+    // Whether this client can send messages with the global scope
+    canSendGlobal: boolean;
+  };
 };
 
 export type ChatNetworkingConnectedMessage = {
@@ -35,6 +63,33 @@ export type ChatNetworkingServerError = {
   message: string;
 };
 
+export const CHAT_NETWORKING_MUTED_REJECTION_REASON = "MUTED";
+export const CHAT_NETWORKING_READ_ONLY_REJECTION_REASON = "READ_ONLY";
+export const CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON = "NOT_PERMITTED";
+export const CHAT_NETWORKING_UNKNOWN_RECIPIENT_REJECTION_REASON = "UNKNOWN_RECIPIENT";
+
+export type ChatNetworkingRejectionReason =
+  | typeof CHAT_NETWORKING_MUTED_REJECTION_REASON
+  | typeof CHAT_NETWORKING_READ_ONLY_REJECTION_REASON
+  | typeof CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON
+  | typeof CHAT_NETWORKING_UNKNOWN_RECIPIENT_REJECTION_REASON;
+
+// Sent to a client whose message the server did not carry out (e.g. a chat message from a muted client)
+export type ChatNetworkingRejectedMessage = {
+  type: typeof CHAT_NETWORKING_REJECTED_MESSAGE_TYPE;
+  // The type of the client message that was rejected
+  requestType: FromClientMessage["type"];
+  reason: ChatNetworkingRejectionReason;
+  // Explains the rejection to the user
+  message: string;
+  // The nonce of the rejected chat message, if it was sent with one
+  nonce?: number;
+  // The message that could not be edited or deleted
+  messageId?: number;
+  // The channel that could not be joined or posted in
+  channel?: string;
+};
+
 export type ChatNetworkingServerPingMessage = {
   type: typeof CHAT_NETWORKING_PING_MESSAGE_TYPE;
 };
@@ -42,7 +97,106 @@ export type ChatNetworkingServerPingMessage = {
 export type ChatNetworkingServerChatMessage = {
   type: typeof CHAT_NETWORKING_CHAT_MESSAGE_TYPE;
   id: number;
+  // Assigned by the server to identify the message (e.g. to edit or delete it)
+  messageId: number;
+  // Milliseconds since epoch, assigned by the server
+  timestamp: number;
+  text: string;
+  // The sender's username at the time the message was sent
+  username?: string;
+  // Only set if the server has proximity chat enabled
+  scope?: ChatNetworkingScope;
+  // Only set if the server has channels
+  channel?: string;
+};
+
+export type ChatNetworkingHistoryEntry = {
+  id: number;
+  messageId: number;
+  // The sender's username at the time the message was sent, as the sender may since have left or been renamed
+  username: string;
+  text: string;
+  // Milliseconds since epoch
+  timestamp: number;
+  edited?: boolean;
+  channel?: string;
+};
+
+/*
+ Sent after the identity message with the messages that were sent before the client joined (oldest first), and when
+ the client joins a channel with the messages that were sent in that channel
+*/
+export type ChatNetworkingHistoryMessage = {
+  type: typeof CHAT_NETWORKING_HISTORY_MESSAGE_TYPE;
+  messages: Array<ChatNetworkingHistoryEntry>;
+  // Set if the history is of only this channel
+  channel?: string;
+};
+
+// Who can join or post in a channel
+export type ChatNetworkingChannelPermission = "everyone" | "moderators";
+
+export type ChatNetworkingChannel = {
+  name: string;
+  // Who can join (and so read) the channel. Defaults to everyone.
+  join?: ChatNetworkingChannelPermission;
+  // Who of the members can post in the channel. Defaults to everyone.
+  post?: ChatNetworkingChannelPermission;
+  // Whether clients join the channel (if they can) when they connect. Defaults to true.
+  autoJoin?: boolean;
+};
+
+export type ChatNetworkingChannelState = {
+  name: string;
+  joined: boolean;
+  canJoin: boolean;
+  canPost: boolean;
+};
+
+// Sent after the identity message and whenever the client joins or leaves a channel, if the server has channels
+export type ChatNetworkingChannelsMessage = {
+  type: typeof CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE;
+  channels: Array<ChatNetworkingChannelState>;
+};
+
+// Sent to the sender of a chat message that included a nonce once the message has been sent to the other clients
+export type ChatNetworkingServerChatAckMessage = {
+  type: typeof CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE;
+  nonce: number;
+  messageId: number;
+  timestamp: number;
+};
+
+/*
+ Sent by the author (or a moderator) to change the text of a message. The server sends it on to all clients (including
+ the sender) once the change is accepted.
+*/
+export type ChatNetworkingChatEditMessage = {
+  type: typeof CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE;
+  messageId: number;
+  text: string;
+};
+
+// Sent by the author (or a moderator) to delete a message, and sent on to all clients in the same way as edits
+export type ChatNetworkingChatDeleteMessage = {
+  type: typeof CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE;
+  messageId: number;
+};
+
+/*
+ A private message that is only sent to the sender and the recipient. The sender's copy confirms that the message was
+ delivered. Direct messages are not kept in the history and cannot be edited or deleted.
+*/
+export type ChatNetworkingServerDirectMessage = {
+  type: typeof CHAT_NETWORKING_DIRECT_MESSAGE_TYPE;
+  // The sender
+  id: number;
+  toId: number;
+  messageId: number;
+  timestamp: number;
   text: string;
+  username?: string;
+  toUsername?: string;
 };
 
 export type FromServerMessage =
@@ -51,6 +205,13 @@ export type FromServerMessage =
   | ChatNetworkingDisconnectedMessage
   | ChatNetworkingServerPingMessage
   | ChatNetworkingServerChatMessage
+  | ChatNetworkingHistoryMessage
+  | ChatNetworkingServerChatAckMessage
+  | ChatNetworkingChatEditMessage
+  | ChatNetworkingChatDeleteMessage
+  | ChatNetworkingServerDirectMessage
+  | ChatNetworkingChannelsMessage
+  | ChatNetworkingRejectedMessage
   | ChatNetworkingServerError;
 
 export type ChatNetworkingClientPongMessage = {
@@ -65,9 +226,36 @@ export type ChatNetworkingClientAuthenticateMessage = {
 export type ChatNetworkingClientChatMessage = {
   type: typeof CHAT_NETWORKING_CHAT_MESSAGE_TYPE;
   text: string;
+  // If set, the server responds with a chat_ack message with this nonce
+  nonce?: number;
+  // Ignored if the server does not have proximity chat enabled. Defaults to nearby.
+  scope?: ChatNetworkingScope;
+  // Ignored if the server does not have channels. Defaults to the server's first channel.
+  channel?: string;
+};
+
+export type ChatNetworkingClientDirectMessage = {
+  type: typeof CHAT_NETWORKING_DIRECT_MESSAGE_TYPE;
+  toId: number;
+  text: string;
+};
+
+export type ChatNetworkingClientChannelJoinMessage = {
+  type: typeof CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE;
+  channel: string;
+};
+
+export type ChatNetworkingClientChannelLeaveMessage = {
+  type: typeof CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE;
+  channel: string;
 };
 
 export type FromClientMessage =
   | ChatNetworkingClientPongMessage
   | ChatNetworkingClientAuthenticateMessage
-  | ChatNetworkingClientChatMessage;
+  | ChatNetworkingClientChatMessage
+  | ChatNetworkingChatEditMessage
+  | ChatNetworkingChatDeleteMessage
+  | ChatNetworkingClientDirectMessage
+  | ChatNetworkingClientChannelJoinMessage
+  | ChatNetworkingClientChannelLeaveMessage;
@@ -1,18 +1,43 @@
 import WebSocket from "ws";
 
+import { ChatHistory, ChatHistoryOptions } from "./ChatHistory";
 import {
+  CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE,
   CHAT_NETWORKING_CHAT_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE,
+  CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE,
+  ChatNetworkingChannel,
+  ChatNetworkingChannelsMessage,
+  ChatNetworkingChatDeleteMessage,
+  ChatNetworkingChatEditMessage,
   CHAT_NETWORKING_CONNECTED_MESSAGE_TYPE,
+  CHAT_NETWORKING_DIRECT_MESSAGE_TYPE,
+  CHAT_NETWORKING_GLOBAL_SCOPE,
+  CHAT_NETWORKING_NEARBY_SCOPE,
   ChatNetworkingConnectedMessage,
   CHAT_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
   ChatNetworkingDisconnectedMessage,
   FromClientMessage,
+  ChatNetworkingServerChatAckMessage,
   ChatNetworkingServerChatMessage,
+  ChatNetworkingServerDirectMessage,
   FromServerMessage,
+  CHAT_NETWORKING_HISTORY_MESSAGE_TYPE,
+  ChatNetworkingHistoryMessage,
   CHAT_NETWORKING_IDENTITY_MESSAGE_TYPE,
   ChatNetworkingIdentityMessage,
   CHAT_NETWORKING_PONG_MESSAGE_TYPE,
+  ChatNetworkingScope,
   ChatNetworkingServerError,
+  CHAT_NETWORKING_MUTED_REJECTION_REASON,
+  CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+  CHAT_NETWORKING_READ_ONLY_REJECTION_REASON,
+  CHAT_NETWORKING_UNKNOWN_RECIPIENT_REJECTION_REASON,
+  CHAT_NETWORKING_REJECTED_MESSAGE_TYPE,
+  ChatNetworkingRejectedMessage,
   CHAT_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
 } from "./ChatNetworkingMessages";
 import { heartBeatRate, pingPongRate } from "./ChatNetworkingSettings";
@@ -20,18 +45,80 @@ import { heartBeatRate, pingPongRate } from "./ChatNetworkingSettings";
 export type ChatNetworkingServerClient = {
   socket: WebSocket;
   id: number | null;
+  // The session token that the client authenticated with
+  sessionToken: string | null;
   lastPong: number;
+  // Read-only clients receive chat but their messages are dropped and other clients are not told about them
+  readOnly: boolean;
+  // Moderators can edit and delete the messages of other users
+  moderator: boolean;
+  // The names of the channels the client has joined
+  channels: Set<string>;
 };
 
 const WebSocketOpenStatus = 1;
 
+// Clients that authenticate with the session token, or whose user has the username, are muted
+export type ChatNetworkingMuteIdentity = {
+  sessionToken?: string;
+  username?: string;
+};
+
+export type ChatNetworkingProximityOptions = {
+  // Nearby messages are only delivered to users within this distance of the sender
+  radius: number;
+  // If set, only moderators can send messages to everyone
+  globalRequiresModerator?: boolean;
+  // The current position of the user with the id, or null if it is not known
+  getClientPosition: (clientId: number) => { x: number; y: number; z: number } | null;
+};
+
 export type ChatNetworkingServerOptions = {
-  getChatUserIdentity: (sessionToken: string) => { id: number } | null;
+  getChatUserIdentity: (
+    sessionToken: string,
+  ) => { id: number; readOnly?: boolean; moderator?: boolean } | null;
+  // Called for each chat message that is sent to the clients (e.g. to record the chat)
+  onChatMessage?: (clientId: number, text: string) => void;
+  // The current username of the user with the id, which is sent with (and kept in the history of) their messages
+  getUsername?: (clientId: number) => string | null;
+  // If set, recent messages are kept and sent to clients when they join
+  history?: ChatHistoryOptions;
+  // If set, messages are only delivered to users near the sender unless they are sent with the global scope
+  proximity?: ChatNetworkingProximityOptions;
+  /*
+   If set, each message is sent in one of these channels and only delivered to its members. Messages that do not name
+   a channel are sent in the first channel.
+  */
+  channels?: Array<ChatNetworkingChannel>;
 };
 
+type EditableMessage = {
+  // null if the author is not known (e.g. the message was loaded from a persisted history)
+  authorId: number | null;
+  // The clients that received the message, or null if it was sent to everyone
+  recipientIds: Set<number> | null;
+};
+
+const unknownUsername = "Unknown";
+
+// The number of recent messages that can be edited or deleted
+const maxEditableMessages = 1000;
+
 export class ChatNetworkingServer {
   private allClients = new Set<ChatNetworkingServerClient>();
   private clientsById = new Map<number, ChatNetworkingServerClient>();
+  /*
+   The time (milliseconds since epoch) that each mute expires, or null if it does not expire. Mutes are kept by identity
+   rather than client id so that they still apply after the user reconnects.
+  */
+  private mutesBySessionToken = new Map<string, number | null>();
+  private mutesByUsername = new Map<string, number | null>();
+  private history: ChatHistory | null = null;
+  private channelsByName = new Map<string, ChatNetworkingChannel>();
+
+  private nextMessageId = 1;
+  // Recent messages by message id. Only moderators can change messages without a known author.
+  private editableMessages = new Map<number, EditableMessage>();
 
   private pingClientsIntervalTimer: NodeJS.Timeout;
   private heartbeatIntervalTimer: NodeJS.Timeout;
@@ -39,6 +126,17 @@ export class ChatNetworkingServer {
   constructor(private options: ChatNetworkingServerOptions) {
     this.pingClientsIntervalTimer = setInterval(this.pingClients.bind(this), pingPongRate);
     this.heartbeatIntervalTimer = setInterval(this.heartBeat.bind(this), heartBeatRate);
+    for (const channel of options.channels ?? []) {
+      this.channelsByName.set(channel.name, channel);
+    }
+    if (options.history) {
+      this.history = new ChatHistory(options.history);
+      for (const entry of this.history.getEntries()) {
+        // Message ids are not reused so that clients do not confuse new messages with those in the history
+        this.nextMessageId = Math.max(this.nextMessageId, entry.messageId + 1);
+        this.editableMessages.set(entry.messageId, { authorId: null, recipientIds: null });
+      }
+    }
   }
 
   private heartBeat() {
@@ -67,6 +165,25 @@ export class ChatNetworkingServer {
     }
   }
 
+  // Sends to the recipients of a message (and its author) so that changes to it are not seen by anyone else
+  private sendToMessageRecipients(message: FromServerMessage, editableMessage: EditableMessage) {
+    if (editableMessage.recipientIds === null) {
+      this.sendToAuthenticated(message);
+      return;
+    }
+    const stringified = JSON.stringify(message);
+    const clientIds = new Set(editableMessage.recipientIds);
+    if (editableMessage.authorId !== null) {
+      clientIds.add(editableMessage.authorId);
+    }
+    for (const clientId of clientIds) {
+      const client = this.clientsById.get(clientId);
+      if (client && client.socket.readyState === WebSocketOpenStatus) {
+        client.socket.send(stringified);
+      }
+    }
+  }
+
   private handleDisconnectedClient(client: ChatNetworkingServerClient) {
     if (!this.allClients.has(client)) {
       return;
@@ -74,6 +191,9 @@ export class ChatNetworkingServer {
     this.allClients.delete(client);
     if (client.id) {
       this.clientsById.delete(client.id);
+      if (client.readOnly) {
+        return;
+      }
       const disconnectMessage: ChatNetworkingDisconnectedMessage = {
         id: client.id,
         type: CHAT_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
@@ -86,17 +206,22 @@ export class ChatNetworkingServer {
     this.sendToAuthenticated({ type: "ping" });
   }
 
-  public connectClient(socket: WebSocket) {
+  // initialMessage is a message that was already received from the socket before it was passed to this server
+  public connectClient(socket: WebSocket, initialMessage?: WebSocket.Data) {
     console.log(`Client joined chat.`);
 
     const client: ChatNetworkingServerClient = {
       id: null,
+      sessionToken: null,
       lastPong: Date.now(),
       socket: socket as WebSocket,
+      readOnly: false,
+      moderator: false,
+      channels: new Set(),
     };
     this.allClients.add(client);
 
-    socket.on("message", (message: WebSocket.Data) => {
+    const handleMessage = (message: WebSocket.Data) => {
       let parsed;
       try {
         parsed = JSON.parse(message as string) as FromClientMessage;
@@ -123,13 +248,33 @@ export class ChatNetworkingServer {
             return;
           }
           client.id = authResponse.id;
+          client.sessionToken = sessionToken;
+          client.readOnly = authResponse.readOnly ?? false;
+          client.moderator = authResponse.moderator ?? false;
+          for (const channel of this.channelsByName.values()) {
+            if (channel.autoJoin !== false && this.canJoinChannel(client, channel)) {
+              client.channels.add(channel.name);
+            }
+          }
           this.clientsById.set(client.id, client);
           socket.send(
             JSON.stringify({
               type: CHAT_NETWORKING_IDENTITY_MESSAGE_TYPE,
               id: client.id,
+              moderator: client.moderator || undefined,
+              proximity: this.options.proximity && {
+                radius: this.options.proximity.radius,
+                canSendGlobal: this.canSendGlobal(client),
+              },
             } as ChatNetworkingIdentityMessage),
           );
+          if (this.channelsByName.size > 0) {
+            this.sendChannels(client);
+          }
+          this.sendHistory(client);
+          if (client.readOnly) {
+            return;
+          }
           const connectedMessage = {
             type: CHAT_NETWORKING_CONNECTED_MESSAGE_TYPE,
             id: client.id,
@@ -145,28 +290,546 @@ export class ChatNetworkingServer {
             client.lastPong = Date.now();
             break;
 
-          case CHAT_NETWORKING_CHAT_MESSAGE_TYPE:
-            const asChatMessage: ChatNetworkingServerChatMessage = {
-              type: CHAT_NETWORKING_CHAT_MESSAGE_TYPE,
-              id: client.id,
-              text: parsed.text,
-            };
-            this.sendToAuthenticated(asChatMessage, client);
+          case CHAT_NETWORKING_CHAT_MESSAGE_TYPE: {
+            if (client.readOnly) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_READ_ONLY_REJECTION_REASON,
+                message: "Spectators cannot send messages",
+                nonce: parsed.nonce,
+              });
+              break;
+            }
+            if (this.isClientMuted(client.id)) {
+              console.log(`Dropped chat message from muted client ${client.id}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_MUTED_REJECTION_REASON,
+                message: "You are muted",
+                nonce: parsed.nonce,
+              });
+              break;
+            }
+            if (
+              this.options.proximity &&
+              parsed.scope === CHAT_NETWORKING_GLOBAL_SCOPE &&
+              !this.canSendGlobal(client)
+            ) {
+              console.log(`Dropped global chat message from client ${client.id}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+                message: "You cannot message everyone",
+                nonce: parsed.nonce,
+              });
+              break;
+            }
+            const channelName = this.resolveChannelName(parsed.channel);
+            if (channelName !== undefined && !this.canPostInChannel(client, channelName)) {
+              console.log(
+                `Dropped chat message from client ${client.id} in channel ${channelName}`,
+              );
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+                message: client.channels.has(channelName)
+                  ? `You cannot post in #${channelName}`
+                  : `Join #${channelName} to send messages in it`,
+                nonce: parsed.nonce,
+                channel: channelName,
+              });
+              break;
+            }
+            this.relayChatMessage(
+              client.id,
+              parsed.text,
+              client,
+              parsed.nonce,
+              parsed.scope ?? CHAT_NETWORKING_NEARBY_SCOPE,
+              channelName,
+            );
+            break;
+          }
+
+          case CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE:
+            if (client.readOnly) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_READ_ONLY_REJECTION_REASON,
+                message: "Spectators cannot edit messages",
+                messageId: parsed.messageId,
+              });
+              break;
+            }
+            if (this.isClientMuted(client.id)) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_MUTED_REJECTION_REASON,
+                message: "You are muted",
+                messageId: parsed.messageId,
+              });
+              break;
+            }
+            if (!this.canChangeMessage(client, parsed.messageId)) {
+              console.log(`Client ${client.id} cannot edit message ${parsed.messageId}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+                message: "You cannot edit this message",
+                messageId: parsed.messageId,
+              });
+              break;
+            }
+            this.editChatMessage(parsed.messageId, parsed.text);
+            break;
+
+          case CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE:
+            if (client.readOnly) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_READ_ONLY_REJECTION_REASON,
+                message: "Spectators cannot delete messages",
+                messageId: parsed.messageId,
+              });
+              break;
+            }
+            if (!this.canChangeMessage(client, parsed.messageId)) {
+              console.log(`Client ${client.id} cannot delete message ${parsed.messageId}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+                message: "You cannot delete this message",
+                messageId: parsed.messageId,
+              });
+              break;
+            }
+            this.deleteChatMessage(parsed.messageId);
+            break;
+
+          case CHAT_NETWORKING_DIRECT_MESSAGE_TYPE:
+            if (client.readOnly) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_READ_ONLY_REJECTION_REASON,
+                message: "Spectators cannot send messages",
+              });
+              break;
+            }
+            if (this.isClientMuted(client.id)) {
+              console.log(`Dropped direct message from muted client ${client.id}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_MUTED_REJECTION_REASON,
+                message: "You are muted",
+              });
+              break;
+            }
+            if (!this.sendDirectMessage(client.id, parsed.toId, parsed.text)) {
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_UNKNOWN_RECIPIENT_REJECTION_REASON,
+                message: "The recipient is not in the chat",
+              });
+            }
+            break;
+
+          case CHAT_NETWORKING_CHANNEL_JOIN_MESSAGE_TYPE: {
+            const channel = this.channelsByName.get(parsed.channel);
+            if (!channel || !this.canJoinChannel(client, channel)) {
+              console.log(`Client ${client.id} cannot join channel ${parsed.channel}`);
+              this.sendRejection(client, {
+                requestType: parsed.type,
+                reason: CHAT_NETWORKING_NOT_PERMITTED_REJECTION_REASON,
+                message: `You cannot join #${parsed.channel}`,
+                channel: parsed.channel,
+              });
+              break;
+            }
+            if (!client.channels.has(channel.name)) {
+              client.channels.add(channel.name);
+              this.sendChannels(client);
+              this.sendHistory(client, channel.name);
+            }
+            break;
+          }
+
+          case CHAT_NETWORKING_CHANNEL_LEAVE_MESSAGE_TYPE:
+            if (client.channels.delete(parsed.channel)) {
+              this.sendChannels(client);
+            }
             break;
 
           default:
             console.error(`Unhandled message: ${JSON.stringify(parsed)}`);
         }
       }
-    });
+    };
+    socket.on("message", handleMessage);
 
     socket.on("close", () => {
       console.log("Client disconnected from Chat", client.id);
       this.handleDisconnectedClient(client);
     });
+
+    if (initialMessage !== undefined) {
+      handleMessage(initialMessage);
+    }
+  }
+
+  private sendRejection(
+    client: ChatNetworkingServerClient,
+    rejection: Omit<ChatNetworkingRejectedMessage, "type">,
+  ) {
+    if (client.socket.readyState === WebSocketOpenStatus) {
+      client.socket.send(
+        JSON.stringify({
+          type: CHAT_NETWORKING_REJECTED_MESSAGE_TYPE,
+          ...rejection,
+        } as ChatNetworkingRejectedMessage),
+      );
+    }
+  }
+
+  // The session token and username of the client, so that moderation of it outlasts its connection
+  private getClientIdentity(clientId: number): ChatNetworkingMuteIdentity {
+    return {
+      sessionToken: this.clientsById.get(clientId)?.sessionToken ?? undefined,
+      username: this.options.getUsername?.(clientId) ?? undefined,
+    };
+  }
+
+  /*
+   Messages sent by the client are dropped, including after it reconnects with the same session token or as the same
+   user. The mute does not expire if no duration is given. Returns false if the client's identity is not known.
+  */
+  public muteClient(clientId: number, durationMilliseconds?: number): boolean {
+    const identity = this.getClientIdentity(clientId);
+    if (identity.sessionToken === undefined && identity.username === undefined) {
+      return false;
+    }
+    this.muteIdentity(identity, durationMilliseconds);
+    return true;
+  }
+
+  public unmuteClient(clientId: number) {
+    this.unmuteIdentity(this.getClientIdentity(clientId));
+  }
+
+  // Mutes the session token and/or username. The mute does not expire if no duration is given.
+  public muteIdentity(identity: ChatNetworkingMuteIdentity, durationMilliseconds?: number) {
+    const expiresAt = durationMilliseconds !== undefined ? Date.now() + durationMilliseconds : null;
+    if (identity.sessionToken !== undefined) {
+      this.mutesBySessionToken.set(identity.sessionToken, expiresAt);
+    }
+    if (identity.username !== undefined) {
+      this.mutesByUsername.set(identity.username, expiresAt);
+    }
+  }
+
+  public unmuteIdentity(identity: ChatNetworkingMuteIdentity) {
+    if (identity.sessionToken !== undefined) {
+      this.mutesBySessionToken.delete(identity.sessionToken);
+    }
+    if (identity.username !== undefined) {
+      this.mutesByUsername.delete(identity.username);
+    }
+  }
+
+  public isClientMuted(clientId: number): boolean {
+    const { sessionToken, username } = this.getClientIdentity(clientId);
+    return (
+      (sessionToken !== undefined && this.isMuted(this.mutesBySessionToken, sessionToken)) ||
+      (username !== undefined && this.isMuted(this.mutesByUsername, username))
+    );
+  }
+
+  private isMuted(mutes: Map<string, number | null>, key: string): boolean {
+    const expiresAt = mutes.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      mutes.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  /*
+   Sends a chat message to the connected clients as if it were sent by the client with the given id (e.g. a
+   server-driven user that is not connected to the chat). The scope is only used if proximity chat is enabled.
+  */
+  public sendChatMessage(
+    fromClientId: number,
+    text: string,
+    scope: ChatNetworkingScope = CHAT_NETWORKING_GLOBAL_SCOPE,
+    channel?: string,
+  ): number {
+    return this.relayChatMessage(
+      fromClientId,
+      text,
+      this.clientsById.get(fromClientId),
+      undefined,
+      scope,
+      this.resolveChannelName(channel),
+    );
+  }
+
+  // The channel a message is sent in, or undefined if the server does not have channels
+  private resolveChannelName(channelName?: string): string | undefined {
+    if (this.channelsByName.size === 0) {
+      return undefined;
+    }
+    return channelName ?? this.channelsByName.keys().next().value;
+  }
+
+  private canJoinChannel(
+    client: ChatNetworkingServerClient,
+    channel: ChatNetworkingChannel,
+  ): boolean {
+    return channel.join !== "moderators" || client.moderator;
+  }
+
+  private canPostInChannel(client: ChatNetworkingServerClient, channelName: string): boolean {
+    const channel = this.channelsByName.get(channelName);
+    if (!channel || !client.channels.has(channelName)) {
+      return false;
+    }
+    return channel.post !== "moderators" || client.moderator;
+  }
+
+  private sendChannels(client: ChatNetworkingServerClient) {
+    if (client.socket.readyState !== WebSocketOpenStatus) {
+      return;
+    }
+    const channelsMessage: ChatNetworkingChannelsMessage = {
+      type: CHAT_NETWORKING_CHANNELS_MESSAGE_TYPE,
+      channels: Array.from(this.channelsByName.values()).map((channel) => ({
+        name: channel.name,
+        joined: client.channels.has(channel.name),
+        canJoin: this.canJoinChannel(client, channel),
+        // Whether the client can post once it has joined
+        canPost: !client.readOnly && (channel.post !== "moderators" || client.moderator),
+      })),
+    };
+    client.socket.send(JSON.stringify(channelsMessage));
+  }
+
+  // Sends the history of the channels the client has joined, or of only the given channel
+  private sendHistory(client: ChatNetworkingServerClient, channelName?: string) {
+    if (!this.history || client.socket.readyState !== WebSocketOpenStatus) {
+      return;
+    }
+    const historyEntries = this.history.getEntries().filter((entry) => {
+      if (channelName !== undefined) {
+        return entry.channel === channelName;
+      }
+      // Messages sent before the server had channels are shown to everyone
+      return entry.channel === undefined || client.channels.has(entry.channel);
+    });
+    if (historyEntries.length === 0 && channelName === undefined) {
+      return;
+    }
+    const historyMessage: ChatNetworkingHistoryMessage = {
+      type: CHAT_NETWORKING_HISTORY_MESSAGE_TYPE,
+      messages: historyEntries,
+      channel: channelName,
+    };
+    client.socket.send(JSON.stringify(historyMessage));
+  }
+
+  private canSendGlobal(client: ChatNetworkingServerClient): boolean {
+    return !this.options.proximity?.globalRequiresModerator || client.moderator;
+  }
+
+  /*
+   The clients within the proximity radius of the client, or none if its position is not known. Read-only clients (e.g.
+   spectators) have no position of their own, so they receive nearby messages wherever they are sent.
+  */
+  private getNearbyClients(clientId: number): Array<ChatNetworkingServerClient> {
+    const proximity = this.options.proximity!;
+    const position = proximity.getClientPosition(clientId);
+    if (!position) {
+      return [];
+    }
+    const nearbyClients: Array<ChatNetworkingServerClient> = [];
+    for (const [otherClientId, otherClient] of this.clientsById) {
+      if (otherClient.readOnly) {
+        nearbyClients.push(otherClient);
+        continue;
+      }
+      const otherPosition = proximity.getClientPosition(otherClientId);
+      if (!otherPosition) {
+        continue;
+      }
+      const dx = otherPosition.x - position.x;
+      const dy = otherPosition.y - position.y;
+      const dz = otherPosition.z - position.z;
+      if (dx * dx + dy * dy + dz * dz <= proximity.radius * proximity.radius) {
+        nearbyClients.push(otherClient);
+      }
+    }
+    return nearbyClients;
+  }
+
+  // Returns the id assigned to the message
+  private relayChatMessage(
+    fromClientId: number,
+    text: string,
+    senderClient: ChatNetworkingServerClient | undefined,
+    nonce: number | undefined,
+    requestedScope: ChatNetworkingScope,
+    channel: string | undefined,
+  ): number {
+    const messageId = this.nextMessageId++;
+    const timestamp = Date.now();
+    const username = this.options.getUsername?.(fromClientId) ?? undefined;
+    const scope = this.options.proximity ? requestedScope : undefined;
+    const chatMessage: ChatNetworkingServerChatMessage = {
+      type: CHAT_NETWORKING_CHAT_MESSAGE_TYPE,
+      id: fromClientId,
+      messageId,
+      timestamp,
+      text,
+      username,
+      scope,
+      channel,
+    };
+    // null if the message is sent to everyone
+    let recipients: Array<ChatNetworkingServerClient> | null = null;
+    if (scope === CHAT_NETWORKING_NEARBY_SCOPE) {
+      recipients = this.getNearbyClients(fromClientId);
+    }
+    if (channel !== undefined) {
+      recipients = (recipients ?? Array.from(this.clientsById.values())).filter((client) =>
+        client.channels.has(channel),
+      );
+    }
+    let recipientIds: Set<number> | null = null;
+    if (recipients !== null) {
+      recipientIds = new Set();
+      const stringified = JSON.stringify(chatMessage);
+      for (const client of recipients) {
+        if (client !== senderClient && client.socket.readyState === WebSocketOpenStatus) {
+          client.socket.send(stringified);
+          recipientIds.add(client.id!);
+        }
+      }
+    } else {
+      this.sendToAuthenticated(chatMessage, senderClient);
+    }
+    if (nonce !== undefined && senderClient?.socket.readyState === WebSocketOpenStatus) {
+      senderClient.socket.send(
+        JSON.stringify({
+          type: CHAT_NETWORKING_CHAT_ACK_MESSAGE_TYPE,
+          nonce,
+          messageId,
+          timestamp,
+        } as ChatNetworkingServerChatAckMessage),
+      );
+    }
+    this.editableMessages.set(messageId, { authorId: fromClientId, recipientIds });
+    if (this.editableMessages.size > maxEditableMessages) {
+      // Maps iterate in insertion order, so the first key is the oldest message
+      const oldestMessageId = this.editableMessages.keys().next().value as number;
+      this.editableMessages.delete(oldestMessageId);
+    }
+    if (scope !== CHAT_NETWORKING_NEARBY_SCOPE) {
+      // Nearby messages are not kept as the users that join later were not near the sender
+      this.history?.add({
+        id: fromClientId,
+        messageId,
+        username: username ?? unknownUsername,
+        text,
+        timestamp,
+        channel,
+      });
+    }
+    this.options.onChatMessage?.(fromClientId, text);
+    return messageId;
+  }
+
+  /*
+   Sends a message to only the recipient and the sender (if they are connected). Returns false if the recipient is not
+   connected to this server.
+  */
+  public sendDirectMessage(fromClientId: number, toClientId: number, text: string): boolean {
+    const recipient = this.clientsById.get(toClientId);
+    if (!recipient || toClientId === fromClientId) {
+      console.log(`Dropped direct message from ${fromClientId} to client ${toClientId}`);
+      return false;
+    }
+    const directMessage: ChatNetworkingServerDirectMessage = {
+      type: CHAT_NETWORKING_DIRECT_MESSAGE_TYPE,
+      id: fromClientId,
+      toId: toClientId,
+      messageId: this.nextMessageId++,
+      timestamp: Date.now(),
+      text,
+      username: this.options.getUsername?.(fromClientId) ?? undefined,
+      toUsername: this.options.getUsername?.(toClientId) ?? undefined,
+    };
+    const stringified = JSON.stringify(directMessage);
+    for (const client of [recipient, this.clientsById.get(fromClientId)]) {
+      if (client && client.socket.readyState === WebSocketOpenStatus) {
+        client.socket.send(stringified);
+      }
+    }
+    return true;
+  }
+
+  private canChangeMessage(client: ChatNetworkingServerClient, messageId: number): boolean {
+    const editableMessage = this.editableMessages.get(messageId);
+    if (!editableMessage) {
+      return false;
+    }
+    return client.moderator || editableMessage.authorId === client.id;
+  }
+
+  // Changes the text of a recent message for the clients that received it. Returns false if it cannot be edited.
+  public editChatMessage(messageId: number, text: string): boolean {
+    const editableMessage = this.editableMessages.get(messageId);
+    if (!editableMessage) {
+      return false;
+    }
+    this.history?.edit(messageId, text);
+    const editMessage: ChatNetworkingChatEditMessage = {
+      type: CHAT_NETWORKING_CHAT_EDIT_MESSAGE_TYPE,
+      messageId,
+      text,
+    };
+    this.sendToMessageRecipients(editMessage, editableMessage);
+    return true;
+  }
+
+  // Removes a recent message for the clients that received it. Returns false if it cannot be deleted.
+  public deleteChatMessage(messageId: number): boolean {
+    const editableMessage = this.editableMessages.get(messageId);
+    if (!editableMessage) {
+      return false;
+    }
+    this.editableMessages.delete(messageId);
+    this.history?.delete(messageId);
+    const deleteMessage: ChatNetworkingChatDeleteMessage = {
+      type: CHAT_NETWORKING_CHAT_DELETE_MESSAGE_TYPE,
+      messageId,
+    };
+    this.sendToMessageRecipients(deleteMessage, editableMessage);
+    return true;
+  }
+
+  // Removes all messages from the history (e.g. after moderation). Clients that already received them keep them.
+  public clearHistory() {
+    this.history?.clear();
   }
 
   public disconnectClientId(clientId: number) {
+    // The user has left - their id may be reused by another user, who must not be able to change their messages
+    for (const editableMessage of this.editableMessages.values()) {
+      if (editableMessage.authorId === clientId) {
+        editableMessage.authorId = null;
+      }
+    }
     const client = this.clientsById.get(clientId);
     if (client) {
       client.socket.close();
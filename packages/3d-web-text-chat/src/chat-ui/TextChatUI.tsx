@@ -22,14 +22,72 @@ export const DEFAULT_HSL_OPTIONS: StringToHslOptions = {
 
 const ForwardedChatUIComponent = forwardRef(ChatUIComponent);
 
+// Nearby messages are only delivered to users near the sender (if the server has proximity chat enabled)
+export type ChatUIScope = "nearby" | "global";
+
+export type ChatUIMessage = {
+  username: string;
+  message: string;
+  // Assigned by the server. Messages without an id cannot be edited or deleted.
+  messageId?: number;
+  // The time the server received the message
+  timestamp?: number;
+  // Whether the message was sent by this client
+  own?: boolean;
+  edited?: boolean;
+  // Direct messages are only seen by the sender and the recipient
+  direct?: boolean;
+  // The recipient of a direct message sent by this client
+  recipientUsername?: string;
+  // Shown without a username (e.g. to explain why a message could not be sent)
+  notice?: boolean;
+  // Only set if the server has proximity chat enabled
+  scope?: ChatUIScope;
+  // Messages without a channel (e.g. direct messages) are shown in every channel
+  channel?: string;
+};
+
+export type ChatUIChannel = {
+  name: string;
+  joined: boolean;
+  canJoin: boolean;
+  // Whether messages can be sent in the channel once it has been joined
+  canPost: boolean;
+};
+
 export type ChatUIInstance = {
-  addMessage: (username: string, message: string) => void;
+  addMessage: (message: ChatUIMessage) => void;
+  // Replaces the messages of only the channel if one is given
+  setMessages: (messages: Array<ChatUIMessage>, channel?: string) => void;
+  editMessage: (messageId: number, text: string) => void;
+  deleteMessage: (messageId: number) => void;
 };
 
 export type TextChatUIProps = {
   holderElement: HTMLElement;
   clientname: string;
-  sendMessageToServerMethod: (message: string) => void;
+  /*
+   May resolve with the id and timestamp the server assigned to the message so that it can later be edited, or reject
+   if the message was not sent, which replaces it with a notice of the error. The scope is only set if proximity chat
+   was enabled with setProximity, and the channel if there are channels (see setChannels).
+  */
+  sendMessageToServerMethod: (
+    message: string,
+    scope?: ChatUIScope,
+    channel?: string,
+  ) => void | Promise<{ messageId: number; timestamp: number }>;
+  // If not provided, messages cannot be edited or deleted
+  editMessageOnServerMethod?: (messageId: number, text: string) => void;
+  deleteMessageOnServerMethod?: (messageId: number) => void;
+  /*
+   If provided, messages of the form "/w <username> <message>" are sent only to that user. They are not shown until the
+   server confirms the delivery (by calling addTextMessage with direct set).
+  */
+  sendDirectMessageToServerMethod?: (recipientId: number, message: string) => void;
+  getDirectMessageRecipients?: () => Array<{ id: number; username: string }>;
+  // If not provided, the channel switcher does not allow joining or leaving channels
+  joinChannelMethod?: (channel: string) => void;
+  leaveChannelMethod?: (channel: string) => void;
   visibleByDefault?: boolean;
   stringToHslOptions?: StringToHslOptions;
 };
@@ -37,10 +95,66 @@ export type TextChatUIProps = {
 export class TextChatUI {
   private root: Root;
   private appRef = createRef<ChatUIInstance>();
+  private canModerate = false;
+  private proximity: { radius: number; canSendGlobal: boolean } | null = null;
+  private channels: Array<ChatUIChannel> = [];
+
+  public addTextMessage(
+    username: string,
+    message: string,
+    details?: Omit<ChatUIMessage, "username" | "message">,
+  ) {
+    if (this.appRef.current) {
+      this.appRef.current.addMessage({ username, message, ...details });
+    }
+  }
+
+  public editTextMessage(messageId: number, text: string) {
+    if (this.appRef.current) {
+      this.appRef.current.editMessage(messageId, text);
+    }
+  }
+
+  public deleteTextMessage(messageId: number) {
+    if (this.appRef.current) {
+      this.appRef.current.deleteMessage(messageId);
+    }
+  }
+
+  /*
+   Replaces the shown messages (e.g. with the history the server sent when joining) without revealing the chat. If a
+   channel is given, only the messages of that channel are replaced.
+  */
+  public setHistory(messages: Array<ChatUIMessage>, channel?: string) {
+    if (this.appRef.current) {
+      this.appRef.current.setMessages(messages, channel);
+    }
+  }
+
+  // Shows a channel switcher with the joined channels (and those that can be joined) if there are any channels
+  public setChannels(channels: Array<ChatUIChannel>) {
+    this.channels = channels;
+    if (this.appRef.current) {
+      this.init();
+    }
+  }
+
+  // Moderators can edit and delete the messages of other users
+  public setCanModerate(canModerate: boolean) {
+    this.canModerate = canModerate;
+    if (this.appRef.current) {
+      this.init();
+    }
+  }
 
-  public addTextMessage(username: string, message: string) {
+  /*
+   If set, messages are sent to nearby users unless they start with "/shout " (which sends them to everyone if
+   canSendGlobal is set)
+  */
+  public setProximity(proximity: { radius: number; canSendGlobal: boolean } | null) {
+    this.proximity = proximity;
     if (this.appRef.current) {
-      this.appRef.current.addMessage(username, message);
+      this.init();
     }
   }
 
@@ -68,6 +182,15 @@ export class TextChatUI {
           ref={this.appRef}
           clientName={this.config.clientname}
           sendMessageToServer={this.config.sendMessageToServerMethod}
+          editMessageOnServer={this.config.editMessageOnServerMethod}
+          deleteMessageOnServer={this.config.deleteMessageOnServerMethod}
+          sendDirectMessageToServer={this.config.sendDirectMessageToServerMethod}
+          getDirectMessageRecipients={this.config.getDirectMessageRecipients}
+          canModerate={this.canModerate}
+          proximity={this.proximity}
+          channels={this.channels}
+          joinChannel={this.config.joinChannelMethod}
+          leaveChannel={this.config.leaveChannelMethod}
           visibleByDefault={this.config.visibleByDefault}
           stringToHslOptions={this.config.stringToHslOptions}
         />,
@@ -0,0 +1,76 @@
+import { FC, MouseEvent } from "react";
+
+import { ChatUIChannel } from "../../TextChatUI";
+
+import styles from "./ChannelSwitcher.module.css";
+
+type ChannelSwitcherProps = {
+  channels: Array<ChatUIChannel>;
+  activeChannel: string | null;
+  // The number of messages received in each channel since it was last shown
+  unreadCounts: Map<string, number>;
+  onSelectChannel: (channel: string) => void;
+  onJoinChannel?: (channel: string) => void;
+  onLeaveChannel?: (channel: string) => void;
+};
+
+export const ChannelSwitcher: FC<ChannelSwitcherProps> = ({
+  channels,
+  activeChannel,
+  unreadCounts,
+  onSelectChannel,
+  onJoinChannel,
+  onLeaveChannel,
+}) => {
+  const handleLeave = (e: MouseEvent, channel: string) => {
+    // Prevents the channel from being selected as it is left
+    e.stopPropagation();
+    onLeaveChannel?.(channel);
+  };
+
+  return (
+    <div className={styles.channelSwitcher}>
+      {channels
+        .filter((channel) => channel.joined)
+        .map((channel) => {
+          const unreadCount = unreadCounts.get(channel.name) ?? 0;
+          return (
+            <div
+              key={channel.name}
+              className={
+                channel.name === activeChannel
+                  ? `${styles.channel} ${styles.activeChannel}`
+                  : styles.channel
+              }
+              onClick={() => onSelectChannel(channel.name)}
+            >
+              #{channel.name}
+              {unreadCount > 0 && <span className={styles.unreadCount}>{unreadCount}</span>}
+              {onLeaveChannel && (
+                <span
+                  className={styles.channelButton}
+                  title="Leave channel"
+                  onClick={(e) => handleLeave(e, channel.name)}
+                >
+                  ×
+                </span>
+              )}
+            </div>
+          );
+        })}
+      {onJoinChannel &&
+        channels
+          .filter((channel) => !channel.joined && channel.canJoin)
+          .map((channel) => (
+            <div
+              key={channel.name}
+              className={`${styles.channel} ${styles.joinableChannel}`}
+              title="Join channel"
+              onClick={() => onJoinChannel(channel.name)}
+            >
+              + #{channel.name}
+            </div>
+          ))}
+    </div>
+  );
+};
@@ -8,35 +8,73 @@ import {
   MouseEvent,
 } from "react";
 
-import { useClickOutside } from "../../helpers";
+import { findDirectMessageRecipient, useClickOutside } from "../../helpers";
 import ChatIcon from "../../icons/Chat.svg";
 import PinButton from "../../icons/Pin.svg";
 import { gradient } from "../../images/gradient";
-import { StringToHslOptions, type ChatUIInstance } from "../../TextChatUI";
+import {
+  ChatUIChannel,
+  ChatUIMessage,
+  ChatUIScope,
+  StringToHslOptions,
+  type ChatUIInstance,
+} from "../../TextChatUI";
+import { ChannelSwitcher } from "../Channels/ChannelSwitcher";
 import { InputBox } from "../Input/InputBox";
-import { Messages } from "../Messages/Messages";
+import { DisplayedMessage, Messages } from "../Messages/Messages";
 
 import styles from "./TextChatUIComponent.module.css";
 type ChatUIProps = {
   clientName: string;
-  sendMessageToServer: (message: string) => void;
+  sendMessageToServer: (
+    message: string,
+    scope?: ChatUIScope,
+    channel?: string,
+  ) => void | Promise<{ messageId: number; timestamp: number }>;
+  editMessageOnServer?: (messageId: number, text: string) => void;
+  deleteMessageOnServer?: (messageId: number) => void;
+  sendDirectMessageToServer?: (recipientId: number, message: string) => void;
+  getDirectMessageRecipients?: () => Array<{ id: number; username: string }>;
+  canModerate: boolean;
+  proximity: { radius: number; canSendGlobal: boolean } | null;
+  channels: Array<ChatUIChannel>;
+  joinChannel?: (channel: string) => void;
+  leaveChannel?: (channel: string) => void;
   visibleByDefault?: boolean;
   stringToHslOptions?: StringToHslOptions;
 };
 
 const MAX_MESSAGES = 50;
 const SECONDS_TO_FADE_OUT = 6;
+const DIRECT_MESSAGE_PREFIX = "/w ";
+const SHOUT_PREFIX = "/shout ";
+
+// Keeps the most recent MAX_MESSAGES of each channel so that busy channels do not push out the messages of others
+function limitMessagesPerChannel(messages: Array<DisplayedMessage>): Array<DisplayedMessage> {
+  const countsByChannel = new Map<string | undefined, number>();
+  const limited: Array<DisplayedMessage> = [];
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const count = countsByChannel.get(messages[i].channel) ?? 0;
+    if (count < MAX_MESSAGES) {
+      countsByChannel.set(messages[i].channel, count + 1);
+      limited.push(messages[i]);
+    }
+  }
+  return limited.reverse();
+}
 
 export const ChatUIComponent: ForwardRefRenderFunction<ChatUIInstance, ChatUIProps> = (
   props: ChatUIProps,
   ref,
 ) => {
   const visibleByDefault: boolean = props.visibleByDefault ?? true;
-  const [messages, setMessages] = useState<Array<{ username: string; message: string }>>([]);
+  const [messages, setMessages] = useState<Array<DisplayedMessage>>([]);
   const [isVisible, setIsVisible] = useState<boolean>(visibleByDefault);
   const [isSticky, setSticky] = useState<boolean>(visibleByDefault);
   const [isFocused, setIsFocused] = useState(false);
   const [isOpenHovered, setOpenHovered] = useState(false);
+  const [activeChannel, setActiveChannel] = useState<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Map<string, number>>(new Map());
 
   const [panelStyle, setPanelStyle] = useState(styles.fadeOut);
   const [stickyStyle, setStickyStyle] = useState(styles.stickyButton);
@@ -44,7 +82,11 @@ export const ChatUIComponent: ForwardRefRenderFunction<ChatUIInstance, ChatUIPro
   const stickyButtonRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLDivElement>(null);
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const inputBoxRef = useRef<{ focusInput: () => void } | null>(null);
+  const inputBoxRef = useRef<{ focusInput: () => void; setInput: (value: string) => void } | null>(
+    null,
+  );
+  // Messages are keyed locally as sent messages only receive their id once the server acknowledges them
+  const nextMessageKeyRef = useRef(0);
 
   const startHideTimeout = useCallback(() => {
     if (hideTimeoutRef.current) clearTimeout(hideTimeoutRef.current);
@@ -134,24 +176,150 @@ export const ChatUIComponent: ForwardRefRenderFunction<ChatUIInstance, ChatUIPro
     }
   }, [isVisible, isSticky, isFocused, chatPanelRef, isOpenHovered]);
 
-  const appendMessages = (username: string, message: string) => {
-    setMessages((prev) => {
-      const newMessages = [...prev, { username, message }];
-      return newMessages.length > MAX_MESSAGES ? newMessages.slice(-MAX_MESSAGES) : newMessages;
+  useEffect(() => {
+    // Shows the first joined channel if the shown channel was left (or none was shown yet)
+    const joinedChannels = props.channels.filter((channel) => channel.joined);
+    if (!joinedChannels.some((channel) => channel.name === activeChannel)) {
+      setActiveChannel(joinedChannels.length > 0 ? joinedChannels[0].name : null);
+    }
+  }, [props.channels, activeChannel]);
+
+  const selectChannel = (channel: string) => {
+    setActiveChannel(channel);
+    setUnreadCounts((prev) => {
+      const newUnreadCounts = new Map(prev);
+      newUnreadCounts.delete(channel);
+      return newUnreadCounts;
     });
   };
 
+  const toDisplayedMessage = (message: ChatUIMessage): DisplayedMessage => {
+    return { ...message, key: nextMessageKeyRef.current++ };
+  };
+
+  // Returns the key of the appended message
+  const appendMessage = (message: ChatUIMessage): number => {
+    const displayedMessage = toDisplayedMessage(message);
+    setMessages((prev) => limitMessagesPerChannel([...prev, displayedMessage]));
+    return displayedMessage.key;
+  };
+
   useImperativeHandle(ref, () => ({
-    addMessage: (username: string, message: string) => {
-      appendMessages(username, message);
+    addMessage: (message: ChatUIMessage) => {
+      appendMessage(message);
+      const messageChannel = message.channel;
+      if (messageChannel !== undefined && messageChannel !== activeChannel) {
+        setUnreadCounts((prev) =>
+          new Map(prev).set(messageChannel, (prev.get(messageChannel) ?? 0) + 1),
+        );
+        return;
+      }
       if (!isVisible) setIsVisible(true);
       startHideTimeout();
     },
+    setMessages: (newMessages: Array<ChatUIMessage>, channel?: string) => {
+      const displayedMessages = newMessages.map(toDisplayedMessage);
+      if (channel === undefined) {
+        setMessages(limitMessagesPerChannel(displayedMessages));
+        return;
+      }
+      setMessages((prev) =>
+        limitMessagesPerChannel([
+          ...prev.filter((msg) => msg.channel !== channel),
+          ...displayedMessages,
+        ]),
+      );
+    },
+    editMessage: (messageId: number, text: string) => {
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.messageId === messageId ? { ...msg, message: text, edited: true } : msg,
+        ),
+      );
+    },
+    deleteMessage: (messageId: number) => {
+      setMessages((prev) => prev.filter((msg) => msg.messageId !== messageId));
+    },
   }));
 
+  const sendDirectMessage = (command: string) => {
+    const recipient = findDirectMessageRecipient(
+      command,
+      props.getDirectMessageRecipients?.() ?? [],
+    );
+    const text = recipient ? command.slice(recipient.username.length).trim() : "";
+    if (!recipient || text === "") {
+      appendMessage({
+        username: "",
+        message: `Direct messages are sent with ${DIRECT_MESSAGE_PREFIX}<username> <message>`,
+        notice: true,
+      });
+      return;
+    }
+    props.sendDirectMessageToServer!(recipient.id, text);
+  };
+
+  const startDirectMessage = (username: string) => {
+    if (!isVisible) setIsVisible(true);
+    if (inputBoxRef.current) {
+      inputBoxRef.current.setInput(`${DIRECT_MESSAGE_PREFIX}${username} `);
+      inputBoxRef.current.focusInput();
+    }
+  };
+
   const handleSendMessage = (message: string) => {
-    props.sendMessageToServer(message);
-    appendMessages(props.clientName, message);
+    if (props.sendDirectMessageToServer && message.startsWith(DIRECT_MESSAGE_PREFIX)) {
+      sendDirectMessage(message.slice(DIRECT_MESSAGE_PREFIX.length));
+      return;
+    }
+    let scope: ChatUIScope | undefined;
+    if (props.proximity) {
+      scope = "nearby";
+      if (message.startsWith(SHOUT_PREFIX)) {
+        if (!props.proximity.canSendGlobal) {
+          appendMessage({ username: "", message: "You cannot message everyone", notice: true });
+          return;
+        }
+        scope = "global";
+        message = message.slice(SHOUT_PREFIX.length).trim();
+        if (message === "") return;
+      }
+    }
+    let channel: string | undefined;
+    if (props.channels.length > 0) {
+      const postedChannel = props.channels.find((c) => c.name === activeChannel);
+      if (!postedChannel || !postedChannel.canPost) {
+        appendMessage({
+          username: "",
+          message: postedChannel
+            ? `You cannot post in #${postedChannel.name}`
+            : "Join a channel to send messages",
+          notice: true,
+        });
+        return;
+      }
+      channel = postedChannel.name;
+    }
+    const sent = props.sendMessageToServer(message, scope, channel);
+    const key = appendMessage({ username: props.clientName, message, own: true, scope, channel });
+    if (sent) {
+      sent
+        .then(({ messageId, timestamp }) => {
+          setMessages((prev) =>
+            prev.map((msg) => (msg.key === key ? { ...msg, messageId, timestamp } : msg)),
+          );
+        })
+        .catch((e) => {
+          console.error("Failed to send chat message", e);
+          // The message was not sent to anyone
+          setMessages((prev) => prev.filter((msg) => msg.key !== key));
+          appendMessage({
+            username: "",
+            message: `Your message was not sent: ${e instanceof Error ? e.message : e}`,
+            notice: true,
+          });
+        });
+    }
   };
 
   const setFocus = () => setIsFocused(true);
@@ -198,10 +366,40 @@ export const ChatUIComponent: ForwardRefRenderFunction<ChatUIInstance, ChatUIPro
             maskSize: "contain",
           }}
         >
-          <Messages messages={messages} stringToHslOptions={props.stringToHslOptions} />
+          <Messages
+            messages={
+              props.channels.length > 0
+                ? messages.filter(
+                    (msg) => msg.channel === undefined || msg.channel === activeChannel,
+                  )
+                : messages
+            }
+            stringToHslOptions={props.stringToHslOptions}
+            canModerate={props.canModerate}
+            onEditMessage={props.editMessageOnServer}
+            onDeleteMessage={props.deleteMessageOnServer}
+            onStartDirectMessage={props.sendDirectMessageToServer ? startDirectMessage : undefined}
+          />
         </div>
+        {props.channels.length > 0 && (
+          <ChannelSwitcher
+            channels={props.channels}
+            activeChannel={activeChannel}
+            unreadCounts={unreadCounts}
+            onSelectChannel={selectChannel}
+            onJoinChannel={props.joinChannel}
+            onLeaveChannel={props.leaveChannel}
+          />
+        )}
         <InputBox
           ref={inputBoxRef}
+          placeholder={
+            props.proximity
+              ? props.proximity.canSendGlobal
+                ? `Message nearby users (${SHOUT_PREFIX.trim()} to message everyone)...`
+                : "Message nearby users..."
+              : undefined
+          }
           onSendMessage={handleSendMessage}
           hide={hide}
           setFocus={setFocus}
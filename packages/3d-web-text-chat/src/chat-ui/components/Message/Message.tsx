@@ -1,6 +1,6 @@
-import { FC, useState, useEffect, useCallback } from "react";
+import { FC, KeyboardEvent, useState, useEffect, useCallback } from "react";
 
-import { DEFAULT_HSL_OPTIONS, StringToHslOptions } from "../../TextChatUI";
+import { ChatUIScope, DEFAULT_HSL_OPTIONS, StringToHslOptions } from "../../TextChatUI";
 
 import styles from "./Message.module.css";
 
@@ -53,14 +53,42 @@ function hslForString(
   return [hue, saturation, lightness];
 }
 
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
 type MessageProps = {
   username: string;
   message: string;
+  timestamp?: number;
+  edited?: boolean;
+  notice?: boolean;
+  scope?: ChatUIScope;
+  // Shown before the username of direct messages (e.g. "to" or "from")
+  directLabel?: string;
   stringToHslOptions?: StringToHslOptions;
+  onUsernameClick?: () => void;
+  // Only provided if this client can change the message
+  onEdit?: (text: string) => void;
+  onDelete?: () => void;
 };
 
-const Message: FC<MessageProps> = ({ username, message, stringToHslOptions }) => {
+const Message: FC<MessageProps> = ({
+  username,
+  message,
+  timestamp,
+  edited,
+  notice,
+  scope,
+  directLabel,
+  stringToHslOptions,
+  onUsernameClick,
+  onEdit,
+  onDelete,
+}) => {
   const [userColors, setUserColors] = useState<Map<string, string>>(new Map());
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message);
 
   const generateColorForUsername = useCallback((): string => {
     const [hue, saturation, lightness] = hslForString(username, stringToHslOptions);
@@ -76,12 +104,80 @@ const Message: FC<MessageProps> = ({ username, message, stringToHslOptions }) =>
 
   const userColor = userColors.get(username) || "hsl(0, 0%, 0%)";
 
+  const startEditing = () => {
+    setEditText(message);
+    setIsEditing(true);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // Prevents typing from moving the character or focusing the chat input
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      const text = editText.trim();
+      if (text !== "" && text !== message && onEdit) {
+        onEdit(text);
+      }
+      setIsEditing(false);
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  if (notice) {
+    return <div className={`${styles.messageContainer} ${styles.notice}`}>{message}</div>;
+  }
+
   return (
-    <div className={styles.messageContainer}>
-      <span className={styles.userName} style={{ color: userColor }}>
+    <div
+      className={
+        directLabel !== undefined
+          ? `${styles.messageContainer} ${styles.directMessage}`
+          : styles.messageContainer
+      }
+    >
+      {timestamp !== undefined && <span className={styles.time}>{formatTime(timestamp)}</span>}
+      {scope !== undefined && (
+        <span className={scope === "global" ? styles.globalScope : styles.nearbyScope}>
+          {scope === "global" ? "shout" : "nearby"}
+        </span>
+      )}
+      {directLabel !== undefined && <span className={styles.directLabel}>{directLabel} </span>}
+      <span
+        className={onUsernameClick ? `${styles.userName} ${styles.clickable}` : styles.userName}
+        style={{ color: userColor }}
+        onClick={onUsernameClick}
+      >
         {username}
       </span>
-      : {message}
+      :{" "}
+      {isEditing ? (
+        <input
+          className={styles.editInput}
+          type="text"
+          value={editText}
+          autoFocus
+          onChange={(e) => setEditText(e.target.value)}
+          onKeyDown={handleEditKeyDown}
+          onBlur={() => setIsEditing(false)}
+        />
+      ) : (
+        message
+      )}
+      {edited && !isEditing && <span className={styles.edited}> (edited)</span>}
+      {!isEditing && (onEdit || onDelete) && (
+        <span className={styles.actions}>
+          {onEdit && (
+            <button className={styles.actionButton} onClick={startEditing}>
+              edit
+            </button>
+          )}
+          {onDelete && (
+            <button className={styles.actionButton} onClick={onDelete}>
+              delete
+            </button>
+          )}
+        </span>
+      )}
     </div>
   );
 };
@@ -1,16 +1,30 @@
 import { FC, useEffect, useRef } from "react";
 
-import { StringToHslOptions } from "../../TextChatUI";
+import { ChatUIMessage, StringToHslOptions } from "../../TextChatUI";
 import Message from "../Message/Message";
 
 import styles from "./Messages.module.css";
 
+export type DisplayedMessage = ChatUIMessage & { key: number };
+
 type MessagesProps = {
-  messages: Array<{ username: string; message: string }>;
+  messages: Array<DisplayedMessage>;
   stringToHslOptions?: StringToHslOptions;
+  canModerate: boolean;
+  onEditMessage?: (messageId: number, text: string) => void;
+  onDeleteMessage?: (messageId: number) => void;
+  // Called with the username that was clicked to start writing a direct message to them
+  onStartDirectMessage?: (username: string) => void;
 };
 
-export const Messages: FC<MessagesProps> = ({ messages, stringToHslOptions }) => {
+export const Messages: FC<MessagesProps> = ({
+  messages,
+  stringToHslOptions,
+  canModerate,
+  onEditMessage,
+  onDeleteMessage,
+  onStartDirectMessage,
+}) => {
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
 
   useEffect(() => {
@@ -22,14 +36,38 @@ export const Messages: FC<MessagesProps> = ({ messages, stringToHslOptions }) =>
   return (
     <div className={styles.messagesContainer}>
       {" "}
-      {messages.map((msg, index) => (
-        <Message
-          key={index}
-          username={msg.username}
-          message={msg.message}
-          stringToHslOptions={stringToHslOptions}
-        />
-      ))}
+      {messages.map((msg) => {
+        // Direct messages are not kept by the server, so they cannot be changed
+        const canChange = msg.messageId !== undefined && !msg.direct && (msg.own || canModerate);
+        // Direct messages sent by this client are shown with the recipient's name
+        const username = msg.direct && msg.own ? (msg.recipientUsername ?? "") : msg.username;
+        return (
+          <Message
+            key={msg.key}
+            username={username}
+            message={msg.message}
+            timestamp={msg.timestamp}
+            edited={msg.edited}
+            notice={msg.notice}
+            scope={msg.scope}
+            directLabel={msg.direct ? (msg.own ? "to" : "from") : undefined}
+            stringToHslOptions={stringToHslOptions}
+            onUsernameClick={
+              onStartDirectMessage && !msg.notice && (!msg.own || msg.direct) && username
+                ? () => onStartDirectMessage(username)
+                : undefined
+            }
+            onEdit={
+              canChange && onEditMessage
+                ? (text: string) => onEditMessage(msg.messageId!, text)
+                : undefined
+            }
+            onDelete={
+              canChange && onDeleteMessage ? () => onDeleteMessage(msg.messageId!) : undefined
+            }
+          />
+        );
+      })}
       <div ref={messagesEndRef}></div>
     </div>
   );
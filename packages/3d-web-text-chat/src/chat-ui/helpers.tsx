@@ -29,3 +29,26 @@ export function useClickOutside(cb: ClickAwayCallback) {
 
   return ref;
 }
+
+/*
+ Finds the user that a direct message command (the text after "/w ") is addressed to. Usernames can contain spaces, so
+ the longest username that the command starts with is used.
+*/
+export function findDirectMessageRecipient<T extends { username: string }>(
+  command: string,
+  recipients: Array<T>,
+): T | null {
+  const lowerCaseCommand = command.toLowerCase();
+  let found: T | null = null;
+  for (const recipient of recipients) {
+    const username = recipient.username.toLowerCase();
+    if (
+      lowerCaseCommand.startsWith(username) &&
+      (command.length === username.length || command[username.length] === " ") &&
+      (found === null || recipient.username.length > found.username.length)
+    ) {
+      found = recipient;
+    }
+  }
+  return found;
+}
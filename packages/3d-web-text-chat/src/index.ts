@@ -1,5 +1,13 @@
-export { TextChatUI, TextChatUIProps, type StringToHslOptions } from "./chat-ui/TextChatUI";
+export {
+  TextChatUI,
+  TextChatUIProps,
+  type ChatUIChannel,
+  type ChatUIMessage,
+  type ChatUIScope,
+  type StringToHslOptions,
+} from "./chat-ui/TextChatUI";
 export * from "./chat-network/ChatNetworkingServer";
 export * from "./chat-network/ChatNetworkingClient";
 export * from "./chat-network/ReconnectingWebsocket";
 export * from "./chat-network/ChatNetworkingMessages";
+export * from "./chat-network/ChatHistory";
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking channels", () => {
+  test("should only let users join, leave and post in channels they are permitted to", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; moderator?: boolean };
+    } = {
+      alice: { id: 1 },
+      bob: { id: 2 },
+      moderator: { id: 3, moderator: true },
+    };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+      history: {},
+      channels: [
+        { name: "general" },
+        { name: "announcements", post: "moderators" },
+        { name: "staff", join: "moderators" },
+        { name: "trading", autoJoin: false },
+      ],
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8706);
+    const serverAddress = "ws://localhost:8706/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    const moderator = await createTestChatNetworkingClient(serverAddress, "moderator");
+    expect(await moderator.identityPromise).toEqual(3);
+
+    await waitUntil(() => alice.channels.length > 0, "wait for alice to receive the channels");
+    expect(alice.channels).toEqual([
+      { name: "general", joined: true, canJoin: true, canPost: true },
+      { name: "announcements", joined: true, canJoin: true, canPost: false },
+      { name: "staff", joined: false, canJoin: false, canPost: true },
+      { name: "trading", joined: false, canJoin: true, canPost: true },
+    ]);
+    await waitUntil(
+      () => moderator.channels.length > 0,
+      "wait for the moderator to receive the channels",
+    );
+    expect(moderator.channels.find((channel) => channel.name === "staff")).toEqual({
+      name: "staff",
+      joined: true,
+      canJoin: true,
+      canPost: true,
+    });
+
+    // Messages that do not name a channel are sent in the first channel
+    alice.client.sendChatMessage("hello");
+    await waitUntil(() => bob.chatMessages.length === 1, "wait for bob to receive the message");
+    expect(bob.chatMessages[0]).toMatchObject({ id: 1, text: "hello", channel: "general" });
+
+    // Only moderators can post in the announcements channel
+    alice.client.sendChatMessage("announcement from alice", { channel: "announcements" });
+    await waitUntil(
+      () => alice.rejections.length === 1,
+      "wait for the server to reject alice's announcement",
+    );
+    expect(alice.rejections[0]).toEqual({
+      type: "rejected",
+      requestType: "chat",
+      reason: "NOT_PERMITTED",
+      message: "You cannot post in #announcements",
+      channel: "announcements",
+    });
+
+    // Only moderators can join (and so read) the staff channel
+    alice.client.joinChannel("staff");
+    await waitUntil(
+      () => alice.rejections.length === 2,
+      "wait for the server to reject alice joining the staff channel",
+    );
+    expect(alice.rejections[1]).toMatchObject({
+      requestType: "channel_join",
+      reason: "NOT_PERMITTED",
+      channel: "staff",
+    });
+    moderator.client.sendChatMessage("for staff", { channel: "staff" });
+    moderator.client.sendChatMessage("announcement", { channel: "announcements" });
+    await waitUntil(
+      () => alice.chatMessages.length === 1 && bob.chatMessages.length === 2,
+      "wait for alice and bob to receive the announcement",
+    );
+    expect(alice.chatMessages[0]).toMatchObject({ text: "announcement", channel: "announcements" });
+
+    // Users must join a channel before posting in it
+    alice.client.sendChatMessage("trade from alice", { channel: "trading" });
+    await waitUntil(
+      () => alice.rejections.length === 3,
+      "wait for the server to reject alice's message in the trading channel",
+    );
+    expect(alice.rejections[2]).toMatchObject({
+      message: "Join #trading to send messages in it",
+      channel: "trading",
+    });
+    bob.client.joinChannel("trading");
+    await waitUntil(
+      () => bob.channels.find((channel) => channel.name === "trading")?.joined === true,
+      "wait for bob to join the trading channel",
+    );
+    bob.client.sendChatMessage("trade from bob", { channel: "trading" });
+
+    // Joining a channel sends its history
+    alice.client.joinChannel("trading");
+    await waitUntil(
+      () => alice.histories.some((history) => history.channel === "trading"),
+      "wait for alice to receive the history of the trading channel",
+    );
+    expect(
+      alice.histories
+        .find((history) => history.channel === "trading")!
+        .messages.map((entry) => entry.text),
+    ).toEqual(["trade from bob"]);
+
+    // Users that leave a channel no longer receive its messages
+    bob.client.leaveChannel("trading");
+    await waitUntil(
+      () => bob.channels.find((channel) => channel.name === "trading")?.joined === false,
+      "wait for bob to leave the trading channel",
+    );
+    alice.client.sendChatMessage("trade after bob left", { channel: "trading" });
+    alice.client.sendChatMessage("general after bob left");
+    await waitUntil(
+      () => moderator.chatMessages.some((message) => message.text === "general after bob left"),
+      "wait for the moderator to receive the message in the general channel",
+    );
+    await waitUntil(
+      () => bob.chatMessages.some((message) => message.text === "general after bob left"),
+      "wait for bob to receive the message in the general channel",
+    );
+    expect(bob.chatMessages.map((message) => message.text)).toEqual([
+      "hello",
+      "announcement",
+      "general after bob left",
+    ]);
+    expect(moderator.chatMessages.map((message) => message.text)).toEqual([
+      "hello",
+      "general after bob left",
+    ]);
+
+    alice.client.stop();
+    bob.client.stop();
+    moderator.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
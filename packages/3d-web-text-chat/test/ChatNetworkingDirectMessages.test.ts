@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking direct messages", () => {
+  test("should only deliver direct messages to the recipient and the sender", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; readOnly?: boolean };
+    } = {
+      alice: { id: 1 },
+      bob: { id: 2 },
+      carol: { id: 3 },
+      spectator: { id: 4, readOnly: true },
+    };
+    const usernamesByClientId: { [clientId: number]: string } = {
+      1: "alice",
+      2: "bob",
+      3: "carol",
+    };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+      getUsername: (clientId: number) => usernamesByClientId[clientId] ?? null,
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8704);
+    const serverAddress = "ws://localhost:8704/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    const carol = await createTestChatNetworkingClient(serverAddress, "carol");
+    expect(await carol.identityPromise).toEqual(3);
+    const spectator = await createTestChatNetworkingClient(serverAddress, "spectator");
+    expect(await spectator.identityPromise).toEqual(4);
+
+    alice.client.sendDirectMessage(2, "Hi bob");
+    // The sender receives the message too, with the id the server assigned to it
+    await waitUntil(
+      () => bob.directMessages.length === 1 && alice.directMessages.length === 1,
+      "wait for alice and bob to receive the direct message",
+    );
+    expect(bob.directMessages[0]).toEqual({
+      type: "direct",
+      id: 1,
+      toId: 2,
+      messageId: expect.any(Number),
+      timestamp: expect.any(Number),
+      text: "Hi bob",
+      username: "alice",
+      toUsername: "bob",
+    });
+    expect(alice.directMessages).toEqual(bob.directMessages);
+
+    // Messages to users that are not connected, or to the sender, are dropped
+    alice.client.sendDirectMessage(5, "Hi nobody");
+    alice.client.sendDirectMessage(1, "Hi me");
+    await waitUntil(
+      () => alice.rejections.length === 2,
+      "wait for the server to reject alice's direct messages",
+    );
+    expect(alice.rejections.map(({ requestType, reason }) => [requestType, reason])).toEqual([
+      ["direct", "UNKNOWN_RECIPIENT"],
+      ["direct", "UNKNOWN_RECIPIENT"],
+    ]);
+    expect(server.sendDirectMessage(1, 5, "Hi nobody")).toEqual(false);
+
+    // Read-only and muted users cannot send direct messages
+    spectator.client.sendDirectMessage(2, "Hi from the spectator");
+    server.muteClient(3);
+    carol.client.sendDirectMessage(2, "Hi from carol");
+    await waitUntil(
+      () => spectator.rejections.length === 1 && carol.rejections.length === 1,
+      "wait for the server to reject the spectator's and carol's direct messages",
+    );
+    expect(spectator.rejections[0]).toMatchObject({ requestType: "direct", reason: "READ_ONLY" });
+    expect(carol.rejections[0]).toMatchObject({ requestType: "direct", reason: "MUTED" });
+
+    // The server can send direct messages as any user
+    expect(server.sendDirectMessage(3, 1, "Hi alice")).toEqual(true);
+    await waitUntil(
+      () => alice.directMessages.length === 2 && carol.directMessages.length === 1,
+      "wait for alice and carol to receive the direct message sent by the server",
+    );
+    expect(alice.directMessages[1].text).toEqual("Hi alice");
+    expect(bob.directMessages.map((message) => message.text)).toEqual(["Hi bob"]);
+
+    // Direct messages are not delivered to anyone else
+    expect(carol.directMessages.map((message) => message.text)).toEqual(["Hi alice"]);
+    expect(spectator.directMessages).toEqual([]);
+    expect(bob.chatMessages).toEqual([]);
+
+    alice.client.stop();
+    bob.client.stop();
+    carol.client.stop();
+    spectator.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, TestChatNetworkingClient, waitUntil } from "./test-utils";
+
+function sendAndWaitForId(testClient: TestChatNetworkingClient, text: string): Promise<number> {
+  return new Promise((resolve) => {
+    testClient.client.sendChatMessage(text, { onSent: (messageId) => resolve(messageId) });
+  });
+}
+
+describe("ChatNetworking editing", () => {
+  test("should only let the author or a moderator edit and delete a message", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; moderator?: boolean };
+    } = {
+      alice: { id: 1 },
+      bob: { id: 2 },
+      moderator: { id: 3, moderator: true },
+      // A different user that is later given alice's id
+      dave: { id: 1 },
+    };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8703);
+    const serverAddress = "ws://localhost:8703/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    const moderator = await createTestChatNetworkingClient(serverAddress, "moderator");
+    expect(await moderator.identityPromise).toEqual(3);
+
+    const firstMessageId = await sendAndWaitForId(alice, "first");
+    const secondMessageId = await sendAndWaitForId(alice, "second");
+    await waitUntil(
+      () => bob.chatMessages.length === 2 && moderator.chatMessages.length === 2,
+      "wait for bob and the moderator to receive the messages",
+    );
+
+    // Other users cannot change the message
+    bob.client.editChatMessage(firstMessageId, "edited by bob");
+    bob.client.deleteChatMessage(firstMessageId);
+    await waitUntil(
+      () => bob.rejections.length === 2,
+      "wait for the server to reject bob's changes",
+    );
+    expect(bob.rejections).toEqual([
+      {
+        type: "rejected",
+        requestType: "chat_edit",
+        reason: "NOT_PERMITTED",
+        message: "You cannot edit this message",
+        messageId: firstMessageId,
+      },
+      {
+        type: "rejected",
+        requestType: "chat_delete",
+        reason: "NOT_PERMITTED",
+        message: "You cannot delete this message",
+        messageId: firstMessageId,
+      },
+    ]);
+    expect(bob.edits).toEqual([]);
+    expect(bob.deletions).toEqual([]);
+
+    // The author can
+    alice.client.editChatMessage(firstMessageId, "edited by alice");
+    await waitUntil(
+      () => bob.edits.length === 1 && moderator.edits.length === 1 && alice.edits.length === 1,
+      "wait for everyone to receive alice's edit",
+    );
+    expect(bob.edits).toEqual([{ messageId: firstMessageId, text: "edited by alice" }]);
+
+    // A moderator can change the messages of other users
+    moderator.client.editChatMessage(secondMessageId, "edited by the moderator");
+    await waitUntil(() => bob.edits.length === 2, "wait for bob to receive the moderator's edit");
+    expect(bob.edits[1]).toEqual({ messageId: secondMessageId, text: "edited by the moderator" });
+    moderator.client.deleteChatMessage(firstMessageId);
+    await waitUntil(
+      () => bob.deletions.length === 1 && alice.deletions.length === 1,
+      "wait for everyone to receive the moderator's deletion",
+    );
+    expect(bob.deletions).toEqual([firstMessageId]);
+
+    // Deleted messages cannot be changed again
+    alice.client.editChatMessage(firstMessageId, "edited after deletion");
+    await waitUntil(
+      () => alice.rejections.length === 1,
+      "wait for the server to reject alice's edit",
+    );
+    expect(alice.rejections[0]).toMatchObject({
+      reason: "NOT_PERMITTED",
+      messageId: firstMessageId,
+    });
+
+    // Muted users cannot send or edit messages
+    server.muteClient(1);
+    const rejectedMessage = await new Promise<string>((resolve) => {
+      alice.client.sendChatMessage("sent while muted", { onRejected: resolve });
+    });
+    expect(rejectedMessage).toEqual("You are muted");
+    alice.client.editChatMessage(secondMessageId, "edited while muted");
+    await waitUntil(
+      () => alice.rejections.length === 2,
+      "wait for the server to reject alice's edit while muted",
+    );
+    // The rejection of the message sent with onRejected is not passed to onRequestRejected
+    expect(alice.rejections[1]).toMatchObject({
+      requestType: "chat_edit",
+      reason: "MUTED",
+      messageId: secondMessageId,
+    });
+    server.unmuteClient(1);
+
+    // Once the author has left, a new user with the same id cannot change their messages
+    alice.client.stop();
+    await waitUntil(
+      () => (server as any).clientsById.size === 2,
+      "wait for server to see alice leave",
+    );
+    server.disconnectClientId(1);
+    const dave = await createTestChatNetworkingClient(serverAddress, "dave");
+    expect(await dave.identityPromise).toEqual(1);
+    dave.client.deleteChatMessage(secondMessageId);
+    await waitUntil(
+      () => dave.rejections.length === 1,
+      "wait for the server to reject dave's deletion",
+    );
+    expect(dave.rejections[0]).toMatchObject({
+      reason: "NOT_PERMITTED",
+      messageId: secondMessageId,
+    });
+    expect(bob.deletions).toEqual([firstMessageId]);
+
+    dave.client.stop();
+    bob.client.stop();
+    moderator.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
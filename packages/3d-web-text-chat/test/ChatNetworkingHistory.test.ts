@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingHistoryEntry } from "../src/chat-network/ChatNetworkingMessages";
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking history", () => {
+  test("should send the recent messages to users when they join", async () => {
+    const persistedEntry: ChatNetworkingHistoryEntry = {
+      id: 7,
+      messageId: 5,
+      username: "carol",
+      text: "sent before the restart",
+      timestamp: Date.now() - 1000,
+    };
+    let savedEntries: Array<ChatNetworkingHistoryEntry> = [];
+    const usernamesByClientId: { [clientId: number]: string } = { 1: "alice", 2: "bob" };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => {
+        const id = { alice: 1, bob: 2 }[sessionToken];
+        return id !== undefined ? { id } : null;
+      },
+      getUsername: (clientId: number) => usernamesByClientId[clientId] ?? null,
+      history: {
+        maxMessages: 3,
+        storage: {
+          load: () => [{ ...persistedEntry }],
+          save: (entries) => {
+            savedEntries = entries.map((entry) => ({ ...entry }));
+          },
+        },
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8702);
+    const serverAddress = "ws://localhost:8702/chat";
+
+    // The history loaded from storage is sent to the first user
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    await waitUntil(() => alice.histories.length === 1, "wait for alice to receive the history");
+    expect(alice.histories[0].messages).toEqual([persistedEntry]);
+
+    const sentMessageIds: Array<number> = [];
+    for (const text of ["first", "second", "third"]) {
+      alice.client.sendChatMessage(text, {
+        onSent: (messageId) => sentMessageIds.push(messageId),
+      });
+    }
+    await waitUntil(() => sentMessageIds.length === 3, "wait for the messages to be sent");
+    // Ids in the history are not reused
+    expect(sentMessageIds).toEqual([6, 7, 8]);
+    server.editChatMessage(7, "second (edited)");
+    // Messages sent by the server are kept too
+    server.sendChatMessage(2, "from the server");
+
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    await waitUntil(() => bob.histories.length === 1, "wait for bob to receive the history");
+    // Only the most recent messages are kept
+    expect(
+      bob.histories[0].messages.map(({ id, messageId, username, text, edited }) => ({
+        id,
+        messageId,
+        username,
+        text,
+        edited,
+      })),
+    ).toEqual([
+      { id: 1, messageId: 7, username: "alice", text: "second (edited)", edited: true },
+      { id: 1, messageId: 8, username: "alice", text: "third", edited: undefined },
+      { id: 2, messageId: 9, username: "bob", text: "from the server", edited: undefined },
+    ]);
+    expect(savedEntries).toEqual(bob.histories[0].messages);
+
+    // Deleted messages and cleared history are not sent to users that join later
+    server.deleteChatMessage(9);
+    bob.client.stop();
+    await waitUntil(
+      () => (server as any).clientsById.size === 1,
+      "wait for server to see bob leave",
+    );
+    const bobReconnected = await createTestChatNetworkingClient(serverAddress, "bob");
+    await waitUntil(
+      () => bobReconnected.histories.length === 1,
+      "wait for bob to receive the history again",
+    );
+    expect(bobReconnected.histories[0].messages.map((entry) => entry.messageId)).toEqual([7, 8]);
+
+    server.clearHistory();
+    expect(savedEntries).toEqual([]);
+
+    alice.client.stop();
+    bobReconnected.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking moderation", () => {
+  test("should keep a user muted when they reconnect", async () => {
+    const clientIdsBySessionToken: { [sessionToken: string]: number } = {
+      alice: 1,
+      bob: 2,
+      // Alice after refreshing the page
+      "alice-refreshed": 3,
+    };
+    const usernamesByClientId: { [clientId: number]: string } = {
+      1: "alice",
+      2: "bob",
+      3: "alice",
+    };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => {
+        const id = clientIdsBySessionToken[sessionToken];
+        return id !== undefined ? { id } : null;
+      },
+      getUsername: (clientId: number) => usernamesByClientId[clientId] ?? null,
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8701);
+    const serverAddress = "ws://localhost:8701/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+
+    expect(server.muteClient(1)).toEqual(true);
+    expect(server.muteClient(4)).toEqual(false);
+
+    // The user leaves the world, which disconnects them from the chat
+    alice.client.stop();
+    await waitUntil(
+      () => (server as any).clientsById.size === 1,
+      "wait for server to see alice leave",
+    );
+    server.disconnectClientId(1);
+
+    // Reconnecting with the same session token
+    const aliceReconnected = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await aliceReconnected.identityPromise).toEqual(1);
+    expect(server.isClientMuted(1)).toEqual(true);
+    aliceReconnected.client.sendChatMessage("sent with the same session token");
+    await waitUntil(
+      () => aliceReconnected.rejections.length === 1,
+      "wait for the server to reject the message sent with the same session token",
+    );
+    expect(aliceReconnected.rejections[0]).toEqual({
+      type: "rejected",
+      requestType: "chat",
+      reason: "MUTED",
+      message: "You are muted",
+    });
+    aliceReconnected.client.stop();
+    await waitUntil(
+      () => (server as any).clientsById.size === 1,
+      "wait for server to see alice leave again",
+    );
+
+    // Reconnecting with a new session token, but as the same user
+    const aliceRefreshed = await createTestChatNetworkingClient(serverAddress, "alice-refreshed");
+    expect(await aliceRefreshed.identityPromise).toEqual(3);
+    expect(server.isClientMuted(3)).toEqual(true);
+    aliceRefreshed.client.sendChatMessage("sent as the same user");
+    await waitUntil(
+      () => aliceRefreshed.rejections.length === 1,
+      "wait for the server to reject the message sent as the same user",
+    );
+    expect(aliceRefreshed.rejections[0].reason).toEqual("MUTED");
+
+    server.unmuteClient(3);
+    expect(server.isClientMuted(3)).toEqual(false);
+    aliceRefreshed.client.sendChatMessage("sent after being unmuted");
+    await waitUntil(
+      () => bob.chatMessages.length > 0,
+      "wait for bob to receive the message sent after alice was unmuted",
+    );
+    expect(bob.chatMessages.map((message) => message.text)).toEqual(["sent after being unmuted"]);
+
+    aliceRefreshed.client.stop();
+    bob.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
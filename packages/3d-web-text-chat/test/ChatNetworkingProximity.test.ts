@@ -0,0 +1,166 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking proximity", () => {
+  test("should only deliver nearby messages to users within the radius", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; moderator?: boolean };
+    } = {
+      alice: { id: 1 },
+      bob: { id: 2 },
+      carol: { id: 3 },
+      moderator: { id: 4, moderator: true },
+      dave: { id: 5 },
+    };
+    const positionsByClientId = new Map<number, { x: number; y: number; z: number }>([
+      [1, { x: 0, y: 0, z: 0 }],
+      [2, { x: 6, y: 0, z: 8 }],
+      [3, { x: 50, y: 0, z: 0 }],
+      [4, { x: 100, y: 0, z: 0 }],
+      [5, { x: 0, y: 0, z: 5 }],
+    ]);
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+      history: {},
+      proximity: {
+        radius: 10,
+        globalRequiresModerator: true,
+        getClientPosition: (clientId: number) => positionsByClientId.get(clientId) ?? null,
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8705);
+    const serverAddress = "ws://localhost:8705/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    const carol = await createTestChatNetworkingClient(serverAddress, "carol");
+    expect(await carol.identityPromise).toEqual(3);
+    const moderator = await createTestChatNetworkingClient(serverAddress, "moderator");
+    expect(await moderator.identityPromise).toEqual(4);
+
+    // Bob is exactly at the edge of the radius
+    alice.client.sendChatMessage("nearby from alice", { scope: "nearby" });
+    await waitUntil(() => bob.chatMessages.length === 1, "wait for bob to receive the message");
+    expect(bob.chatMessages[0]).toMatchObject({
+      id: 1,
+      text: "nearby from alice",
+      scope: "nearby",
+    });
+
+    // Only moderators can send messages to everyone
+    const rejectedMessage = await new Promise<string>((resolve) => {
+      alice.client.sendChatMessage("global from alice", { scope: "global", onRejected: resolve });
+    });
+    expect(rejectedMessage).toEqual("You cannot message everyone");
+    moderator.client.sendChatMessage("global from the moderator", { scope: "global" });
+    await waitUntil(
+      () =>
+        alice.chatMessages.length === 1 &&
+        bob.chatMessages.length === 2 &&
+        carol.chatMessages.length === 1,
+      "wait for everyone to receive the moderator's message",
+    );
+    expect(carol.chatMessages[0]).toMatchObject({ id: 4, scope: "global" });
+
+    // Recipients are found by their current positions
+    positionsByClientId.set(3, { x: 5, y: 0, z: 0 });
+    alice.client.sendChatMessage("nearby after carol moved", { scope: "nearby" });
+    await waitUntil(
+      () => carol.chatMessages.length === 2 && bob.chatMessages.length === 3,
+      "wait for carol and bob to receive the message",
+    );
+    expect(carol.chatMessages[1].text).toEqual("nearby after carol moved");
+    expect(moderator.chatMessages).toEqual([]);
+
+    // Nearby messages are not kept in the history, as users that join later were not near the sender
+    const dave = await createTestChatNetworkingClient(serverAddress, "dave");
+    expect(await dave.identityPromise).toEqual(5);
+    await waitUntil(() => dave.histories.length === 1, "wait for dave to receive the history");
+    expect(dave.histories[0].messages.map((entry) => entry.text)).toEqual([
+      "global from the moderator",
+    ]);
+
+    alice.client.stop();
+    bob.client.stop();
+    carol.client.stop();
+    moderator.client.stop();
+    dave.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should deliver nearby messages to read-only users wherever they are", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; readOnly?: boolean };
+    } = {
+      alice: { id: 1 },
+      bob: { id: 2 },
+      spectator: { id: 3, readOnly: true },
+    };
+    // Spectators have no character, so their position is not known
+    const positionsByClientId = new Map<number, { x: number; y: number; z: number }>([
+      [1, { x: 100, y: 0, z: 100 }],
+      [2, { x: 105, y: 0, z: 100 }],
+    ]);
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+      proximity: {
+        radius: 10,
+        getClientPosition: (clientId: number) => positionsByClientId.get(clientId) ?? null,
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8707);
+    const serverAddress = "ws://localhost:8707/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const bob = await createTestChatNetworkingClient(serverAddress, "bob");
+    expect(await bob.identityPromise).toEqual(2);
+    const spectator = await createTestChatNetworkingClient(serverAddress, "spectator");
+    expect(await spectator.identityPromise).toEqual(3);
+
+    alice.client.sendChatMessage("nearby from alice", { scope: "nearby" });
+    await waitUntil(
+      () => bob.chatMessages.length === 1 && spectator.chatMessages.length === 1,
+      "wait for bob and the spectator to receive the message",
+    );
+    expect(spectator.chatMessages[0]).toMatchObject({
+      text: "nearby from alice",
+      scope: "nearby",
+    });
+
+    alice.client.stop();
+    bob.client.stop();
+    spectator.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { ChatNetworkingServer } from "../src/chat-network/ChatNetworkingServer";
+
+import { createTestChatNetworkingClient, waitUntil } from "./test-utils";
+
+describe("ChatNetworking read-only users", () => {
+  test("should reject the messages of read-only users", async () => {
+    const identitiesBySessionToken: {
+      [sessionToken: string]: { id: number; readOnly?: boolean };
+    } = {
+      alice: { id: 1 },
+      spectator: { id: 2, readOnly: true },
+    };
+    const server = new ChatNetworkingServer({
+      getChatUserIdentity: (sessionToken: string) => identitiesBySessionToken[sessionToken] ?? null,
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/chat", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8708);
+    const serverAddress = "ws://localhost:8708/chat";
+
+    const alice = await createTestChatNetworkingClient(serverAddress, "alice");
+    expect(await alice.identityPromise).toEqual(1);
+    const spectator = await createTestChatNetworkingClient(serverAddress, "spectator");
+    expect(await spectator.identityPromise).toEqual(2);
+
+    spectator.client.sendChatMessage("from the spectator");
+    await waitUntil(
+      () => spectator.rejections.length === 1,
+      "wait for the server to reject the spectator's message",
+    );
+    expect(spectator.rejections[0]).toEqual({
+      type: "rejected",
+      requestType: "chat",
+      reason: "READ_ONLY",
+      message: "Spectators cannot send messages",
+    });
+
+    // Read-only users still receive the messages of others
+    alice.client.sendChatMessage("from alice");
+    await waitUntil(
+      () => spectator.chatMessages.length === 1,
+      "wait for the spectator to receive alice's message",
+    );
+    expect(spectator.chatMessages[0].text).toEqual("from alice");
+    expect(alice.chatMessages).toEqual([]);
+
+    alice.client.stop();
+    spectator.client.stop();
+    await waitUntil(
+      () => (server as any).allClients.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,77 @@
+import { createWaitable, waitUntil } from "../../../utils/test-utils";
+import { ChatNetworkingClient } from "../src/chat-network/ChatNetworkingClient";
+import {
+  ChatNetworkingChannelState,
+  ChatNetworkingHistoryEntry,
+  ChatNetworkingRejectedMessage,
+  ChatNetworkingServerChatMessage,
+  ChatNetworkingServerDirectMessage,
+} from "../src/chat-network/ChatNetworkingMessages";
+import { WebsocketFactory } from "../src/chat-network/ReconnectingWebsocket";
+
+export { createWaitable, waitUntil };
+
+export type TestChatNetworkingClient = {
+  client: ChatNetworkingClient;
+  identityPromise: Promise<number>;
+  chatMessages: Array<ChatNetworkingServerChatMessage>;
+  histories: Array<{ messages: Array<ChatNetworkingHistoryEntry>; channel?: string }>;
+  edits: Array<{ messageId: number; text: string }>;
+  deletions: Array<number>;
+  directMessages: Array<ChatNetworkingServerDirectMessage>;
+  rejections: Array<ChatNetworkingRejectedMessage>;
+  // The most recent channels sent by the server
+  channels: Array<ChatNetworkingChannelState>;
+};
+
+export async function createTestChatNetworkingClient(
+  url: string,
+  sessionToken: string,
+  websocketFactory: WebsocketFactory = (url) => new WebSocket(url),
+): Promise<TestChatNetworkingClient> {
+  const [identityPromise, identityResolve] = await createWaitable<number>();
+  const testClient: TestChatNetworkingClient = {
+    client: new ChatNetworkingClient({
+      url,
+      sessionToken,
+      websocketFactory,
+      statusUpdateCallback: () => {},
+      clientChatUpdate: (id: number, update: null | ChatNetworkingServerChatMessage) => {
+        if (update !== null) {
+          testClient.chatMessages.push(update);
+        }
+      },
+      onChatHistory: (messages, channel) => {
+        testClient.histories.push({ messages, channel });
+      },
+      onChannels: (channels) => {
+        testClient.channels = channels;
+      },
+      onIdentity: ({ id }) => {
+        identityResolve(id);
+      },
+      onChatMessageEdited: (messageId, text) => {
+        testClient.edits.push({ messageId, text });
+      },
+      onChatMessageDeleted: (messageId) => {
+        testClient.deletions.push(messageId);
+      },
+      onDirectMessage: (message) => {
+        testClient.directMessages.push(message);
+      },
+      onRequestRejected: (rejection) => {
+        testClient.rejections.push(rejection);
+      },
+      onServerError: () => {},
+    }),
+    identityPromise,
+    chatMessages: [],
+    histories: [],
+    edits: [],
+    deletions: [],
+    directMessages: [],
+    rejections: [],
+    channels: [],
+  };
+  return testClient;
+}
@@ -0,0 +1,267 @@
+import { WebsocketFactory } from "./ReconnectingWebSocket";
+
+// The conditions are read whenever a message is sent or received, so they can be changed while connections are open
+export type NetworkConditions = {
+  // Passes messages through unchanged when false
+  enabled: boolean;
+  // Delay (milliseconds) added to each message in each direction
+  latency: number;
+  // Up to this many milliseconds of random delay are added to each message
+  jitter: number;
+  // The probability (0-1) that a message ignores the order it was sent in and is delivered as soon as its delay allows
+  reorderChance: number;
+  // The bytes per second that can be sent in each direction, or 0 for no limit
+  bandwidth: number;
+  // The average number of times per minute that each connection is dropped at random
+  randomDropsPerMinute: number;
+  // Each connection is dropped after being open for this many seconds, or never if 0
+  dropAfterSeconds: number;
+};
+
+export const defaultNetworkConditions: NetworkConditions = {
+  enabled: false,
+  latency: 0,
+  jitter: 0,
+  reorderChance: 0,
+  bandwidth: 0,
+  randomDropsPerMinute: 0,
+  dropAfterSeconds: 0,
+};
+
+const WebSocketOpenStatus = 1;
+const dropCheckIntervalMilliseconds = 250;
+
+type WebsocketListener = (event: any) => void;
+
+function getByteLength(data: any): number {
+  if (typeof data === "string") {
+    // The messages are mostly ASCII JSON, so the length is close enough to the encoded size
+    return data.length;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (data instanceof Blob) {
+    return data.size;
+  }
+  return 0;
+}
+
+// Delays the messages in one direction of a connection
+class SimulatedChannel {
+  private lastDeliveryTime = 0;
+  private lastTransmitTime = 0;
+  private pendingTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private conditions: NetworkConditions) {}
+
+  public schedule(byteLength: number, deliver: () => void) {
+    const now = Date.now();
+    if (!this.conditions.enabled && this.pendingTimeouts.size === 0) {
+      deliver();
+      return;
+    }
+    let deliveryTime = now;
+    if (this.conditions.enabled) {
+      if (this.conditions.bandwidth > 0) {
+        // Messages wait for the messages ahead of them to finish transmitting
+        this.lastTransmitTime =
+          Math.max(now, this.lastTransmitTime) + (byteLength / this.conditions.bandwidth) * 1000;
+        deliveryTime = this.lastTransmitTime;
+      }
+      deliveryTime += this.conditions.latency + Math.random() * this.conditions.jitter;
+    }
+    const reorder = this.conditions.enabled && Math.random() < this.conditions.reorderChance;
+    if (!reorder) {
+      deliveryTime = Math.max(deliveryTime, this.lastDeliveryTime);
+      this.lastDeliveryTime = deliveryTime;
+    }
+    const timeout = setTimeout(() => {
+      this.pendingTimeouts.delete(timeout);
+      deliver();
+    }, deliveryTime - now);
+    this.pendingTimeouts.add(timeout);
+  }
+
+  public clear() {
+    for (const timeout of this.pendingTimeouts) {
+      clearTimeout(timeout);
+    }
+    this.pendingTimeouts.clear();
+  }
+}
+
+// Presents the parts of the WebSocket interface that the clients use, with the simulated conditions applied
+class SimulatedWebSocket {
+  private listeners = new Map<string, Set<WebsocketListener>>();
+  private incoming: SimulatedChannel;
+  private outgoing: SimulatedChannel;
+  private openedTime: number | null = null;
+  private dropped = false;
+
+  constructor(
+    private websocket: WebSocket,
+    private conditions: NetworkConditions,
+    private onClosed: (simulatedWebSocket: SimulatedWebSocket) => void,
+  ) {
+    this.incoming = new SimulatedChannel(conditions);
+    this.outgoing = new SimulatedChannel(conditions);
+    websocket.addEventListener("open", (event) => {
+      this.openedTime = Date.now();
+      this.receive(event, 0);
+    });
+    websocket.addEventListener("message", (event) => {
+      this.receive(event, getByteLength(event.data));
+    });
+    websocket.addEventListener("error", (event) => {
+      this.receive(event, 0);
+    });
+    websocket.addEventListener("close", (event) => {
+      this.onClosed(this);
+      this.receive(event, 0);
+    });
+  }
+
+  get binaryType(): BinaryType {
+    return this.websocket.binaryType;
+  }
+
+  set binaryType(binaryType: BinaryType) {
+    this.websocket.binaryType = binaryType;
+  }
+
+  get readyState(): number {
+    return this.websocket.readyState;
+  }
+
+  public addEventListener(type: string, listener: WebsocketListener) {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  public removeEventListener(type: string, listener: WebsocketListener) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  public send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+    if (this.dropped) {
+      return;
+    }
+    this.outgoing.schedule(getByteLength(data), () => {
+      if (this.websocket.readyState === WebSocketOpenStatus) {
+        this.websocket.send(data);
+      }
+    });
+  }
+
+  public close(code?: number, reason?: string) {
+    this.websocket.close(code, reason);
+  }
+
+  private receive(event: Event, byteLength: number) {
+    if (this.dropped) {
+      return;
+    }
+    this.incoming.schedule(byteLength, () => this.dispatch(event));
+  }
+
+  private dispatch(event: Event) {
+    const listeners = this.listeners.get(event.type);
+    if (listeners) {
+      for (const listener of Array.from(listeners)) {
+        listener(event);
+      }
+    }
+  }
+
+  // Called periodically to drop the connection if the conditions call for it
+  public checkDrop(elapsedMilliseconds: number) {
+    if (!this.conditions.enabled || this.openedTime === null) {
+      return;
+    }
+    const dropProbability =
+      1 - Math.exp(-(this.conditions.randomDropsPerMinute / 60000) * elapsedMilliseconds);
+    const scheduledDrop =
+      this.conditions.dropAfterSeconds > 0 &&
+      Date.now() - this.openedTime >= this.conditions.dropAfterSeconds * 1000;
+    if (scheduledDrop || Math.random() < dropProbability) {
+      this.drop();
+    }
+  }
+
+  // Abruptly ends the connection, discarding the messages that are still in flight
+  public drop() {
+    if (this.dropped) {
+      return;
+    }
+    this.dropped = true;
+    this.incoming.clear();
+    this.outgoing.clear();
+    this.onClosed(this);
+    this.websocket.close();
+    if (this.openedTime === null) {
+      // Connection attempts fail with an error
+      this.dispatch(new Event("error"));
+    }
+    this.dispatch(new Event("close"));
+  }
+}
+
+/*
+ Wraps a websocketFactory so that the websockets it creates behave as if they were on a poor network. Messages are
+ delayed (latency, jitter and bandwidth), optionally reordered, and connections can be dropped at random, on a
+ schedule, or on demand. Intended for testing how the clients (e.g. remote character smoothing and reconnection)
+ behave on bad networks.
+*/
+export class NetworkConditionSimulator {
+  private websockets = new Set<SimulatedWebSocket>();
+  private dropCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(public conditions: NetworkConditions = { ...defaultNetworkConditions }) {}
+
+  public wrapWebsocketFactory(websocketFactory: WebsocketFactory): WebsocketFactory {
+    return (url: string) => {
+      const simulatedWebSocket = new SimulatedWebSocket(
+        websocketFactory(url),
+        this.conditions,
+        (closed) => this.removeWebsocket(closed),
+      );
+      this.websockets.add(simulatedWebSocket);
+      if (this.dropCheckTimer === null) {
+        this.dropCheckTimer = setInterval(() => {
+          for (const websocket of Array.from(this.websockets)) {
+            websocket.checkDrop(dropCheckIntervalMilliseconds);
+          }
+        }, dropCheckIntervalMilliseconds);
+      }
+      return simulatedWebSocket as unknown as WebSocket;
+    };
+  }
+
+  // Drops all of the open connections (regardless of whether the simulation is enabled)
+  public dropConnections() {
+    for (const websocket of Array.from(this.websockets)) {
+      websocket.drop();
+    }
+  }
+
+  private removeWebsocket(websocket: SimulatedWebSocket) {
+    this.websockets.delete(websocket);
+    if (this.websockets.size === 0 && this.dropCheckTimer !== null) {
+      clearInterval(this.dropCheckTimer);
+      this.dropCheckTimer = null;
+    }
+  }
+
+  public dispose() {
+    if (this.dropCheckTimer !== null) {
+      clearInterval(this.dropCheckTimer);
+      this.dropCheckTimer = null;
+    }
+    this.websockets.clear();
+  }
+}
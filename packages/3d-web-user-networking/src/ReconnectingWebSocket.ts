@@ -99,6 +99,12 @@ export abstract class ReconnectingWebSocket {
       websocket.binaryType = "arraybuffer";
       websocket.addEventListener("open", () => {
         clearTimeout(timeoutId);
+        if (this.stopped) {
+          // The client was stopped while this connection attempt was in progress
+          websocket.close();
+          resolve(websocket);
+          return;
+        }
         this.receivedMessageSinceOpen = false;
         this.websocket = websocket;
         this.setStatus(WebsocketStatus.Connected);
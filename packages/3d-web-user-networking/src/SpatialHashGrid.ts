@@ -0,0 +1,79 @@
+export type SpatialHashGridPosition = { x: number; y: number; z: number };
+
+/*
+ Buckets ids into square cells on the horizontal (x/z) plane so that proximity queries only need to check the cells
+ that overlap the query radius rather than every entry.
+*/
+export class SpatialHashGrid {
+  private cells = new Map<string, Array<{ id: number; position: SpatialHashGridPosition }>>();
+
+  constructor(private cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw new Error(`SpatialHashGrid cellSize must be greater than 0 (got ${cellSize})`);
+    }
+  }
+
+  private cellCoordinate(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(cellX: number, cellZ: number): string {
+    return `${cellX},${cellZ}`;
+  }
+
+  public clear() {
+    this.cells.clear();
+  }
+
+  public insert(id: number, position: SpatialHashGridPosition) {
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.z)) {
+      // Entries without a usable position cannot be bucketed and are not visible to proximity queries
+      return;
+    }
+    const key = this.cellKey(this.cellCoordinate(position.x), this.cellCoordinate(position.z));
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push({ id, position });
+  }
+
+  public queryRadius(position: SpatialHashGridPosition, radius: number): Array<number> {
+    const results: Array<number> = [];
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.z)) {
+      return results;
+    }
+    const radiusSquared = radius * radius;
+    const collectFromCell = (cell: Array<{ id: number; position: SpatialHashGridPosition }>) => {
+      for (const entry of cell) {
+        const dx = entry.position.x - position.x;
+        const dy = entry.position.y - position.y;
+        const dz = entry.position.z - position.z;
+        if (dx * dx + dy * dy + dz * dz <= radiusSquared) {
+          results.push(entry.id);
+        }
+      }
+    };
+    const minCellX = this.cellCoordinate(position.x - radius);
+    const maxCellX = this.cellCoordinate(position.x + radius);
+    const minCellZ = this.cellCoordinate(position.z - radius);
+    const maxCellZ = this.cellCoordinate(position.z + radius);
+    if ((maxCellX - minCellX + 1) * (maxCellZ - minCellZ + 1) > this.cells.size) {
+      // The query covers more cells than are occupied - it is cheaper to check every occupied cell
+      for (const cell of this.cells.values()) {
+        collectFromCell(cell);
+      }
+      return results;
+    }
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellZ = minCellZ; cellZ <= maxCellZ; cellZ++) {
+        const cell = this.cells.get(this.cellKey(cellX, cellZ));
+        if (cell) {
+          collectFromCell(cell);
+        }
+      }
+    }
+    return results;
+  }
+}
@@ -3,4 +3,11 @@ import { CharacterDescription } from "./UserNetworkingMessages";
 export type UserData = {
   readonly username: string;
   readonly characterDescription: CharacterDescription;
+  /*
+   Spectators receive the updates and profiles of other users but do not appear to them and do not count towards the
+   connection limit (e.g. for displays, stream cameras and dashboards)
+  */
+  readonly spectator?: boolean;
+  // Moderators can edit and delete the chat messages of other users
+  readonly moderator?: boolean;
 };
@@ -0,0 +1,118 @@
+import { UserData } from "./UserData";
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+
+export const USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE = "updates";
+export const USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE = "profile";
+export const USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE = "disconnected";
+export const USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE = "sync_request";
+
+export type UserNetworkingBusUpdatesMessage = {
+  type: typeof USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE;
+  serverId: string;
+  // The latest updates of every client connected to the publishing server
+  updates: Array<UserNetworkingClientUpdate>;
+};
+
+export type UserNetworkingBusProfileMessage = {
+  type: typeof USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE;
+  serverId: string;
+  id: number;
+  userData: UserData;
+};
+
+export type UserNetworkingBusDisconnectedMessage = {
+  type: typeof USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE;
+  serverId: string;
+  id: number;
+};
+
+// Sent by a server when it starts so that the other servers publish the profiles of their clients
+export type UserNetworkingBusSyncRequestMessage = {
+  type: typeof USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE;
+  serverId: string;
+};
+
+export type UserNetworkingBusMessage =
+  | UserNetworkingBusUpdatesMessage
+  | UserNetworkingBusProfileMessage
+  | UserNetworkingBusDisconnectedMessage
+  | UserNetworkingBusSyncRequestMessage;
+
+/*
+ Connects UserNetworkingServers (typically in different processes) so that they can present their clients to each
+ other. Messages published by a server are also delivered back to that server's own subscription - servers ignore
+ messages with their own serverId.
+*/
+export interface UserNetworkingBus {
+  publish(message: UserNetworkingBusMessage): void;
+  // Returns a function that removes the subscription
+  subscribe(listener: (message: UserNetworkingBusMessage) => void): () => void;
+}
+
+/*
+ Delivers messages between servers in the same process. Delivery is asynchronous to behave like a bus that crosses
+ process boundaries.
+*/
+export class InMemoryUserNetworkingBus implements UserNetworkingBus {
+  private listeners = new Set<(message: UserNetworkingBusMessage) => void>();
+
+  public publish(message: UserNetworkingBusMessage): void {
+    setTimeout(() => {
+      for (const listener of this.listeners) {
+        listener(message);
+      }
+    }, 0);
+  }
+
+  public subscribe(listener: (message: UserNetworkingBusMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// The subset of a typical pub/sub client (e.g. Redis) that PubSubUserNetworkingBus requires
+export type UserNetworkingPubSubAdapter = {
+  publish(channel: string, message: string): void | Promise<unknown>;
+  subscribe(channel: string, listener: (message: string) => void): void | Promise<unknown>;
+  unsubscribe(channel: string, listener: (message: string) => void): void | Promise<unknown>;
+};
+
+export class PubSubUserNetworkingBus implements UserNetworkingBus {
+  constructor(
+    private adapter: UserNetworkingPubSubAdapter,
+    private channel: string = "user-networking",
+  ) {}
+
+  public publish(message: UserNetworkingBusMessage): void {
+    const result = this.adapter.publish(this.channel, JSON.stringify(message));
+    if (result instanceof Promise) {
+      result.catch((e) => {
+        console.error("Error publishing user networking bus message", e);
+      });
+    }
+  }
+
+  public subscribe(listener: (message: UserNetworkingBusMessage) => void): () => void {
+    const adapterListener = (message: string) => {
+      let parsed;
+      try {
+        parsed = JSON.parse(message) as UserNetworkingBusMessage;
+      } catch (e) {
+        console.error("Error parsing user networking bus message", message, e);
+        return;
+      }
+      listener(parsed);
+    };
+    const result = this.adapter.subscribe(this.channel, adapterListener);
+    if (result instanceof Promise) {
+      result.catch((e) => {
+        console.error("Error subscribing to user networking bus", e);
+      });
+    }
+    return () => {
+      this.adapter.unsubscribe(this.channel, adapterListener);
+    };
+  }
+}
@@ -3,12 +3,20 @@ import { UserNetworkingClientUpdate, UserNetworkingCodec } from "./UserNetworkin
 import {
   CharacterDescription,
   FromUserNetworkingClientMessage,
+  USER_NETWORKING_CUSTOM_MESSAGE_TYPE,
   FromUserNetworkingServerMessage,
   USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
   USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
   USER_NETWORKING_PING_MESSAGE_TYPE,
+  USER_NETWORKING_PROTOCOL_FEATURES,
+  USER_NETWORKING_PROTOCOL_VERSION,
+  USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+  USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES,
+  USER_NETWORKING_QUEUE_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE,
   USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+  USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE,
+  USER_NETWORKING_TELEPORT_MESSAGE_TYPE,
   USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
   USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
   UserNetworkingServerErrorType,
@@ -20,34 +28,83 @@ export type UserNetworkingClientConfig = {
   websocketFactory: WebsocketFactory;
   statusUpdateCallback: (status: WebsocketStatus) => void;
   assignedIdentity: (clientId: number) => void;
-  clientUpdate: (id: number, update: null | UserNetworkingClientUpdate) => void;
+  // timestamp is the server time (milliseconds since epoch) of the update if the server provided one
+  clientUpdate: (id: number, update: null | UserNetworkingClientUpdate, timestamp?: number) => void;
   clientProfileUpdated: (
     id: number,
     username: string,
     characterDescription: CharacterDescription,
   ) => void;
   onServerError: (error: { message: string; errorType: UserNetworkingServerErrorType }) => void;
-  onServerBroadcast?: (broadcast: { broadcastType: string; payload: any }) => void;
+  // targeted is true if the broadcast was only sent to selected clients
+  onServerBroadcast?: (broadcast: {
+    broadcastType: string;
+    payload: any;
+    targeted: boolean;
+  }) => void;
+  onCustomMessage?: (message: { customType: string; payload: any }) => void;
+  // Called while the server is full and the client is waiting in the queue. assignedIdentity is called once admitted.
+  onQueuePositionUpdate?: (position: number) => void;
+  /*
+   Called when the server moves the local user. Returns whether the teleport was applied - only applied teleports are
+   acknowledged to the server.
+  */
+  onTeleport?: (teleport: {
+    position: { x: number; y: number; z: number };
+    rotation: { quaternionY: number; quaternionW: number };
+  }) => boolean;
+  // Defaults to USER_NETWORKING_PROTOCOL_VERSION - only intended to be overridden for testing compatibility
+  protocolVersion?: number;
 };
 
 export class UserNetworkingClient extends ReconnectingWebSocket {
+  // The version the server agreed to use for this connection
+  private negotiatedProtocolVersion = USER_NETWORKING_PROTOCOL_VERSION_LEGACY;
+  private negotiatedFeatures: Array<string> = [];
+  private instanceName: string | null = null;
+  private spectator = false;
+
   constructor(private config: UserNetworkingClientConfig) {
     super(config.url, config.websocketFactory, (status: WebsocketStatus) => {
       if (status === WebsocketStatus.Connected) {
         this.sendMessage({
           type: USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
           sessionToken: config.sessionToken,
+          protocolVersion: config.protocolVersion ?? USER_NETWORKING_PROTOCOL_VERSION,
+          features: USER_NETWORKING_PROTOCOL_FEATURES,
         });
       }
       config.statusUpdateCallback(status);
     });
   }
 
+  public getProtocolVersion(): number {
+    return this.negotiatedProtocolVersion;
+  }
+
+  public getFeatures(): Array<string> {
+    return this.negotiatedFeatures;
+  }
+
+  // The instance of the world that the server placed this client in, or null if the server does not use instances
+  public getInstanceName(): string | null {
+    return this.instanceName;
+  }
+
+  // Spectators are not visible to other clients and their updates are ignored by the server
+  public isSpectator(): boolean {
+    return this.spectator;
+  }
+
   public sendUpdate(update: UserNetworkingClientUpdate): void {
     const encodedUpdate = UserNetworkingCodec.encodeUpdate(update);
     this.send(encodedUpdate);
   }
 
+  public sendCustomMessage(customType: string, payload: any): void {
+    this.sendMessage({ type: USER_NETWORKING_CUSTOM_MESSAGE_TYPE, customType, payload });
+  }
+
   public sendMessage(message: FromUserNetworkingClientMessage): void {
     this.send(message);
   }
@@ -66,6 +123,12 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
           break;
         case USER_NETWORKING_IDENTITY_MESSAGE_TYPE:
           console.log(`Client ID: ${parsed.id} assigned to self`);
+          // Servers that predate version negotiation do not include a version
+          this.negotiatedProtocolVersion =
+            parsed.protocolVersion ?? USER_NETWORKING_PROTOCOL_VERSION_LEGACY;
+          this.negotiatedFeatures = parsed.features ?? [];
+          this.instanceName = parsed.instanceName ?? null;
+          this.spectator = parsed.spectator ?? false;
           this.config.assignedIdentity(parsed.id);
           break;
         case USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE:
@@ -81,18 +144,63 @@ export class UserNetworkingClient extends ReconnectingWebSocket {
             this.config.onServerBroadcast({
               broadcastType: parsed.broadcastType,
               payload: parsed.payload,
+              targeted: parsed.targeted ?? false,
             });
           } else {
             console.warn("Unhandled broadcast", parsed);
           }
           break;
         }
+        case USER_NETWORKING_CUSTOM_MESSAGE_TYPE: {
+          if (this.config.onCustomMessage) {
+            this.config.onCustomMessage({ customType: parsed.customType, payload: parsed.payload });
+          } else {
+            console.warn("Unhandled custom message", parsed);
+          }
+          break;
+        }
+        case USER_NETWORKING_QUEUE_MESSAGE_TYPE: {
+          console.log(`Queued at position ${parsed.position}`);
+          this.config.onQueuePositionUpdate?.(parsed.position);
+          break;
+        }
+        case USER_NETWORKING_TELEPORT_MESSAGE_TYPE: {
+          console.log(`Teleported by server`);
+          const applied = this.config.onTeleport?.({
+            position: parsed.position,
+            rotation: parsed.rotation,
+          });
+          if (applied) {
+            this.sendMessage({
+              type: USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE,
+              teleportId: parsed.teleportId,
+            });
+          }
+          break;
+        }
         default:
           console.error("Unhandled message", parsed);
       }
     } else if (message.data instanceof ArrayBuffer) {
-      const userNetworkingClientUpdate = UserNetworkingCodec.decodeUpdate(message.data);
-      this.config.clientUpdate(userNetworkingClientUpdate.id, userNetworkingClientUpdate);
+      if (this.negotiatedProtocolVersion < USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES) {
+        const userNetworkingClientUpdate = UserNetworkingCodec.decodeUpdate(message.data);
+        this.config.clientUpdate(userNetworkingClientUpdate.id, userNetworkingClientUpdate);
+        return;
+      }
+      let frame;
+      try {
+        frame = UserNetworkingCodec.decodeUpdateFrame(message.data);
+      } catch (e) {
+        console.error("Error decoding update frame", e);
+        return;
+      }
+      for (const userNetworkingClientUpdate of frame.updates) {
+        this.config.clientUpdate(
+          userNetworkingClientUpdate.id,
+          userNetworkingClientUpdate,
+          frame.timestamp,
+        );
+      }
     } else {
       console.error("Unhandled message type", message.data);
     }
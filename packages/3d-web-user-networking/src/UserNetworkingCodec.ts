@@ -5,31 +5,112 @@ export type UserNetworkingClientUpdate = {
   state: number;
 };
 
+export type UserNetworkingUpdateFrame = {
+  // Incremented by the server each time it sends updates
+  tick: number;
+  // The server's clock (milliseconds since epoch) when the frame was created
+  timestamp: number;
+  updates: Array<UserNetworkingClientUpdate>;
+};
+
+export const updateByteLength = 19;
+export const updateFrameHeaderByteLength = 14;
+
 export class UserNetworkingCodec {
+  private static writeUpdate(
+    dataView: DataView,
+    offset: number,
+    update: UserNetworkingClientUpdate,
+  ): void {
+    dataView.setUint16(offset, update.id); // id
+    dataView.setFloat32(offset + 2, update.position.x); // position.x
+    dataView.setFloat32(offset + 6, update.position.y); // position.y
+    dataView.setFloat32(offset + 10, update.position.z); // position.z
+    dataView.setInt16(offset + 14, update.rotation.quaternionY * 32767); // quaternion.y
+    dataView.setInt16(offset + 16, update.rotation.quaternionW * 32767); // quaternion.w
+    dataView.setUint8(offset + 18, update.state); // animationState
+  }
+
+  private static readUpdate(dataView: DataView, offset: number): UserNetworkingClientUpdate {
+    const id = dataView.getUint16(offset); // id
+    const x = dataView.getFloat32(offset + 2); // position.x
+    const y = dataView.getFloat32(offset + 6); // position.y
+    const z = dataView.getFloat32(offset + 10); // position.z
+    const quaternionY = dataView.getInt16(offset + 14) / 32767; // quaternion.y
+    const quaternionW = dataView.getInt16(offset + 16) / 32767; // quaternion.w
+    const state = dataView.getUint8(offset + 18); // animationState
+    const position = { x, y, z };
+    const rotation = { quaternionY, quaternionW };
+    return { id, position, rotation, state };
+  }
+
   static encodeUpdate(update: UserNetworkingClientUpdate): Uint8Array {
-    const buffer = new ArrayBuffer(19);
+    const buffer = new ArrayBuffer(updateByteLength);
     const dataView = new DataView(buffer);
-    dataView.setUint16(0, update.id); // id
-    dataView.setFloat32(2, update.position.x); // position.x
-    dataView.setFloat32(6, update.position.y); // position.y
-    dataView.setFloat32(10, update.position.z); // position.z
-    dataView.setInt16(14, update.rotation.quaternionY * 32767); // quaternion.y
-    dataView.setInt16(16, update.rotation.quaternionW * 32767); // quaternion.w
-    dataView.setUint8(18, update.state); // animationState
+    UserNetworkingCodec.writeUpdate(dataView, 0, update);
     return new Uint8Array(buffer);
   }
 
   static decodeUpdate(buffer: ArrayBuffer): UserNetworkingClientUpdate {
     const dataView = new DataView(buffer);
-    const id = dataView.getUint16(0); // id
-    const x = dataView.getFloat32(2); // position.x
-    const y = dataView.getFloat32(6); // position.y
-    const z = dataView.getFloat32(10); // position.z
-    const quaternionY = dataView.getInt16(14) / 32767; // quaternion.y
-    const quaternionW = dataView.getInt16(16) / 32767; // quaternion.w
-    const state = dataView.getUint8(18); // animationState
-    const position = { x, y, z };
-    const rotation = { quaternionY, quaternionW };
-    return { id, position, rotation, state };
+    return UserNetworkingCodec.readUpdate(dataView, 0);
+  }
+
+  static encodeUpdateFrame(frame: UserNetworkingUpdateFrame): Uint8Array {
+    return UserNetworkingCodec.encodeUpdateFrameFromEncodedUpdates(
+      frame.tick,
+      frame.timestamp,
+      frame.updates.map((update) => UserNetworkingCodec.encodeUpdate(update)),
+    );
+  }
+
+  /*
+   Creates a frame from updates that have already been encoded with encodeUpdate. This allows a server to encode each
+   update once per tick and include it in the frames for many recipients.
+  */
+  static encodeUpdateFrameFromEncodedUpdates(
+    tick: number,
+    timestamp: number,
+    encodedUpdates: Array<Uint8Array>,
+  ): Uint8Array {
+    const frame = new Uint8Array(
+      updateFrameHeaderByteLength + encodedUpdates.length * updateByteLength,
+    );
+    const dataView = new DataView(frame.buffer);
+    dataView.setUint32(0, tick); // tick
+    dataView.setFloat64(4, timestamp); // timestamp
+    dataView.setUint16(12, encodedUpdates.length); // count
+    let offset = updateFrameHeaderByteLength;
+    for (const encodedUpdate of encodedUpdates) {
+      frame.set(encodedUpdate, offset);
+      offset += updateByteLength;
+    }
+    return frame;
+  }
+
+  static decodeUpdateFrame(buffer: ArrayBuffer): UserNetworkingUpdateFrame {
+    if (buffer.byteLength < updateFrameHeaderByteLength) {
+      throw new Error(`Update frame too short: ${buffer.byteLength} bytes`);
+    }
+    const dataView = new DataView(buffer);
+    const tick = dataView.getUint32(0); // tick
+    const timestamp = dataView.getFloat64(4); // timestamp
+    const count = dataView.getUint16(12); // count
+    const expectedLength = updateFrameHeaderByteLength + count * updateByteLength;
+    if (buffer.byteLength !== expectedLength) {
+      throw new Error(
+        `Update frame length mismatch: expected ${expectedLength} bytes for ${count} updates, got ${buffer.byteLength}`,
+      );
+    }
+    const updates: Array<UserNetworkingClientUpdate> = [];
+    for (let i = 0; i < count; i++) {
+      updates.push(
+        UserNetworkingCodec.readUpdate(
+          dataView,
+          updateFrameHeaderByteLength + i * updateByteLength,
+        ),
+      );
+    }
+    return { tick, timestamp, updates };
   }
 }
@@ -7,10 +7,33 @@ export const USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE = "broadcast";
 export const USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE = "error";
 export const USER_NETWORKING_PING_MESSAGE_TYPE = "ping";
 export const USER_NETWORKING_PONG_MESSAGE_TYPE = "pong";
+export const USER_NETWORKING_TELEPORT_MESSAGE_TYPE = "teleport";
+export const USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE = "teleport_ack";
+export const USER_NETWORKING_CUSTOM_MESSAGE_TYPE = "custom";
+export const USER_NETWORKING_QUEUE_MESSAGE_TYPE = "queue";
+
+// The client applies (and acknowledges) teleports sent by the server
+export const USER_NETWORKING_TELEPORT_FEATURE = "teleport";
+
+// Clients that do not send a protocol version receive each user update as an individual binary message
+export const USER_NETWORKING_PROTOCOL_VERSION_LEGACY = 1;
+// User updates are sent as a single batched frame per tick (see UserNetworkingCodec.encodeUpdateFrame)
+export const USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES = 2;
+// The latest protocol version that this package implements
+export const USER_NETWORKING_PROTOCOL_VERSION = USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES;
+// Optional protocol features that this package implements. Features are negotiated in addition to the version.
+export const USER_NETWORKING_PROTOCOL_FEATURES: Array<string> = [USER_NETWORKING_TELEPORT_FEATURE];
 
 export type UserNetworkingIdentityMessage = {
   type: typeof USER_NETWORKING_IDENTITY_MESSAGE_TYPE;
   id: number;
+  // The protocol version and features the server will use for this connection. Absent from legacy servers.
+  protocolVersion?: number;
+  features?: Array<string>;
+  // Identifies which of several servers for the same world the client is connected to (e.g. an overflow instance)
+  instanceName?: string;
+  // Set if the client is a spectator that other clients cannot see (see UserData.spectator)
+  spectator?: boolean;
 };
 
 export type CharacterDescription =
@@ -45,12 +68,21 @@ export type UserNetworkingDisconnectedMessage = {
 export const USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE = "CONNECTION_LIMIT_REACHED";
 export const USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE = "AUTHENTICATION_FAILED";
 export const USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE = "SERVER_SHUTDOWN";
+export const USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE =
+  "UNSUPPORTED_PROTOCOL_VERSION";
+export const USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE = "MOVEMENT_VALIDATION_FAILED";
+export const USER_NETWORKING_KICKED_ERROR_TYPE = "KICKED";
+export const USER_NETWORKING_BANNED_ERROR_TYPE = "BANNED";
 export const USER_NETWORKING_UNKNOWN_ERROR = "UNKNOWN_ERROR";
 
 export type UserNetworkingServerErrorType =
   | typeof USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE
   | typeof USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE
   | typeof USER_NETWORKING_SERVER_SHUTDOWN_ERROR_TYPE
+  | typeof USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE
+  | typeof USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE
+  | typeof USER_NETWORKING_KICKED_ERROR_TYPE
+  | typeof USER_NETWORKING_BANNED_ERROR_TYPE
   | typeof USER_NETWORKING_UNKNOWN_ERROR;
 
 export type UserNetworkingServerError = {
@@ -63,18 +95,45 @@ export type UserNetworkingServerBroadcast = {
   type: typeof USER_NETWORKING_SERVER_BROADCAST_MESSAGE_TYPE;
   broadcastType: string;
   payload: any;
+  // Set if the message was only sent to selected clients rather than to every client
+  targeted?: boolean;
 };
 
 export type UserNetworkingServerPingMessage = {
   type: typeof USER_NETWORKING_PING_MESSAGE_TYPE;
 };
 
+export type UserNetworkingTeleportMessage = {
+  type: typeof USER_NETWORKING_TELEPORT_MESSAGE_TYPE;
+  // Echoed back in the acknowledgement so that the server can tell which teleport has been applied
+  teleportId: number;
+  position: { x: number; y: number; z: number };
+  rotation: { quaternionY: number; quaternionW: number };
+};
+
+// Application-defined message. The same shape is used in both directions.
+export type UserNetworkingCustomMessage = {
+  type: typeof USER_NETWORKING_CUSTOM_MESSAGE_TYPE;
+  customType: string;
+  payload: any;
+};
+
+// Sent to a client that is waiting for a slot when its position in the queue changes
+export type UserNetworkingQueueMessage = {
+  type: typeof USER_NETWORKING_QUEUE_MESSAGE_TYPE;
+  // 1 is the next client to be admitted
+  position: number;
+};
+
 export type FromUserNetworkingServerMessage =
   | UserNetworkingIdentityMessage
   | UserNetworkingProfileMessage
   | UserNetworkingDisconnectedMessage
   | UserNetworkingServerPingMessage
   | UserNetworkingServerBroadcast
+  | UserNetworkingTeleportMessage
+  | UserNetworkingCustomMessage
+  | UserNetworkingQueueMessage
   | UserNetworkingServerError;
 
 export type UserNetworkingClientPongMessage = {
@@ -91,6 +150,10 @@ export type UserNetworkingAuthenticateMessage = {
   sessionToken: string;
   // The client can send a UserIdentity to use as the initial user profile and the server can choose to accept it or not
   userIdentity?: UserIdentity;
+  // The latest protocol version the client supports. Absent from legacy clients.
+  protocolVersion?: number;
+  // The optional protocol features the client supports
+  features?: Array<string>;
 };
 
 export type UserNetworkingUserUpdateMessage = {
@@ -98,7 +161,14 @@ export type UserNetworkingUserUpdateMessage = {
   userIdentity: UserIdentity;
 };
 
+export type UserNetworkingTeleportAckMessage = {
+  type: typeof USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE;
+  teleportId: number;
+};
+
 export type FromUserNetworkingClientMessage =
   | UserNetworkingClientPongMessage
+  | UserNetworkingTeleportAckMessage
   | UserNetworkingAuthenticateMessage
-  | UserNetworkingUserUpdateMessage;
+  | UserNetworkingUserUpdateMessage
+  | UserNetworkingCustomMessage;
@@ -0,0 +1,149 @@
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+
+// The highest value of AnimationState (doubleJump) in @mml-io/3d-web-client-core
+const defaultMaxAnimationState = 6;
+// Allowance (seconds) added to the time between updates to tolerate network jitter bunching updates together
+const defaultTimeTolerance = 0.25;
+
+export type UserNetworkingMovementViolationType =
+  | "non_finite"
+  | "speed"
+  | "out_of_bounds"
+  | "invalid_animation_state";
+
+export type UserNetworkingMovementViolation = {
+  type: UserNetworkingMovementViolationType;
+  message: string;
+};
+
+export type UserNetworkingMovementValidationOptions = {
+  // Maximum speed (meters per second) on the horizontal (x/z) plane
+  maxHorizontalSpeed?: number;
+  // Maximum speed (meters per second) on the vertical (y) axis
+  maxVerticalSpeed?: number;
+  worldBounds?: {
+    min: { x: number; y: number; z: number };
+    max: { x: number; y: number; z: number };
+  };
+  // Defaults to the highest AnimationState of @mml-io/3d-web-client-core
+  maxAnimationState?: number;
+  /*
+   Allows client-initiated teleports (e.g. respawning) to skip the speed check. Teleports initiated with
+   UserNetworkingServer.teleportClient are always allowed.
+  */
+  isTeleportAllowed?: (clientId: number, position: { x: number; y: number; z: number }) => boolean;
+  /*
+   Called when a client's update is invalid. Returning "log" applies the corrected update (or ignores the update if it
+   could not be corrected), "correct" also teleports the client to the corrected position and "kick" disconnects the
+   client. Defaults to "log".
+  */
+  onInvalidMovement?: (
+    clientId: number,
+    violations: Array<UserNetworkingMovementViolation>,
+  ) => "log" | "correct" | "kick";
+};
+
+export type UserNetworkingMovementValidationResult = {
+  violations: Array<UserNetworkingMovementViolation>;
+  // The update with any violations corrected, or null if the update is unusable
+  update: UserNetworkingClientUpdate | null;
+};
+
+export class UserNetworkingMovementValidator {
+  constructor(private options: UserNetworkingMovementValidationOptions) {}
+
+  /*
+   Validates an update against the previous update of the same client. elapsedMilliseconds is the time since the
+   previous update was received, or null if there is no previous update to compare speed against.
+  */
+  public validate(
+    clientId: number,
+    previous: UserNetworkingClientUpdate,
+    update: UserNetworkingClientUpdate,
+    elapsedMilliseconds: number | null,
+  ): UserNetworkingMovementValidationResult {
+    const violations: Array<UserNetworkingMovementViolation> = [];
+    const { position, rotation } = update;
+    if (
+      !Number.isFinite(position.x) ||
+      !Number.isFinite(position.y) ||
+      !Number.isFinite(position.z) ||
+      !Number.isFinite(rotation.quaternionY) ||
+      !Number.isFinite(rotation.quaternionW)
+    ) {
+      violations.push({ type: "non_finite", message: "Update contains non-finite values" });
+      return { violations, update: null };
+    }
+
+    const corrected: UserNetworkingClientUpdate = {
+      id: update.id,
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { quaternionY: rotation.quaternionY, quaternionW: rotation.quaternionW },
+      state: update.state,
+    };
+
+    const maxAnimationState = this.options.maxAnimationState ?? defaultMaxAnimationState;
+    if (!Number.isInteger(update.state) || update.state < 0 || update.state > maxAnimationState) {
+      violations.push({
+        type: "invalid_animation_state",
+        message: `Invalid animation state ${update.state}`,
+      });
+      corrected.state = previous.state;
+    }
+
+    if (
+      elapsedMilliseconds !== null &&
+      !this.options.isTeleportAllowed?.(clientId, corrected.position)
+    ) {
+      const elapsedSeconds = elapsedMilliseconds / 1000 + defaultTimeTolerance;
+      const { maxHorizontalSpeed, maxVerticalSpeed } = this.options;
+      if (maxHorizontalSpeed !== undefined) {
+        const dx = corrected.position.x - previous.position.x;
+        const dz = corrected.position.z - previous.position.z;
+        const distance = Math.sqrt(dx * dx + dz * dz);
+        const maxDistance = maxHorizontalSpeed * elapsedSeconds;
+        if (distance > maxDistance) {
+          violations.push({
+            type: "speed",
+            message: `Moved ${distance.toFixed(2)}m horizontally in ${elapsedMilliseconds}ms`,
+          });
+          // Move as far as allowed in the requested direction
+          const scale = maxDistance / distance;
+          corrected.position.x = previous.position.x + dx * scale;
+          corrected.position.z = previous.position.z + dz * scale;
+        }
+      }
+      if (maxVerticalSpeed !== undefined) {
+        const dy = corrected.position.y - previous.position.y;
+        const maxDistance = maxVerticalSpeed * elapsedSeconds;
+        if (Math.abs(dy) > maxDistance) {
+          violations.push({
+            type: "speed",
+            message: `Moved ${Math.abs(dy).toFixed(2)}m vertically in ${elapsedMilliseconds}ms`,
+          });
+          corrected.position.y = previous.position.y + Math.sign(dy) * maxDistance;
+        }
+      }
+    }
+
+    const worldBounds = this.options.worldBounds;
+    if (worldBounds) {
+      const { min, max } = worldBounds;
+      const clamped = {
+        x: Math.min(Math.max(corrected.position.x, min.x), max.x),
+        y: Math.min(Math.max(corrected.position.y, min.y), max.y),
+        z: Math.min(Math.max(corrected.position.z, min.z), max.z),
+      };
+      if (
+        clamped.x !== corrected.position.x ||
+        clamped.y !== corrected.position.y ||
+        clamped.z !== corrected.position.z
+      ) {
+        violations.push({ type: "out_of_bounds", message: "Position is outside the world bounds" });
+        corrected.position = clamped;
+      }
+    }
+
+    return { violations, update: violations.length > 0 ? corrected : update };
+  }
+}
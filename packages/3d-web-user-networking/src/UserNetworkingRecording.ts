@@ -0,0 +1,95 @@
+import { UserData } from "./UserData";
+import {
+  USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+} from "./UserNetworkingBus";
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+
+export const USER_NETWORKING_RECORDING_HEADER_TYPE = "recording";
+export const USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE = "chat";
+export const USER_NETWORKING_RECORDING_VERSION = 1;
+
+// The first line of a recording
+export type UserNetworkingRecordingHeader = {
+  type: typeof USER_NETWORKING_RECORDING_HEADER_TYPE;
+  version: number;
+  // Milliseconds since epoch when the recording started
+  startTime: number;
+};
+
+// A user joined or changed their username or character
+export type UserNetworkingRecordingProfileEvent = {
+  type: typeof USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE;
+  id: number;
+  userData: UserData;
+};
+
+// The latest updates of the users that moved since the previous updates event
+export type UserNetworkingRecordingUpdatesEvent = {
+  type: typeof USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE;
+  updates: Array<UserNetworkingClientUpdate>;
+};
+
+export type UserNetworkingRecordingDisconnectedEvent = {
+  type: typeof USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE;
+  id: number;
+};
+
+export type UserNetworkingRecordingChatEvent = {
+  type: typeof USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE;
+  id: number;
+  text: string;
+};
+
+export type UserNetworkingRecordingEvent =
+  | UserNetworkingRecordingProfileEvent
+  | UserNetworkingRecordingUpdatesEvent
+  | UserNetworkingRecordingDisconnectedEvent
+  | UserNetworkingRecordingChatEvent;
+
+// Each line of a recording after the header is an entry
+export type UserNetworkingRecordingEntry = UserNetworkingRecordingEvent & {
+  // Milliseconds since the recording started
+  time: number;
+};
+
+export type UserNetworkingRecording = {
+  header: UserNetworkingRecordingHeader;
+  entries: Array<UserNetworkingRecordingEntry>;
+};
+
+export function serializeUserNetworkingRecordingLine(
+  line: UserNetworkingRecordingHeader | UserNetworkingRecordingEntry,
+): string {
+  return JSON.stringify(line) + "\n";
+}
+
+/*
+ Parses the newline-delimited JSON of a recording. Lines that cannot be parsed (e.g. a final line that was only
+ partially written when the server stopped) are skipped.
+*/
+export function parseUserNetworkingRecording(text: string): UserNetworkingRecording {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new Error("Recording is empty");
+  }
+  const header = JSON.parse(lines[0]) as UserNetworkingRecordingHeader;
+  if (header.type !== USER_NETWORKING_RECORDING_HEADER_TYPE) {
+    throw new Error("Recording does not start with a header");
+  }
+  if (header.version > USER_NETWORKING_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${header.version}`);
+  }
+  const entries: Array<UserNetworkingRecordingEntry> = [];
+  for (let i = 1; i < lines.length; i++) {
+    try {
+      entries.push(JSON.parse(lines[i]) as UserNetworkingRecordingEntry);
+    } catch (e) {
+      console.warn(`Skipping unreadable recording line ${i + 1}`, e);
+    }
+  }
+  // Entries are written in order, but sorting guards against recordings that were concatenated or edited
+  entries.sort((a, b) => a.time - b.time);
+  return { header, entries };
+}
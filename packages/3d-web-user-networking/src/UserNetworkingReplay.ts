@@ -0,0 +1,278 @@
+import { heartBeatRate, packetsUpdateRate } from "./user-networking-settings";
+import { UserData } from "./UserData";
+import {
+  USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+  UserNetworkingBus,
+  UserNetworkingBusMessage,
+} from "./UserNetworkingBus";
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+import {
+  USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE,
+  UserNetworkingRecording,
+  UserNetworkingRecordingEntry,
+  UserNetworkingRecordingEvent,
+} from "./UserNetworkingRecording";
+
+export type UserNetworkingReplayListener = (event: UserNetworkingRecordingEvent) => void;
+
+/*
+ Plays back a recording (see parseUserNetworkingRecording) by emitting its events to listeners as they occur. Seeking
+ emits the events needed to move listeners from the users present at the previous time to those present at the new
+ time, so listeners only need to apply events as they arrive. Works in browsers as well as on servers.
+*/
+export class UserNetworkingReplay {
+  private listeners = new Set<UserNetworkingReplayListener>();
+  private entries: Array<UserNetworkingRecordingEntry>;
+  private duration: number;
+
+  // The users present at the current time
+  private profiles = new Map<number, UserData>();
+  private updates = new Map<number, UserNetworkingClientUpdate>();
+
+  private currentTime = 0;
+  private nextEntryIndex = 0;
+  private speed = 1;
+  private playTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTickTime = 0;
+
+  constructor(recording: UserNetworkingRecording) {
+    this.entries = recording.entries;
+    this.duration = this.entries.length > 0 ? this.entries[this.entries.length - 1].time : 0;
+    // Start with the users that were present when the recording started
+    while (
+      this.nextEntryIndex < this.entries.length &&
+      this.entries[this.nextEntryIndex].time <= 0
+    ) {
+      this.applyEntry(this.entries[this.nextEntryIndex]);
+      this.nextEntryIndex++;
+    }
+  }
+
+  /*
+   The listener is immediately sent the profiles and updates of the users present at the current time. Returns a
+   function that removes the listener.
+  */
+  public subscribe(listener: UserNetworkingReplayListener): () => void {
+    this.listeners.add(listener);
+    for (const event of this.getStateEvents()) {
+      listener(event);
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // The events that recreate the users present at the current time
+  public getStateEvents(): Array<UserNetworkingRecordingEvent> {
+    const events: Array<UserNetworkingRecordingEvent> = [];
+    for (const [id, userData] of this.profiles) {
+      events.push({ type: USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE, id, userData });
+    }
+    if (this.updates.size > 0) {
+      events.push({
+        type: USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+        updates: Array.from(this.updates.values()),
+      });
+    }
+    return events;
+  }
+
+  // Milliseconds from the start of the recording to its last event
+  public getDuration(): number {
+    return this.duration;
+  }
+
+  public getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  public isPlaying(): boolean {
+    return this.playTimer !== null;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  // Playback restarts from the beginning if the replay had reached the end
+  public play() {
+    if (this.playTimer !== null) {
+      return;
+    }
+    if (this.currentTime >= this.duration) {
+      this.seek(0);
+    }
+    this.lastTickTime = Date.now();
+    this.playTimer = setInterval(() => this.tick(), packetsUpdateRate);
+  }
+
+  public pause() {
+    if (this.playTimer !== null) {
+      clearInterval(this.playTimer);
+      this.playTimer = null;
+    }
+  }
+
+  // The multiplier of the recording's speed (e.g. 2 plays twice as fast)
+  public setSpeed(speed: number) {
+    if (!(speed > 0) || !Number.isFinite(speed)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+    if (this.playTimer !== null) {
+      // Apply the elapsed time at the previous speed
+      this.tick();
+    }
+    this.speed = speed;
+  }
+
+  // Moves to the given time (milliseconds from the start of the recording) without emitting the chat in between
+  public seek(time: number) {
+    const targetTime = Math.min(Math.max(time, 0), this.duration);
+    const previousIds = new Set(this.profiles.keys());
+    if (targetTime < this.currentTime) {
+      this.profiles.clear();
+      this.updates.clear();
+      this.nextEntryIndex = 0;
+    }
+    while (
+      this.nextEntryIndex < this.entries.length &&
+      this.entries[this.nextEntryIndex].time <= targetTime
+    ) {
+      this.applyEntry(this.entries[this.nextEntryIndex]);
+      this.nextEntryIndex++;
+    }
+    this.currentTime = targetTime;
+    this.lastTickTime = Date.now();
+
+    for (const id of previousIds) {
+      if (!this.profiles.has(id)) {
+        this.emit({ type: USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE, id });
+      }
+    }
+    for (const event of this.getStateEvents()) {
+      this.emit(event);
+    }
+  }
+
+  public dispose() {
+    this.pause();
+    this.listeners.clear();
+  }
+
+  private tick() {
+    const now = Date.now();
+    const targetTime = Math.min(
+      this.currentTime + (now - this.lastTickTime) * this.speed,
+      this.duration,
+    );
+    this.lastTickTime = now;
+    while (
+      this.nextEntryIndex < this.entries.length &&
+      this.entries[this.nextEntryIndex].time <= targetTime
+    ) {
+      const entry = this.entries[this.nextEntryIndex];
+      this.nextEntryIndex++;
+      this.applyEntry(entry);
+      // The time is not part of the emitted event
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { time, ...event } = entry;
+      this.emit(event as UserNetworkingRecordingEvent);
+    }
+    this.currentTime = targetTime;
+    if (this.currentTime >= this.duration) {
+      this.pause();
+    }
+  }
+
+  private applyEntry(entry: UserNetworkingRecordingEntry) {
+    switch (entry.type) {
+      case USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE:
+        this.profiles.set(entry.id, entry.userData);
+        break;
+      case USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE:
+        for (const update of entry.updates) {
+          this.updates.set(update.id, update);
+        }
+        break;
+      case USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE:
+        this.profiles.delete(entry.id);
+        this.updates.delete(entry.id);
+        break;
+      case USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE:
+        break;
+    }
+  }
+
+  private emit(event: UserNetworkingRecordingEvent) {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+/*
+ Presents the users of a replay to the UserNetworkingServers on this bus as if they were connected to another server.
+ A server that only admits spectators can use this bus to show a recording to its users. Chat events are not carried
+ by the bus.
+*/
+export class UserNetworkingReplayBus implements UserNetworkingBus {
+  private listeners = new Set<(message: UserNetworkingBusMessage) => void>();
+  private unsubscribeFromReplay: (() => void) | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private replay: UserNetworkingReplay,
+    private serverId: string = "replay",
+  ) {}
+
+  public publish(message: UserNetworkingBusMessage): void {
+    if (message.type === USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE) {
+      for (const event of this.replay.getStateEvents()) {
+        this.handleReplayEvent(event);
+      }
+    }
+  }
+
+  public subscribe(listener: (message: UserNetworkingBusMessage) => void): () => void {
+    this.listeners.add(listener);
+    if (this.unsubscribeFromReplay === null) {
+      this.unsubscribeFromReplay = this.replay.subscribe((event) => this.handleReplayEvent(event));
+      // Servers remove users of other servers that stop publishing updates, which would happen while paused
+      this.keepAliveTimer = setInterval(() => {
+        for (const event of this.replay.getStateEvents()) {
+          if (event.type === USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE) {
+            this.handleReplayEvent(event);
+          }
+        }
+      }, heartBeatRate / 3);
+    } else {
+      for (const event of this.replay.getStateEvents()) {
+        this.handleReplayEvent(event);
+      }
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.unsubscribeFromReplay?.();
+        this.unsubscribeFromReplay = null;
+        if (this.keepAliveTimer !== null) {
+          clearInterval(this.keepAliveTimer);
+          this.keepAliveTimer = null;
+        }
+      }
+    };
+  }
+
+  private handleReplayEvent(event: UserNetworkingRecordingEvent) {
+    if (event.type === USER_NETWORKING_RECORDING_CHAT_EVENT_TYPE) {
+      return;
+    }
+    const message: UserNetworkingBusMessage = { ...event, serverId: this.serverId };
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+  }
+}
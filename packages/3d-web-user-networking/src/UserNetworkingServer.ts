@@ -1,38 +1,182 @@
 import WebSocket from "ws";
 
-import { heartBeatRate, packetsUpdateRate, pingPongRate } from "./user-networking-settings";
+import { SpatialHashGrid } from "./SpatialHashGrid";
+import {
+  heartBeatRate,
+  packetsUpdateRate,
+  pingPongRate,
+  teleportAcknowledgementTimeout,
+} from "./user-networking-settings";
 import { UserData } from "./UserData";
+import {
+  USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE,
+  USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+  UserNetworkingBus,
+  UserNetworkingBusMessage,
+} from "./UserNetworkingBus";
 import { UserNetworkingClientUpdate, UserNetworkingCodec } from "./UserNetworkingCodec";
 import {
   FromUserNetworkingClientMessage,
   FromUserNetworkingServerMessage,
   USER_NETWORKING_AUTHENTICATION_FAILED_ERROR_TYPE,
+  USER_NETWORKING_BANNED_ERROR_TYPE,
   USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
+  USER_NETWORKING_CUSTOM_MESSAGE_TYPE,
   USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
   USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
+  USER_NETWORKING_KICKED_ERROR_TYPE,
+  USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE,
   USER_NETWORKING_PONG_MESSAGE_TYPE,
+  USER_NETWORKING_QUEUE_MESSAGE_TYPE,
+  USER_NETWORKING_PROTOCOL_FEATURES,
+  USER_NETWORKING_PROTOCOL_VERSION,
+  USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+  USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES,
   USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+  USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE,
+  USER_NETWORKING_TELEPORT_FEATURE,
+  USER_NETWORKING_TELEPORT_MESSAGE_TYPE,
+  USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE,
   USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE,
   USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
   USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE,
   UserIdentity,
   UserNetworkingAuthenticateMessage,
+  UserNetworkingServerBroadcast,
   UserNetworkingServerError,
+  UserNetworkingServerErrorType,
   UserNetworkingUserUpdateMessage,
 } from "./UserNetworkingMessages";
+import {
+  UserNetworkingMovementValidationOptions,
+  UserNetworkingMovementValidator,
+} from "./UserNetworkingMovementValidator";
+import {
+  UserNetworkingVirtualClient,
+  UserNetworkingVirtualClientState,
+} from "./UserNetworkingVirtualClient";
 
 export type UserNetworkingServerClient = {
   socket: WebSocket;
   id: number;
   lastPong: number;
   update: UserNetworkingClientUpdate;
+  // When the last update was received, or null if the next update should not be checked against the previous one
+  lastUpdateTime: number | null;
   authenticatedUser: UserData | null;
+  // The session token that the client authenticated with
+  sessionToken: string | null;
+  // Set while the slot of a disconnected client is held for it to resume (see sessionResumptionGracePeriod)
+  suspendedTimeout: NodeJS.Timeout | null;
+  // The protocol version and features negotiated during authentication
+  protocolVersion: number;
+  features: Array<string>;
+  // The ids of the other clients that this client has been told about (only used with interest management)
+  visibleClientIds: Set<number>;
+  /*
+   Set while waiting for the client to acknowledge a teleport. Updates from the client are ignored until then as they
+   were sent before the client applied the teleport.
+  */
+  pendingTeleport: {
+    teleportId: number;
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+  } | null;
+};
+
+// The details of a connected client that are made available to code outside of the server
+export type UserNetworkingServerClientInfo = {
+  id: number;
+  userData: UserData;
+  position: { x: number; y: number; z: number };
+};
+
+// A client connected to another server that shares this server's bus
+type UserNetworkingServerRemoteClient = {
+  serverId: string;
+  id: number;
+  update: UserNetworkingClientUpdate;
+  authenticatedUser: UserData;
+  lastBusMessage: number;
+};
+
+// Clients that authenticate with the session token, or as a user with the username, are banned
+export type UserNetworkingBanIdentity = {
+  sessionToken?: string;
+  username?: string;
+};
+
+type UserNetworkingBan = {
+  reason: string;
+  // Milliseconds since epoch, or null if the ban does not expire
+  expiresAt: number | null;
+};
+
+// A client that authenticated while the server was at its connection limit (see queueWhenFull)
+type UserNetworkingServerQueuedClient = {
+  client: UserNetworkingServerClient;
+  userData: UserData;
+  sessionToken: string;
 };
 
 const WebSocketOpenStatus = 1;
+// Remote clients are removed if their server stops publishing updates for this long (e.g. the process crashed)
+const remoteClientTimeout = heartBeatRate;
+
+export type UserNetworkingServerInterestManagementOptions = {
+  // Clients only receive updates, profiles and disconnections for other clients within this distance
+  radius: number;
+  /*
+   Clients that are already visible are kept until they move beyond this distance to avoid repeatedly spawning and
+   despawning characters that are moving along the boundary. Defaults to 10% beyond the radius.
+  */
+  exitRadius?: number;
+  // The size of the grid cells used to bucket clients. Defaults to the radius.
+  cellSize?: number;
+};
 
 export type UserNetworkingServerOptions = {
   connectionLimit?: number;
+  /*
+   If set, clients that authenticate when the connectionLimit has been reached are kept connected in a queue (and told
+   their position in it) rather than rejected. Queued clients are admitted in order as slots become available.
+  */
+  queueWhenFull?: boolean;
+  /*
+   Clients that can only speak an older protocol version than this are rejected with an
+   UNSUPPORTED_PROTOCOL_VERSION error. Defaults to accepting legacy clients so that clients that are still cached in
+   browsers continue to work during a rollout.
+  */
+  minimumProtocolVersion?: number;
+  interestManagement?: UserNetworkingServerInterestManagementOptions;
+  /*
+   If set, a disconnected client's id, profile and last position are held for this many milliseconds. A client that
+   reconnects with the same session token within this period resumes with the same id and other clients do not see it
+   leave and rejoin. onClientDisconnect is only called once the period has elapsed.
+  */
+  sessionResumptionGracePeriod?: number;
+  /*
+   If set, the clients of this server are published on the bus and the clients of the other servers on the bus are
+   presented to this server's clients as if they were connected locally. Each server on a bus must be given a distinct
+   clientIdRange so that client ids are globally unique.
+  */
+  bus?: UserNetworkingBus;
+  // Identifies this server on the bus. Defaults to a random id.
+  serverId?: string;
+  // The (inclusive) range of ids to assign to clients of this server. Defaults to 1-65535.
+  clientIdRange?: { min: number; max: number };
+  // If set, updates from clients are checked for invalid values and impossible movement
+  movementValidation?: UserNetworkingMovementValidationOptions;
+  // Sent to clients with their identity to show which of several servers for the same world they are connected to
+  instanceName?: string;
+  /*
+   How long (milliseconds) to wait for a client to acknowledge a teleport before accepting its updates again and
+   rejecting the teleport's promise. Defaults to teleportAcknowledgementTimeout.
+  */
+  teleportAcknowledgementTimeout?: number;
   onClientConnect: (
     clientId: number,
     sessionToken: string,
@@ -43,17 +187,52 @@ export type UserNetworkingServerOptions = {
     userIdentity: UserIdentity,
   ) => Promise<UserData | null> | UserData | null;
   onClientDisconnect: (clientId: number) => void;
+  // Called when an authenticated client sends a custom message
+  onClientCustomMessage?: (clientId: number, customType: string, payload: any) => void;
+  // Called when a virtual client sends a chat message (e.g. to send it with a ChatNetworkingServer)
+  onVirtualClientChatMessage?: (clientId: number, text: string) => void;
 };
 
 export class UserNetworkingServer {
   private allClientsById = new Map<number, UserNetworkingServerClient>();
   private authenticatedClientsById: Map<number, UserNetworkingServerClient> = new Map();
+  // Authenticated clients (including suspended ones) by the session token they authenticated with
+  private clientsBySessionToken = new Map<string, UserNetworkingServerClient>();
+  private remoteClientsById = new Map<number, UserNetworkingServerRemoteClient>();
+  private virtualClientsById = new Map<number, UserNetworkingVirtualClientState>();
+  private bansBySessionToken = new Map<string, UserNetworkingBan>();
+  private bansByUsername = new Map<string, UserNetworkingBan>();
+  private queuedClients: Array<UserNetworkingServerQueuedClient> = [];
+  private serverId: string;
+  private unsubscribeFromBus: (() => void) | null = null;
+  private spatialGrid: SpatialHashGrid | null = null;
+  private movementValidator: UserNetworkingMovementValidator | null = null;
+  private tick = 0;
+  private teleportCounter = 0;
 
   private sendUpdatesIntervalTimer: NodeJS.Timeout;
   private pingClientsIntervalTimer: NodeJS.Timeout;
   private heartbeatIntervalTimer: NodeJS.Timeout;
 
   constructor(private options: UserNetworkingServerOptions) {
+    if (this.options.interestManagement) {
+      const { radius, cellSize } = this.options.interestManagement;
+      this.spatialGrid = new SpatialHashGrid(cellSize ?? radius);
+    }
+    if (this.options.movementValidation) {
+      this.movementValidator = new UserNetworkingMovementValidator(this.options.movementValidation);
+    }
+    this.serverId =
+      this.options.serverId ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    if (this.options.bus) {
+      this.unsubscribeFromBus = this.options.bus.subscribe((message) =>
+        this.handleBusMessage(message),
+      );
+      this.options.bus.publish({
+        type: USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE,
+        serverId: this.serverId,
+      });
+    }
     this.sendUpdatesIntervalTimer = setInterval(this.sendUpdates.bind(this), packetsUpdateRate);
     this.pingClientsIntervalTimer = setInterval(this.pingClients.bind(this), pingPongRate);
     this.heartbeatIntervalTimer = setInterval(this.heartBeat.bind(this), heartBeatRate);
@@ -62,11 +241,21 @@ export class UserNetworkingServer {
   private heartBeat() {
     const now = Date.now();
     this.allClientsById.forEach((client) => {
+      if (client.suspendedTimeout) {
+        // Already disconnected and waiting to be resumed
+        return;
+      }
       if (now - client.lastPong > heartBeatRate) {
         client.socket.close();
         this.handleDisconnectedClient(client);
       }
     });
+    for (const [id, remoteClient] of this.remoteClientsById) {
+      if (now - remoteClient.lastBusMessage > remoteClientTimeout) {
+        console.warn(`Remote client ${id} from server ${remoteClient.serverId} timed out`);
+        this.removeRemoteClient(remoteClient);
+      }
+    }
   }
 
   private pingClients() {
@@ -77,40 +266,265 @@ export class UserNetworkingServer {
         client.socket.send(messageString);
       }
     });
+    // Queued clients are kept alive by the heartbeat while they wait
+    for (const { client } of this.queuedClients) {
+      if (client.socket.readyState === WebSocketOpenStatus) {
+        client.socket.send(messageString);
+      }
+    }
   }
 
   private getId(): number {
-    let id = 1;
-    while (this.allClientsById.has(id)) {
+    const { min, max } = this.options.clientIdRange ?? { min: 1, max: 65535 };
+    let id = min;
+    while (
+      this.allClientsById.has(id) ||
+      this.remoteClientsById.has(id) ||
+      this.virtualClientsById.has(id)
+    ) {
       id++;
     }
+    if (id > max) {
+      throw new Error(`No client ids available in the range ${min}-${max}`);
+    }
     return id;
   }
 
   public broadcastMessage(broadcastType: string, broadcastPayload: any) {
-    const message: FromUserNetworkingServerMessage = {
+    this.sendBroadcast(
+      this.authenticatedClientsById.values(),
+      broadcastType,
+      broadcastPayload,
+      false,
+    );
+  }
+
+  // Returns false if the client is not connected
+  public sendToClient(clientId: number, broadcastType: string, broadcastPayload: any): boolean {
+    const client = this.authenticatedClientsById.get(clientId);
+    if (!client) {
+      return false;
+    }
+    this.sendBroadcast([client], broadcastType, broadcastPayload, true);
+    return true;
+  }
+
+  // Clients that are not connected are skipped
+  public sendToClients(clientIds: Iterable<number>, broadcastType: string, broadcastPayload: any) {
+    const clients: Array<UserNetworkingServerClient> = [];
+    for (const clientId of clientIds) {
+      const client = this.authenticatedClientsById.get(clientId);
+      if (client) {
+        clients.push(client);
+      }
+    }
+    this.sendBroadcast(clients, broadcastType, broadcastPayload, true);
+  }
+
+  // Sends to every connected client that the predicate returns true for (e.g. all clients within a region)
+  public sendToMatchingClients(
+    predicate: (client: UserNetworkingServerClientInfo) => boolean,
+    broadcastType: string,
+    broadcastPayload: any,
+  ) {
+    const clients: Array<UserNetworkingServerClient> = [];
+    for (const client of this.authenticatedClientsById.values()) {
+      const clientInfo = this.getClientInfo(client);
+      if (clientInfo && predicate(clientInfo)) {
+        clients.push(client);
+      }
+    }
+    this.sendBroadcast(clients, broadcastType, broadcastPayload, true);
+  }
+
+  // Returns the clients connected to this server (excluding those of other servers on the bus)
+  public getClients(): Array<UserNetworkingServerClientInfo> {
+    const clients: Array<UserNetworkingServerClientInfo> = [];
+    for (const client of this.authenticatedClientsById.values()) {
+      const clientInfo = this.getClientInfo(client);
+      if (clientInfo) {
+        clients.push(clientInfo);
+      }
+    }
+    return clients;
+  }
+
+  public getClient(clientId: number): UserNetworkingServerClientInfo | null {
+    const client = this.authenticatedClientsById.get(clientId);
+    return client ? this.getClientInfo(client) : null;
+  }
+
+  // The user data of any user known to this server, including virtual clients and users of other servers on the bus
+  public getUserData(clientId: number): UserData | null {
+    const client =
+      this.authenticatedClientsById.get(clientId) ??
+      this.remoteClientsById.get(clientId) ??
+      this.virtualClientsById.get(clientId);
+    return client?.authenticatedUser ?? null;
+  }
+
+  // The latest position of any user known to this server, including virtual clients and users of other servers on the bus
+  public getClientPosition(clientId: number): { x: number; y: number; z: number } | null {
+    const localClient = this.authenticatedClientsById.get(clientId);
+    if (localClient) {
+      return localClient.authenticatedUser ? localClient.update.position : null;
+    }
+    const client = this.remoteClientsById.get(clientId) ?? this.virtualClientsById.get(clientId);
+    return client?.update.position ?? null;
+  }
+
+  // The number of clients holding a slot, including clients that are authenticating or suspended but not spectators
+  public getClientCount(): number {
+    return this.allClientsById.size - this.getSpectatorCount();
+  }
+
+  // Whether a (connected or suspended) client authenticated with the session token
+  public hasSessionToken(sessionToken: string): boolean {
+    return this.clientsBySessionToken.has(sessionToken);
+  }
+
+  public isSessionTokenBanned(sessionToken: string): boolean {
+    return this.getBan(this.bansBySessionToken, sessionToken) !== null;
+  }
+
+  /*
+   Adds a server-driven user that connected clients see (and that is published on the bus) as if it were a connected
+   user. Virtual clients do not count towards the connection limit and are not passed to onClientConnect or
+   onClientDisconnect.
+  */
+  public createVirtualClient(
+    userData: UserData,
+    position: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 },
+    rotation: { quaternionY: number; quaternionW: number } = { quaternionY: 0, quaternionW: 1 },
+  ): UserNetworkingVirtualClient {
+    const id = this.getId();
+    console.log(`Virtual client ID: ${id} created`);
+    const virtualClient: UserNetworkingVirtualClientState = {
+      id,
+      update: { id, position: { ...position }, rotation: { ...rotation }, state: 0 },
+      authenticatedUser: userData,
+    };
+    this.virtualClientsById.set(id, virtualClient);
+    this.publishProfile(virtualClient);
+
+    if (!this.spatialGrid) {
+      // With interest management, the virtual client is introduced by the next sendUpdates tick to clients in range
+      const profileMessage = this.createProfileMessage(virtualClient);
+      const encodedUpdate = UserNetworkingCodec.encodeUpdate(virtualClient.update);
+      for (const [, client] of this.authenticatedClientsById) {
+        if (client.socket.readyState === WebSocketOpenStatus) {
+          client.socket.send(profileMessage);
+          this.sendEncodedUpdates(client, [encodedUpdate]);
+        }
+      }
+    }
+
+    return new UserNetworkingVirtualClient(virtualClient, {
+      onUserDataUpdated: (updatedUserData: UserData) => {
+        if (this.virtualClientsById.get(id) === virtualClient) {
+          this.publishProfile(virtualClient);
+          this.sendProfileToClients(id, updatedUserData);
+        }
+      },
+      onChatMessage: (text: string) => {
+        if (this.virtualClientsById.get(id) === virtualClient) {
+          this.options.onVirtualClientChatMessage?.(id, text);
+        }
+      },
+      onRemove: () => {
+        if (this.virtualClientsById.get(id) === virtualClient) {
+          console.log(`Virtual client ID: ${id} removed`);
+          this.virtualClientsById.delete(id);
+          this.options.bus?.publish({
+            type: USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+            serverId: this.serverId,
+            id,
+          });
+          this.sendDisconnectToClients(id);
+        }
+      },
+    });
+  }
+
+  public getVirtualClientCount(): number {
+    return this.virtualClientsById.size;
+  }
+
+  private getClientInfo(client: UserNetworkingServerClient): UserNetworkingServerClientInfo | null {
+    if (!client.authenticatedUser) {
+      return null;
+    }
+    return {
+      id: client.id,
+      userData: client.authenticatedUser,
+      position: client.update.position,
+    };
+  }
+
+  private sendBroadcast(
+    clients: Iterable<UserNetworkingServerClient>,
+    broadcastType: string,
+    broadcastPayload: any,
+    targeted: boolean,
+  ) {
+    const message: UserNetworkingServerBroadcast = {
       type: "broadcast",
       broadcastType,
       payload: broadcastPayload,
     };
+    if (targeted) {
+      message.targeted = true;
+    }
     const messageString = JSON.stringify(message);
-    for (const [, client] of this.authenticatedClientsById) {
+    for (const client of clients) {
       if (client.socket.readyState === WebSocketOpenStatus) {
         client.socket.send(messageString);
       }
     }
   }
 
-  public connectClient(socket: WebSocket) {
+  /*
+   Sends a custom message to the given clients, or to every authenticated client if clientIds is not provided. Unknown
+   and disconnected clients are skipped.
+  */
+  public sendCustomMessage(customType: string, payload: any, clientIds?: Iterable<number>) {
+    const message: FromUserNetworkingServerMessage = {
+      type: USER_NETWORKING_CUSTOM_MESSAGE_TYPE,
+      customType,
+      payload,
+    };
+    const messageString = JSON.stringify(message);
+    const clients = clientIds
+      ? Array.from(clientIds, (clientId) => this.authenticatedClientsById.get(clientId))
+      : this.authenticatedClientsById.values();
+    for (const client of clients) {
+      if (client && client.socket.readyState === WebSocketOpenStatus) {
+        client.socket.send(messageString);
+      }
+    }
+  }
+
+  /*
+   initialMessage is a message that was already received from the socket before it was passed to this server (e.g. to
+   read the session token in order to choose between servers). It is handled as if it had just been received.
+  */
+  public connectClient(socket: WebSocket, initialMessage?: WebSocket.Data) {
     const id = this.getId();
     console.log(`Client ID: ${id} joined, waiting for user-identification`);
 
-    // Create a client but without user information
-    const client: UserNetworkingServerClient = {
+    // Create a client but without user information. This is replaced by the suspended client if a session is resumed.
+    let client: UserNetworkingServerClient = {
       id,
       lastPong: Date.now(),
       socket: socket as WebSocket,
+      lastUpdateTime: null,
       authenticatedUser: null,
+      sessionToken: null,
+      suspendedTimeout: null,
+      protocolVersion: USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+      features: [],
+      visibleClientIds: new Set(),
+      pendingTeleport: null,
       update: {
         id,
         position: { x: 0, y: 0, z: 0 },
@@ -120,11 +534,27 @@ export class UserNetworkingServer {
     };
     this.allClientsById.set(id, client);
 
-    socket.on("message", (message: WebSocket.Data, _isBinary: boolean) => {
+    const handleMessage = (message: WebSocket.Data) => {
       if (message instanceof Buffer) {
         const arrayBuffer = new Uint8Array(message).buffer;
-        const update = UserNetworkingCodec.decodeUpdate(arrayBuffer);
-        update.id = id;
+        let update;
+        try {
+          update = UserNetworkingCodec.decodeUpdate(arrayBuffer);
+        } catch (e) {
+          console.error(`Error decoding update from client ${client.id}`, e);
+          return;
+        }
+        if (client.pendingTeleport || client.authenticatedUser?.spectator) {
+          return;
+        }
+        update.id = client.id;
+        if (this.movementValidator) {
+          const validatedUpdate = this.validateUpdate(this.movementValidator, client, update);
+          if (validatedUpdate === null) {
+            return;
+          }
+          update = validatedUpdate;
+        }
         client.update = update;
       } else {
         let parsed;
@@ -135,7 +565,40 @@ export class UserNetworkingServer {
           return;
         }
         if (!client.authenticatedUser) {
+          if (this.queuedClients.some((queuedClient) => queuedClient.client === client)) {
+            // Queued clients only respond to pings until they are admitted
+            if (parsed.type === USER_NETWORKING_PONG_MESSAGE_TYPE) {
+              client.lastPong = Date.now();
+            }
+            return;
+          }
           if (parsed.type === USER_NETWORKING_USER_AUTHENTICATE_MESSAGE_TYPE) {
+            if (!this.negotiateProtocol(client, parsed)) {
+              const serverError = JSON.stringify({
+                type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+                errorType: USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE,
+                message: `Protocol version ${client.protocolVersion} is no longer supported`,
+              } as FromUserNetworkingServerMessage);
+              socket.send(serverError);
+              socket.close();
+              return;
+            }
+            const sessionTokenBan = this.getBan(this.bansBySessionToken, parsed.sessionToken);
+            if (sessionTokenBan) {
+              this.disconnectClientWithError(
+                client,
+                USER_NETWORKING_BANNED_ERROR_TYPE,
+                this.getBanMessage(sessionTokenBan),
+              );
+              return;
+            }
+            const resumableClient = this.options.sessionResumptionGracePeriod
+              ? this.clientsBySessionToken.get(parsed.sessionToken)
+              : undefined;
+            if (resumableClient) {
+              client = this.resumeClient(resumableClient, client);
+              return;
+            }
             this.handleUserAuth(client, parsed).then((authResult) => {
               if (client.socket.readyState !== WebSocketOpenStatus) {
                 // The client disconnected before the authentication was completed
@@ -150,69 +613,42 @@ export class UserNetworkingServer {
                 } as FromUserNetworkingServerMessage);
                 socket.send(serverError);
                 socket.close();
-              } else {
-                if (
-                  this.options.connectionLimit !== undefined &&
-                  this.authenticatedClientsById.size >= this.options.connectionLimit
-                ) {
-                  // There is a connection limit and it has been met - disconnect the user
-                  const serverError = JSON.stringify({
-                    type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
-                    errorType: USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
-                    message: "Connection limit reached",
-                  } as FromUserNetworkingServerMessage);
-                  socket.send(serverError);
-                  socket.close();
-                  return;
-                }
-
-                const userData = authResult;
-                client.authenticatedUser = userData;
+                return;
+              }
 
-                // Give the client its own profile
-                const userProfileMessage = JSON.stringify({
-                  id: client.id,
-                  type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
-                  username: userData.username,
-                  characterDescription: userData.characterDescription,
-                } as FromUserNetworkingServerMessage);
-                client.socket.send(userProfileMessage);
+              const usernameBan = this.getBan(this.bansByUsername, authResult.username);
+              if (usernameBan) {
+                this.disconnectClientWithError(
+                  client,
+                  USER_NETWORKING_BANNED_ERROR_TYPE,
+                  this.getBanMessage(usernameBan),
+                );
+                return;
+              }
 
-                // Give the client its own identity
-                const identityMessage = JSON.stringify({
-                  id: client.id,
-                  type: USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
-                } as FromUserNetworkingServerMessage);
-                client.socket.send(identityMessage);
-
-                const userUpdateMessage = UserNetworkingCodec.encodeUpdate(client.update);
-
-                // Send information about all other clients to the freshly connected client and vice versa
-                for (const [, otherClient] of this.authenticatedClientsById) {
-                  if (
-                    otherClient.socket.readyState !== WebSocketOpenStatus ||
-                    otherClient === client
-                  ) {
-                    // Do not send updates for any clients which have not yet authenticated or not yet connected
-                    continue;
-                  }
-                  // Send the character information
-                  client.socket.send(
-                    JSON.stringify({
-                      id: otherClient.update.id,
-                      type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
-                      username: otherClient.authenticatedUser?.username,
-                      characterDescription: otherClient.authenticatedUser?.characterDescription,
-                    } as FromUserNetworkingServerMessage),
-                  );
-                  client.socket.send(UserNetworkingCodec.encodeUpdate(otherClient.update));
-
-                  otherClient.socket.send(userProfileMessage);
-                  otherClient.socket.send(userUpdateMessage);
+              if (!authResult.spectator && this.isAtConnectionLimit()) {
+                if (this.options.queueWhenFull) {
+                  // Keep the connection open until a slot is available
+                  this.queuedClients.push({
+                    client,
+                    userData: authResult,
+                    sessionToken: parsed.sessionToken,
+                  });
+                  this.sendQueuePositions(this.queuedClients.length - 1);
+                  return;
                 }
-
-                this.authenticatedClientsById.set(id, client);
+                // There is a connection limit and it has been met - disconnect the user
+                const serverError = JSON.stringify({
+                  type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+                  errorType: USER_NETWORKING_CONNECTION_LIMIT_REACHED_ERROR_TYPE,
+                  message: "Connection limit reached",
+                } as FromUserNetworkingServerMessage);
+                socket.send(serverError);
+                socket.close();
+                return;
               }
+
+              this.admitClient(client, authResult, parsed.sessionToken);
             });
           } else {
             console.error(`Unhandled message pre-auth: ${JSON.stringify(parsed)}`);
@@ -225,7 +661,30 @@ export class UserNetworkingServer {
               break;
 
             case USER_NETWORKING_USER_UPDATE_MESSAGE_TYPE:
-              this.handleUserUpdate(id, parsed as UserNetworkingUserUpdateMessage);
+              this.handleUserUpdate(client.id, parsed as UserNetworkingUserUpdateMessage);
+              break;
+
+            case USER_NETWORKING_TELEPORT_ACK_MESSAGE_TYPE:
+              if (
+                client.pendingTeleport &&
+                client.pendingTeleport.teleportId === parsed.teleportId
+              ) {
+                this.settlePendingTeleport(client, null);
+              }
+              break;
+
+            case USER_NETWORKING_CUSTOM_MESSAGE_TYPE:
+              if (typeof parsed.customType !== "string") {
+                console.error(`Invalid custom message: ${JSON.stringify(parsed)}`);
+              } else if (this.options.onClientCustomMessage) {
+                try {
+                  this.options.onClientCustomMessage(client.id, parsed.customType, parsed.payload);
+                } catch (e) {
+                  console.error("Error handling custom message", e);
+                }
+              } else {
+                console.warn(`Unhandled custom message: ${parsed.customType}`);
+              }
               break;
 
             default:
@@ -233,33 +692,574 @@ export class UserNetworkingServer {
           }
         }
       }
-    });
+    };
+    socket.on("message", handleMessage);
 
     socket.on("close", () => {
-      console.log("Client disconnected", id);
+      if (client.socket !== socket) {
+        // The session was taken over by a newer connection
+        return;
+      }
+      console.log("Client disconnected", client.id);
       this.handleDisconnectedClient(client);
     });
+
+    if (initialMessage !== undefined) {
+      handleMessage(initialMessage);
+    }
+  }
+
+  // Whether a newly authenticated client would exceed the connection limit (or would skip ahead of queued clients)
+  private isAtConnectionLimit(): boolean {
+    if (this.options.connectionLimit === undefined) {
+      return false;
+    }
+    return (
+      this.authenticatedClientsById.size - this.getSpectatorCount() >=
+        this.options.connectionLimit || this.queuedClients.length > 0
+    );
+  }
+
+  private getSpectatorCount(): number {
+    let count = 0;
+    for (const client of this.authenticatedClientsById.values()) {
+      if (client.authenticatedUser?.spectator) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private admitClient(
+    client: UserNetworkingServerClient,
+    userData: UserData,
+    sessionToken: string,
+  ) {
+    client.authenticatedUser = userData;
+    client.sessionToken = sessionToken;
+    this.clientsBySessionToken.set(sessionToken, client);
+
+    // Give the client its own profile
+    const userProfileMessage = JSON.stringify({
+      id: client.id,
+      type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
+      username: userData.username,
+      characterDescription: userData.characterDescription,
+    } as FromUserNetworkingServerMessage);
+    client.socket.send(userProfileMessage);
+
+    // Give the client its own identity
+    const identityMessage = JSON.stringify({
+      id: client.id,
+      type: USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
+      protocolVersion: client.protocolVersion,
+      features: client.features,
+      instanceName: this.options.instanceName,
+      spectator: userData.spectator,
+    } as FromUserNetworkingServerMessage);
+    client.socket.send(identityMessage);
+
+    this.publishProfile(client);
+    if (this.spatialGrid) {
+      // Other clients are introduced by the next sendUpdates tick if they are within range
+      this.authenticatedClientsById.set(client.id, client);
+      return;
+    }
+
+    // Send information about the freshly connected client to all other clients and vice versa
+    if (!userData.spectator) {
+      const encodedUserUpdate = UserNetworkingCodec.encodeUpdate(client.update);
+      for (const [, otherClient] of this.authenticatedClientsById) {
+        if (otherClient.socket.readyState !== WebSocketOpenStatus) {
+          // Do not send updates to any clients which are not connected
+          continue;
+        }
+        otherClient.socket.send(userProfileMessage);
+        this.sendEncodedUpdates(otherClient, [encodedUserUpdate]);
+      }
+    }
+    this.sendAllUsersToClient(client);
+
+    this.authenticatedClientsById.set(client.id, client);
+  }
+
+  // Admits queued clients in order while there are slots available
+  private admitQueuedClients() {
+    const connectionLimit = this.options.connectionLimit;
+    let admitted = false;
+    while (
+      this.queuedClients.length > 0 &&
+      (connectionLimit === undefined ||
+        this.authenticatedClientsById.size - this.getSpectatorCount() < connectionLimit)
+    ) {
+      const queuedClient = this.queuedClients.shift()!;
+      if (queuedClient.client.socket.readyState !== WebSocketOpenStatus) {
+        continue;
+      }
+      console.log(`Client ID: ${queuedClient.client.id} admitted from the queue`);
+      this.admitClient(queuedClient.client, queuedClient.userData, queuedClient.sessionToken);
+      admitted = true;
+    }
+    if (admitted) {
+      this.sendQueuePositions(0);
+    }
+  }
+
+  private removeQueuedClient(client: UserNetworkingServerClient) {
+    const index = this.queuedClients.findIndex((queuedClient) => queuedClient.client === client);
+    if (index !== -1) {
+      this.queuedClients.splice(index, 1);
+      this.sendQueuePositions(index);
+    }
+  }
+
+  // Sends the queued clients from the given index onwards their (changed) position
+  private sendQueuePositions(fromIndex: number) {
+    for (let i = fromIndex; i < this.queuedClients.length; i++) {
+      const { socket } = this.queuedClients[i].client;
+      if (socket.readyState === WebSocketOpenStatus) {
+        socket.send(
+          JSON.stringify({
+            type: USER_NETWORKING_QUEUE_MESSAGE_TYPE,
+            position: i + 1,
+          } as FromUserNetworkingServerMessage),
+        );
+      }
+    }
+  }
+
+  /*
+   Moves the (suspended or still connected) client to the socket that the pendingClient connected with. The
+   pendingClient's id is released and the resumed client is returned.
+  */
+  private resumeClient(
+    client: UserNetworkingServerClient,
+    pendingClient: UserNetworkingServerClient,
+  ): UserNetworkingServerClient {
+    console.log(`Client ID: ${client.id} resumed session (connected as ${pendingClient.id})`);
+    this.allClientsById.delete(pendingClient.id);
+    if (client.suspendedTimeout) {
+      clearTimeout(client.suspendedTimeout);
+      client.suspendedTimeout = null;
+    }
+    this.rejectPendingTeleport(client);
+    const previousSocket = client.socket;
+    client.socket = pendingClient.socket;
+    client.lastPong = Date.now();
+    // The client may have moved while disconnected
+    client.lastUpdateTime = null;
+    client.protocolVersion = pendingClient.protocolVersion;
+    client.features = pendingClient.features;
+    if (previousSocket.readyState === WebSocketOpenStatus) {
+      // The previous connection has not been detected as closed yet
+      previousSocket.close();
+    }
+
+    client.socket.send(this.createProfileMessage(client));
+    client.socket.send(
+      JSON.stringify({
+        id: client.id,
+        type: USER_NETWORKING_IDENTITY_MESSAGE_TYPE,
+        protocolVersion: client.protocolVersion,
+        features: client.features,
+        instanceName: this.options.instanceName,
+        spectator: client.authenticatedUser?.spectator,
+      } as FromUserNetworkingServerMessage),
+    );
+
+    // The client cleared its view of the other clients when it disconnected
+    client.visibleClientIds = new Set();
+    if (!this.spatialGrid) {
+      this.sendAllUsersToClient(client);
+    }
+    return client;
+  }
+
+  // Sends the profiles and latest updates of all other local and remote clients to the client
+  private sendAllUsersToClient(client: UserNetworkingServerClient) {
+    const otherClientUpdates: Array<Uint8Array> = [];
+    for (const otherClient of [
+      ...this.authenticatedClientsById.values(),
+      ...this.remoteClientsById.values(),
+      ...this.virtualClientsById.values(),
+    ]) {
+      if (otherClient === client || otherClient.authenticatedUser?.spectator) {
+        continue;
+      }
+      client.socket.send(this.createProfileMessage(otherClient));
+      otherClientUpdates.push(UserNetworkingCodec.encodeUpdate(otherClient.update));
+    }
+    this.sendEncodedUpdates(client, otherClientUpdates);
+  }
+
+  // Returns the update to apply, or null if the update should be ignored
+  private validateUpdate(
+    movementValidator: UserNetworkingMovementValidator,
+    client: UserNetworkingServerClient,
+    update: UserNetworkingClientUpdate,
+  ): UserNetworkingClientUpdate | null {
+    const now = Date.now();
+    const elapsedMilliseconds = client.lastUpdateTime === null ? null : now - client.lastUpdateTime;
+    client.lastUpdateTime = now;
+    const result = movementValidator.validate(
+      client.id,
+      client.update,
+      update,
+      elapsedMilliseconds,
+    );
+    if (result.violations.length === 0) {
+      return update;
+    }
+
+    const action =
+      this.options.movementValidation?.onInvalidMovement?.(client.id, result.violations) ?? "log";
+    const violationMessages = result.violations.map((violation) => violation.message).join(", ");
+    console.warn(`Client-id ${client.id} sent an invalid update (${action}): ${violationMessages}`);
+    switch (action) {
+      case "kick":
+        this.disconnectClientWithError(
+          client,
+          USER_NETWORKING_MOVEMENT_VALIDATION_FAILED_ERROR_TYPE,
+          "Disconnected for invalid movement",
+        );
+        return null;
+      case "correct": {
+        const correctedUpdate = result.update ?? client.update;
+        if (
+          client.authenticatedUser &&
+          client.features.includes(USER_NETWORKING_TELEPORT_FEATURE)
+        ) {
+          this.teleportClient(client.id, correctedUpdate.position, correctedUpdate.rotation).catch(
+            (e) => {
+              console.warn(`Failed to correct the position of client-id ${client.id}`, e);
+            },
+          );
+          return null;
+        }
+        return result.update;
+      }
+      default:
+        return result.update;
+    }
+  }
+
+  // Returns false if the client is not connected
+  public kickClient(clientId: number, reason: string): boolean {
+    const client = this.allClientsById.get(clientId);
+    if (!client || client.suspendedTimeout !== null) {
+      return false;
+    }
+    console.log(`Kicking client-id ${clientId}: ${reason}`);
+    this.disconnectClientWithError(client, USER_NETWORKING_KICKED_ERROR_TYPE, reason);
+    return true;
+  }
+
+  /*
+   Disconnects the client and prevents it from reconnecting with the same session token or as the same user until the
+   ban expires (or indefinitely if no duration is given). Returns false if the client is not connected.
+  */
+  public banClient(clientId: number, reason: string, durationMilliseconds?: number): boolean {
+    const client = this.allClientsById.get(clientId);
+    if (!client) {
+      return false;
+    }
+    this.banIdentity(
+      {
+        sessionToken: client.sessionToken ?? undefined,
+        username: client.authenticatedUser?.username,
+      },
+      reason,
+      durationMilliseconds,
+    );
+    return true;
+  }
+
+  // Bans the session token and/or username and disconnects any clients that are connected with them
+  public banIdentity(
+    identity: UserNetworkingBanIdentity,
+    reason: string,
+    durationMilliseconds?: number,
+  ) {
+    const ban: UserNetworkingBan = {
+      reason,
+      expiresAt: durationMilliseconds !== undefined ? Date.now() + durationMilliseconds : null,
+    };
+    if (identity.sessionToken !== undefined) {
+      this.bansBySessionToken.set(identity.sessionToken, ban);
+    }
+    if (identity.username !== undefined) {
+      this.bansByUsername.set(identity.username, ban);
+    }
+    for (const client of Array.from(this.allClientsById.values())) {
+      if (
+        (identity.sessionToken !== undefined && client.sessionToken === identity.sessionToken) ||
+        (identity.username !== undefined &&
+          client.authenticatedUser?.username === identity.username)
+      ) {
+        console.log(`Banning client-id ${client.id}: ${reason}`);
+        if (client.suspendedTimeout !== null) {
+          // The client is not connected - end the suspended session so that it cannot be resumed
+          clearTimeout(client.suspendedTimeout);
+          client.suspendedTimeout = null;
+          this.removeClient(client);
+        } else {
+          this.disconnectClientWithError(
+            client,
+            USER_NETWORKING_BANNED_ERROR_TYPE,
+            this.getBanMessage(ban),
+          );
+        }
+      }
+    }
+  }
+
+  public unbanIdentity(identity: UserNetworkingBanIdentity) {
+    if (identity.sessionToken !== undefined) {
+      this.bansBySessionToken.delete(identity.sessionToken);
+    }
+    if (identity.username !== undefined) {
+      this.bansByUsername.delete(identity.username);
+    }
+  }
+
+  private getBan(bans: Map<string, UserNetworkingBan>, key: string): UserNetworkingBan | null {
+    const ban = bans.get(key);
+    if (!ban) {
+      return null;
+    }
+    if (ban.expiresAt !== null && ban.expiresAt <= Date.now()) {
+      bans.delete(key);
+      return null;
+    }
+    return ban;
+  }
+
+  private getBanMessage(ban: UserNetworkingBan): string {
+    if (ban.expiresAt === null) {
+      return ban.reason;
+    }
+    return `${ban.reason} (until ${new Date(ban.expiresAt).toISOString()})`;
+  }
+
+  // Disconnects the client without holding its session for resumption
+  private disconnectClientWithError(
+    client: UserNetworkingServerClient,
+    errorType: UserNetworkingServerErrorType,
+    message: string,
+  ) {
+    if (client.sessionToken !== null) {
+      if (this.clientsBySessionToken.get(client.sessionToken) === client) {
+        this.clientsBySessionToken.delete(client.sessionToken);
+      }
+      client.sessionToken = null;
+    }
+    if (client.socket.readyState === WebSocketOpenStatus) {
+      client.socket.send(
+        JSON.stringify({
+          type: USER_NETWORKING_SERVER_ERROR_MESSAGE_TYPE,
+          errorType,
+          message,
+        } as FromUserNetworkingServerMessage),
+      );
+      client.socket.close();
+    }
+  }
+
+  // Stops waiting for the client's pending teleport (if any), resolving it or rejecting it with the error
+  private settlePendingTeleport(client: UserNetworkingServerClient, error: Error | null) {
+    const pendingTeleport = client.pendingTeleport;
+    if (!pendingTeleport) {
+      return;
+    }
+    clearTimeout(pendingTeleport.timeout);
+    client.pendingTeleport = null;
+    if (error) {
+      pendingTeleport.reject(error);
+    } else {
+      pendingTeleport.resolve();
+    }
+  }
+
+  private rejectPendingTeleport(client: UserNetworkingServerClient) {
+    this.settlePendingTeleport(
+      client,
+      new Error(`Client ${client.id} disconnected before acknowledging teleport`),
+    );
   }
 
   private handleDisconnectedClient(client: UserNetworkingServerClient) {
-    if (!this.allClientsById.has(client.id)) {
+    if (!this.allClientsById.has(client.id) || client.suspendedTimeout) {
+      return;
+    }
+    this.rejectPendingTeleport(client);
+    const sessionToken = client.sessionToken;
+    const gracePeriod = this.options.sessionResumptionGracePeriod;
+    if (gracePeriod && sessionToken !== null) {
+      // Hold the slot so that other clients continue to see the character until the grace period has elapsed
+      console.log(`Client ID: ${client.id} suspended for ${gracePeriod}ms`);
+      client.suspendedTimeout = setTimeout(() => {
+        client.suspendedTimeout = null;
+        this.removeClient(client);
+      }, gracePeriod);
       return;
     }
+    this.removeClient(client);
+  }
+
+  private removeClient(client: UserNetworkingServerClient) {
     this.allClientsById.delete(client.id);
+    this.removeQueuedClient(client);
+    if (
+      client.sessionToken !== null &&
+      this.clientsBySessionToken.get(client.sessionToken) === client
+    ) {
+      this.clientsBySessionToken.delete(client.sessionToken);
+    }
     if (client.authenticatedUser !== null) {
       // Only report disconnections of clients that were authenticated
       this.options.onClientDisconnect(client.id);
       this.authenticatedClientsById.delete(client.id);
-      const disconnectMessage = JSON.stringify({
+      if (client.authenticatedUser.spectator) {
+        // Other clients were never told about the spectator
+        return;
+      }
+      this.options.bus?.publish({
+        type: USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE,
+        serverId: this.serverId,
         id: client.id,
-        type: USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
-      } as FromUserNetworkingServerMessage);
-      for (const [, otherClient] of this.authenticatedClientsById) {
-        if (otherClient.socket.readyState === WebSocketOpenStatus) {
-          otherClient.socket.send(disconnectMessage);
+      });
+      this.sendDisconnectToClients(client.id);
+      this.admitQueuedClients();
+    }
+  }
+
+  private sendDisconnectToClients(disconnectedClientId: number) {
+    const disconnectMessage = JSON.stringify({
+      id: disconnectedClientId,
+      type: USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
+    } as FromUserNetworkingServerMessage);
+    for (const [, otherClient] of this.authenticatedClientsById) {
+      if (this.spatialGrid) {
+        if (!otherClient.visibleClientIds.delete(disconnectedClientId)) {
+          // This client was never told about the disconnected client
+          continue;
+        }
+      }
+      if (otherClient.socket.readyState === WebSocketOpenStatus) {
+        otherClient.socket.send(disconnectMessage);
+      }
+    }
+  }
+
+  private publishProfile(client: { id: number; authenticatedUser: UserData | null }) {
+    if (this.options.bus && client.authenticatedUser && !client.authenticatedUser.spectator) {
+      this.options.bus.publish({
+        type: USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE,
+        serverId: this.serverId,
+        id: client.id,
+        userData: client.authenticatedUser,
+      });
+    }
+  }
+
+  private handleBusMessage(message: UserNetworkingBusMessage) {
+    if (message.serverId === this.serverId) {
+      return;
+    }
+    switch (message.type) {
+      case USER_NETWORKING_BUS_SYNC_REQUEST_MESSAGE_TYPE:
+        for (const [, client] of this.authenticatedClientsById) {
+          this.publishProfile(client);
+        }
+        for (const [, virtualClient] of this.virtualClientsById) {
+          this.publishProfile(virtualClient);
+        }
+        break;
+      case USER_NETWORKING_BUS_PROFILE_MESSAGE_TYPE: {
+        if (this.allClientsById.has(message.id) || this.virtualClientsById.has(message.id)) {
+          console.error(
+            `Remote client ${message.id} from server ${message.serverId} has the same id as a local client - check the clientIdRange of each server`,
+          );
+          return;
+        }
+        let remoteClient = this.remoteClientsById.get(message.id);
+        if (!remoteClient) {
+          remoteClient = {
+            serverId: message.serverId,
+            id: message.id,
+            update: {
+              id: message.id,
+              position: { x: 0, y: 0, z: 0 },
+              rotation: { quaternionY: 0, quaternionW: 1 },
+              state: 0,
+            },
+            authenticatedUser: message.userData,
+            lastBusMessage: Date.now(),
+          };
+          this.remoteClientsById.set(message.id, remoteClient);
+        } else {
+          remoteClient.authenticatedUser = message.userData;
+          remoteClient.lastBusMessage = Date.now();
+        }
+        const profileMessage = this.createProfileMessage(remoteClient);
+        for (const [, client] of this.authenticatedClientsById) {
+          if (this.spatialGrid && !client.visibleClientIds.has(message.id)) {
+            // The client will receive the profile if the remote client comes within range
+            continue;
+          }
+          if (client.socket.readyState === WebSocketOpenStatus) {
+            client.socket.send(profileMessage);
+          }
         }
+        break;
       }
+      case USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE: {
+        const now = Date.now();
+        for (const update of message.updates) {
+          const remoteClient = this.remoteClientsById.get(update.id);
+          if (remoteClient && remoteClient.serverId === message.serverId) {
+            remoteClient.update = update;
+            remoteClient.lastBusMessage = now;
+          }
+        }
+        break;
+      }
+      case USER_NETWORKING_BUS_DISCONNECTED_MESSAGE_TYPE: {
+        const remoteClient = this.remoteClientsById.get(message.id);
+        if (remoteClient && remoteClient.serverId === message.serverId) {
+          this.removeRemoteClient(remoteClient);
+        }
+        break;
+      }
+    }
+  }
+
+  private removeRemoteClient(remoteClient: UserNetworkingServerRemoteClient) {
+    this.remoteClientsById.delete(remoteClient.id);
+    this.sendDisconnectToClients(remoteClient.id);
+  }
+
+  private negotiateProtocol(
+    client: UserNetworkingServerClient,
+    credentials: UserNetworkingAuthenticateMessage,
+  ): boolean {
+    const clientProtocolVersion =
+      credentials.protocolVersion ?? USER_NETWORKING_PROTOCOL_VERSION_LEGACY;
+    // Clients that are newer than the server are expected to support the older versions
+    client.protocolVersion = Math.min(clientProtocolVersion, USER_NETWORKING_PROTOCOL_VERSION);
+    const clientFeatures = credentials.features ?? [];
+    client.features = USER_NETWORKING_PROTOCOL_FEATURES.filter((feature) =>
+      clientFeatures.includes(feature),
+    );
+    const minimumProtocolVersion =
+      this.options.minimumProtocolVersion ?? USER_NETWORKING_PROTOCOL_VERSION_LEGACY;
+    if (client.protocolVersion < minimumProtocolVersion) {
+      console.warn(
+        `Client-id ${client.id} rejected: protocol version ${client.protocolVersion} is below the minimum of ${minimumProtocolVersion}`,
+      );
+      return false;
     }
+    return true;
   }
 
   private async handleUserAuth(
@@ -291,13 +1291,74 @@ export class UserNetworkingServer {
     this.internalUpdateUser(clientId, userData);
   }
 
+  /*
+   Moves the client's character to the given position and rotation. The returned promise resolves once the client has
+   applied the teleport. Until then, movement updates from the client are ignored so that other clients do not see
+   the character jump back to where it was before the teleport. If the client does not acknowledge the teleport within
+   the teleportAcknowledgementTimeout, its updates are accepted again and the promise is rejected.
+  */
+  public teleportClient(
+    clientId: number,
+    position: { x: number; y: number; z: number },
+    rotation: { quaternionY: number; quaternionW: number },
+  ): Promise<void> {
+    const client = this.authenticatedClientsById.get(clientId);
+    if (!client) {
+      return Promise.reject(new Error(`Client ${clientId} not found`));
+    }
+    if (client.suspendedTimeout) {
+      return Promise.reject(new Error(`Client ${clientId} is disconnected`));
+    }
+    if (!client.features.includes(USER_NETWORKING_TELEPORT_FEATURE)) {
+      return Promise.reject(new Error(`Client ${clientId} does not support teleporting`));
+    }
+    this.settlePendingTeleport(
+      client,
+      new Error(`Teleport of client ${clientId} was superseded by another teleport`),
+    );
+
+    const teleportId = ++this.teleportCounter;
+    client.update = {
+      ...client.update,
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { quaternionY: rotation.quaternionY, quaternionW: rotation.quaternionW },
+    };
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.settlePendingTeleport(
+          client,
+          new Error(`Client ${clientId} did not acknowledge teleport in time`),
+        );
+      }, this.options.teleportAcknowledgementTimeout ?? teleportAcknowledgementTimeout);
+      client.pendingTeleport = { teleportId, resolve, reject, timeout };
+      client.socket.send(
+        JSON.stringify({
+          type: USER_NETWORKING_TELEPORT_MESSAGE_TYPE,
+          teleportId,
+          position: client.update.position,
+          rotation: client.update.rotation,
+        } as FromUserNetworkingServerMessage),
+      );
+    });
+  }
+
   private internalUpdateUser(clientId: number, userData: UserData) {
     // This function assumes authorization has already been done
     const client = this.authenticatedClientsById.get(clientId)!;
 
-    client.authenticatedUser = userData;
+    // The roles of the client are decided when it connects and are not changed by updates to its character
+    const authenticatedUser: UserData = {
+      ...userData,
+      spectator: client.authenticatedUser?.spectator,
+      moderator: client.authenticatedUser?.moderator,
+    };
+    client.authenticatedUser = authenticatedUser;
     this.authenticatedClientsById.set(clientId, client);
+    this.publishProfile(client);
+    this.sendProfileToClients(clientId, authenticatedUser);
+  }
 
+  private sendProfileToClients(clientId: number, userData: UserData) {
     const newUserData = JSON.stringify({
       id: clientId,
       type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
@@ -309,6 +1370,17 @@ export class UserNetworkingServer {
     // Clients will always render based on the public userProfile.
     // This makes it intuitive, as it is "what you see is what other's see" from a user's perspective.
     for (const [otherClientId, otherClient] of this.authenticatedClientsById) {
+      if (userData.spectator && otherClientId !== clientId) {
+        continue;
+      }
+      if (
+        this.spatialGrid &&
+        otherClientId !== clientId &&
+        !otherClient.visibleClientIds.has(clientId)
+      ) {
+        // The other client will receive the profile if this client comes within range
+        continue;
+      }
       if (otherClient.socket.readyState === WebSocketOpenStatus) {
         otherClient.socket.send(newUserData);
       }
@@ -324,6 +1396,10 @@ export class UserNetworkingServer {
       console.error(`Client-id ${clientId} user_update ignored, client not found`);
       return;
     }
+    if (client.authenticatedUser?.spectator) {
+      console.warn(`Client-id ${clientId} user_update ignored, spectators have no character`);
+      return;
+    }
 
     // Verify using the user authenticator what the allowed version of this update is
     const authorizedUserData = this.options.onClientUserIdentityUpdate(
@@ -346,31 +1422,226 @@ export class UserNetworkingServer {
     this.internalUpdateUser(clientId, resolvedAuthorizedUserData);
   }
 
+  private createProfileMessage(client: { id: number; authenticatedUser: UserData | null }): string {
+    return JSON.stringify({
+      id: client.id,
+      type: USER_NETWORKING_USER_PROFILE_MESSAGE_TYPE,
+      username: client.authenticatedUser?.username,
+      characterDescription: client.authenticatedUser?.characterDescription,
+    } as FromUserNetworkingServerMessage);
+  }
+
+  private createUpdateFrame(
+    encodedUpdates: Array<Uint8Array>,
+    timestamp: number = Date.now(),
+  ): Uint8Array {
+    return UserNetworkingCodec.encodeUpdateFrameFromEncodedUpdates(
+      this.tick,
+      timestamp,
+      encodedUpdates,
+    );
+  }
+
+  private sendEncodedUpdates(
+    client: UserNetworkingServerClient,
+    encodedUpdates: Array<Uint8Array>,
+    timestamp?: number,
+  ) {
+    if (encodedUpdates.length === 0) {
+      return;
+    }
+    if (client.protocolVersion < USER_NETWORKING_PROTOCOL_VERSION_UPDATE_FRAMES) {
+      for (const encodedUpdate of encodedUpdates) {
+        client.socket.send(encodedUpdate);
+      }
+      return;
+    }
+    client.socket.send(this.createUpdateFrame(encodedUpdates, timestamp));
+  }
+
   private sendUpdates(): void {
+    this.tick++;
+    const timestamp = Date.now();
+    if (
+      this.options.bus &&
+      (this.authenticatedClientsById.size > 0 || this.virtualClientsById.size > 0)
+    ) {
+      this.options.bus.publish({
+        type: USER_NETWORKING_BUS_UPDATES_MESSAGE_TYPE,
+        serverId: this.serverId,
+        updates: [
+          ...Array.from(this.authenticatedClientsById.values()).filter(
+            (client) => !client.authenticatedUser?.spectator,
+          ),
+          ...this.virtualClientsById.values(),
+        ].map((client) => client.update),
+      });
+    }
+    if (this.spatialGrid && this.options.interestManagement) {
+      this.sendUpdatesWithinInterest(this.spatialGrid, this.options.interestManagement, timestamp);
+      return;
+    }
+
+    const encodedUpdates = new Map<number, Uint8Array>();
+    for (const [clientId, client] of this.authenticatedClientsById) {
+      if (!client.authenticatedUser?.spectator) {
+        encodedUpdates.set(clientId, UserNetworkingCodec.encodeUpdate(client.update));
+      }
+    }
+    for (const [clientId, remoteClient] of this.remoteClientsById) {
+      encodedUpdates.set(clientId, UserNetworkingCodec.encodeUpdate(remoteClient.update));
+    }
+    for (const [clientId, virtualClient] of this.virtualClientsById) {
+      encodedUpdates.set(clientId, UserNetworkingCodec.encodeUpdate(virtualClient.update));
+    }
+
+    // Each client receives a single frame per tick containing the updates of every other client
+    for (const [clientId, client] of this.authenticatedClientsById) {
+      if (client.socket.readyState !== WebSocketOpenStatus) {
+        continue;
+      }
+      const otherClientUpdates: Array<Uint8Array> = [];
+      for (const [otherClientId, encodedUpdate] of encodedUpdates) {
+        if (otherClientId !== clientId) {
+          otherClientUpdates.push(encodedUpdate);
+        }
+      }
+      this.sendEncodedUpdates(client, otherClientUpdates, timestamp);
+    }
+  }
+
+  private sendUpdatesWithinInterest(
+    spatialGrid: SpatialHashGrid,
+    interestManagement: UserNetworkingServerInterestManagementOptions,
+    timestamp: number,
+  ): void {
+    const radius = interestManagement.radius;
+    const exitRadius = Math.max(interestManagement.exitRadius ?? radius * 1.1, radius);
+    const radiusSquared = radius * radius;
+
+    spatialGrid.clear();
+    const allVisibleClientIds: Array<number> = [];
+    for (const [clientId, client] of this.authenticatedClientsById) {
+      if (!client.authenticatedUser?.spectator) {
+        spatialGrid.insert(clientId, client.update.position);
+        allVisibleClientIds.push(clientId);
+      }
+    }
+    for (const [clientId, remoteClient] of this.remoteClientsById) {
+      spatialGrid.insert(clientId, remoteClient.update.position);
+      allVisibleClientIds.push(clientId);
+    }
+    for (const [clientId, virtualClient] of this.virtualClientsById) {
+      spatialGrid.insert(clientId, virtualClient.update.position);
+      allVisibleClientIds.push(clientId);
+    }
+    type OtherClient =
+      | UserNetworkingServerClient
+      | UserNetworkingServerRemoteClient
+      | UserNetworkingVirtualClientState;
+    const getOtherClient = (otherClientId: number): OtherClient =>
+      this.authenticatedClientsById.get(otherClientId) ??
+      this.remoteClientsById.get(otherClientId) ??
+      this.virtualClientsById.get(otherClientId)!;
+
+    // Each update is encoded at most once per tick regardless of how many clients it is sent to
+    const encodedUpdates = new Map<number, Uint8Array>();
+    const getEncodedUpdate = (client: OtherClient): Uint8Array => {
+      let encodedUpdate = encodedUpdates.get(client.id);
+      if (!encodedUpdate) {
+        encodedUpdate = UserNetworkingCodec.encodeUpdate(client.update);
+        encodedUpdates.set(client.id, encodedUpdate);
+      }
+      return encodedUpdate;
+    };
+
     for (const [clientId, client] of this.authenticatedClientsById) {
-      const update = client.update;
-      const encodedUpdate = UserNetworkingCodec.encodeUpdate(update);
+      if (client.socket.readyState !== WebSocketOpenStatus) {
+        continue;
+      }
+      const { position } = client.update;
+      const nowVisibleClientIds = new Set<number>();
+      if (client.authenticatedUser?.spectator) {
+        // Spectators have no position of their own and see every client
+        for (const otherClientId of allVisibleClientIds) {
+          nowVisibleClientIds.add(otherClientId);
+        }
+      } else {
+        for (const otherClientId of spatialGrid.queryRadius(position, exitRadius)) {
+          if (otherClientId === clientId) {
+            continue;
+          }
+          if (client.visibleClientIds.has(otherClientId)) {
+            nowVisibleClientIds.add(otherClientId);
+            continue;
+          }
+          const otherPosition = getOtherClient(otherClientId).update.position;
+          const dx = otherPosition.x - position.x;
+          const dy = otherPosition.y - position.y;
+          const dz = otherPosition.z - position.z;
+          if (dx * dx + dy * dy + dz * dz <= radiusSquared) {
+            nowVisibleClientIds.add(otherClientId);
+          }
+        }
+      }
 
-      for (const [otherClientId, otherClient] of this.authenticatedClientsById) {
-        if (otherClientId !== clientId && otherClient.socket.readyState === WebSocketOpenStatus) {
-          otherClient.socket.send(encodedUpdate);
+      for (const previouslyVisibleClientId of client.visibleClientIds) {
+        if (!nowVisibleClientIds.has(previouslyVisibleClientId)) {
+          // The other client left this client's area of interest - despawn it as if it disconnected
+          client.socket.send(
+            JSON.stringify({
+              id: previouslyVisibleClientId,
+              type: USER_NETWORKING_DISCONNECTED_MESSAGE_TYPE,
+            } as FromUserNetworkingServerMessage),
+          );
         }
       }
+
+      const visibleClientUpdates: Array<Uint8Array> = [];
+      for (const visibleClientId of nowVisibleClientIds) {
+        const otherClient = getOtherClient(visibleClientId);
+        if (!client.visibleClientIds.has(visibleClientId)) {
+          // The other client entered this client's area of interest - send the profile so that it can be spawned
+          client.socket.send(this.createProfileMessage(otherClient));
+        }
+        visibleClientUpdates.push(getEncodedUpdate(otherClient));
+      }
+      this.sendEncodedUpdates(client, visibleClientUpdates, timestamp);
+
+      client.visibleClientIds = nowVisibleClientIds;
     }
   }
 
   public dispose(clientCloseError?: UserNetworkingServerError) {
+    this.unsubscribeFromBus?.();
+    this.unsubscribeFromBus = null;
     clearInterval(this.sendUpdatesIntervalTimer);
     clearInterval(this.pingClientsIntervalTimer);
     clearInterval(this.heartbeatIntervalTimer);
+    this.virtualClientsById.clear();
 
     const stringifiedError = clientCloseError ? JSON.stringify(clientCloseError) : undefined;
 
+    for (const [, client] of this.allClientsById) {
+      this.rejectPendingTeleport(client);
+      if (client.suspendedTimeout) {
+        clearTimeout(client.suspendedTimeout);
+        client.suspendedTimeout = null;
+      }
+    }
+
     for (const [, client] of this.authenticatedClientsById) {
       if (stringifiedError) {
         client.socket.send(stringifiedError);
       }
       client.socket.close();
     }
+    for (const { client } of this.queuedClients) {
+      if (stringifiedError) {
+        client.socket.send(stringifiedError);
+      }
+      client.socket.close();
+    }
+    this.queuedClients = [];
   }
 }
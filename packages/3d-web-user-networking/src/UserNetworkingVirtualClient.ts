@@ -0,0 +1,99 @@
+import { UserData } from "./UserData";
+import { UserNetworkingClientUpdate } from "./UserNetworkingCodec";
+
+// The state of a virtual client that is held by the server and sent to connected clients
+export type UserNetworkingVirtualClientState = {
+  id: number;
+  update: UserNetworkingClientUpdate;
+  authenticatedUser: UserData;
+};
+
+export type UserNetworkingVirtualClientHandlers = {
+  onUserDataUpdated: (userData: UserData) => void;
+  onChatMessage: (text: string) => void;
+  onRemove: () => void;
+};
+
+/*
+ A server-driven user (e.g. a guide or greeter) that appears to connected clients as if it were a connected user.
+ Created with UserNetworkingServer.createVirtualClient. Changes to the position, rotation and state are sent to
+ clients with the next update.
+*/
+export class UserNetworkingVirtualClient {
+  private removed = false;
+
+  constructor(
+    private state: UserNetworkingVirtualClientState,
+    private handlers: UserNetworkingVirtualClientHandlers,
+  ) {}
+
+  public get id(): number {
+    return this.state.id;
+  }
+
+  public getUserData(): UserData {
+    return this.state.authenticatedUser;
+  }
+
+  public getPosition(): { x: number; y: number; z: number } {
+    return { ...this.state.update.position };
+  }
+
+  public getRotation(): { quaternionY: number; quaternionW: number } {
+    return { ...this.state.update.rotation };
+  }
+
+  public setPosition(position: { x: number; y: number; z: number }) {
+    this.state.update = {
+      ...this.state.update,
+      position: { x: position.x, y: position.y, z: position.z },
+    };
+  }
+
+  public setRotation(rotation: { quaternionY: number; quaternionW: number }) {
+    this.state.update = {
+      ...this.state.update,
+      rotation: { quaternionY: rotation.quaternionY, quaternionW: rotation.quaternionW },
+    };
+  }
+
+  // Faces the character towards the given angle (radians) around the vertical axis
+  public setYRotation(radians: number) {
+    this.setRotation({ quaternionY: Math.sin(radians / 2), quaternionW: Math.cos(radians / 2) });
+  }
+
+  // The AnimationState (of @mml-io/3d-web-client-core) that clients animate the character with
+  public setState(state: number) {
+    this.state.update = { ...this.state.update, state };
+  }
+
+  // Changes the username and/or character of the virtual client
+  public updateUserData(userData: UserData) {
+    if (this.removed) {
+      return;
+    }
+    this.state.authenticatedUser = userData;
+    this.handlers.onUserDataUpdated(userData);
+  }
+
+  // Sends a chat message as the virtual client (see UserNetworkingServerOptions.onVirtualClientChatMessage)
+  public sendChatMessage(text: string) {
+    if (this.removed) {
+      return;
+    }
+    this.handlers.onChatMessage(text);
+  }
+
+  public isRemoved(): boolean {
+    return this.removed;
+  }
+
+  // Removes the virtual client, which clients see as a disconnection
+  public remove() {
+    if (this.removed) {
+      return;
+    }
+    this.removed = true;
+    this.handlers.onRemove();
+  }
+}
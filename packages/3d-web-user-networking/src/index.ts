@@ -4,3 +4,9 @@ export * from "./UserNetworkingClient";
 export * from "./UserData";
 export * from "./ReconnectingWebSocket";
 export * from "./UserNetworkingMessages";
+export * from "./UserNetworkingBus";
+export * from "./UserNetworkingMovementValidator";
+export * from "./UserNetworkingVirtualClient";
+export * from "./UserNetworkingRecording";
+export * from "./UserNetworkingReplay";
+export * from "./NetworkConditionSimulator";
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { NetworkConditionSimulator, UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("NetworkConditionSimulator", () => {
+  test("should delay messages and reconnect after dropped connections", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8600);
+    const serverAddress = "ws://localhost:8600/user-networking";
+
+    const simulator = new NetworkConditionSimulator();
+    simulator.conditions.enabled = true;
+    simulator.conditions.latency = 200;
+
+    const startTime = Date.now();
+    const user1 = await createTestUserNetworkingClient(
+      serverAddress,
+      "user1",
+      undefined,
+      simulator.wrapWebsocketFactory((url) => new WebSocket(url)),
+    );
+    expect(await user1.identityPromise).toEqual(1);
+    // The open event, the authentication and the identity are each delayed
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(600);
+
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+
+    const updateSentTime = Date.now();
+    user1.client.sendUpdate({
+      id: 1,
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 1,
+    });
+    await waitUntil(
+      () => user2.userStates.get(1)?.position.x === 1,
+      "wait for user2 to receive the delayed update from user1",
+    );
+    expect(Date.now() - updateSentTime).toBeGreaterThanOrEqual(200);
+
+    // Disabling the simulation takes effect for the open connection
+    simulator.conditions.enabled = false;
+    user2.client.sendUpdate({
+      id: 2,
+      position: { x: 4, y: 5, z: 6 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 1,
+    });
+    await waitUntil(
+      () => user1.userStates.get(2)?.position.x === 4,
+      "wait for user1 to receive the update from user2",
+    );
+
+    // The client reconnects after its connection is dropped
+    simulator.dropConnections();
+    await waitUntil(
+      () => user1.identities.length === 2,
+      "wait for user1 to reconnect after being dropped",
+    );
+    // The new id depends on whether the server noticed the dropped connection before the client reconnected
+    expect(server.getClient(user1.identities[1])?.userData.username).toEqual("user1");
+
+    user1.client.stop();
+    user2.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to remove all clients",
+    );
+    simulator.dispose();
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import {
+  InMemoryUserNetworkingBus,
+  PubSubUserNetworkingBus,
+  UserData,
+  UserNetworkingBus,
+  UserNetworkingBusMessage,
+  UserNetworkingPubSubAdapter,
+} from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+function createServer(
+  port: number,
+  bus: UserNetworkingBus,
+  clientIdRange: { min: number; max: number },
+) {
+  const server = new UserNetworkingServer({
+    bus,
+    clientIdRange,
+    onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+      return {
+        username: sessionToken,
+        characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+      };
+    },
+    onClientUserIdentityUpdate: (): UserData | null => null,
+    onClientDisconnect: (): void => {},
+  });
+  const { app } = enableWs(express());
+  app.ws("/user-networking", (ws) => {
+    server.connectClient(ws);
+  });
+  const listener = app.listen(port);
+  return { server, listener };
+}
+
+describe("UserNetworking bus", () => {
+  test("should present clients of other servers on the bus as local clients", async () => {
+    const bus = new InMemoryUserNetworkingBus();
+    const server1 = createServer(8591, bus, { min: 1, max: 999 });
+    const server2 = createServer(8592, bus, { min: 1000, max: 1999 });
+
+    const user1 = await createTestUserNetworkingClient(
+      "ws://localhost:8591/user-networking",
+      "user1",
+    );
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(
+      "ws://localhost:8592/user-networking",
+      "user2",
+    );
+    expect(await user2.identityPromise).toEqual(1000);
+
+    user1.client.sendUpdate({
+      id: 1,
+      position: { x: 1, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    user2.client.sendUpdate({
+      id: 1000,
+      position: { x: 2, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+
+    await waitUntil(
+      () =>
+        user1.userStates.get(1000)?.position.x === 2 && user2.userStates.get(1)?.position.x === 1,
+      "wait for the users to see each other across servers",
+    );
+    // The positions of the users of other servers are known, although they are not local clients
+    await waitUntil(
+      () => server1.server.getClientPosition(1000)?.x === 2,
+      "wait for server 1 to know the position of user 2",
+    );
+    expect(server1.server.getClient(1000)).toBeNull();
+    expect(server1.server.getClientPosition(1)).toEqual({ x: 1, y: 0, z: 0 });
+    expect(server1.server.getClientPosition(2000)).toBeNull();
+    expect(user1.profiles.get(1000)).toEqual({
+      username: "user2",
+      characterDescription: { meshFileUrl: "http://example.com/user2.glb" },
+    });
+    expect(user2.profiles.get(1)).toEqual({
+      username: "user1",
+      characterDescription: { meshFileUrl: "http://example.com/user1.glb" },
+    });
+
+    user2.client.stop();
+    await waitUntil(() => !user1.userStates.has(1000), "wait for user 2 to be removed");
+
+    user1.client.stop();
+    await waitUntil(
+      () => (server1.server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server1.server.dispose();
+    server2.server.dispose();
+    server1.listener.close();
+    server2.listener.close();
+  });
+
+  test("should serialize messages over a pub/sub adapter", async () => {
+    const listeners = new Map<string, Set<(message: string) => void>>();
+    const adapter: UserNetworkingPubSubAdapter = {
+      publish: (channel, message) => {
+        listeners.get(channel)?.forEach((listener) => listener(message));
+      },
+      subscribe: (channel, listener) => {
+        let channelListeners = listeners.get(channel);
+        if (!channelListeners) {
+          channelListeners = new Set();
+          listeners.set(channel, channelListeners);
+        }
+        channelListeners.add(listener);
+      },
+      unsubscribe: (channel, listener) => {
+        listeners.get(channel)?.delete(listener);
+      },
+    };
+    const publisher = new PubSubUserNetworkingBus(adapter, "world");
+    const subscriber = new PubSubUserNetworkingBus(adapter, "world");
+    const received: Array<UserNetworkingBusMessage> = [];
+    const unsubscribe = subscriber.subscribe((message) => received.push(message));
+
+    const message: UserNetworkingBusMessage = {
+      type: "disconnected",
+      serverId: "server-1",
+      id: 5,
+    };
+    publisher.publish(message);
+    expect(received).toEqual([message]);
+
+    unsubscribe();
+    publisher.publish(message);
+    expect(received).toHaveLength(1);
+  });
+});
@@ -1,4 +1,8 @@
-import { UserNetworkingClientUpdate, UserNetworkingCodec } from "../src/UserNetworkingCodec";
+import {
+  UserNetworkingClientUpdate,
+  UserNetworkingCodec,
+  UserNetworkingUpdateFrame,
+} from "../src/UserNetworkingCodec";
 
 describe("UserNetworkingCodec", () => {
   const cases: Array<[string, UserNetworkingClientUpdate, Uint8Array]> = [
@@ -57,4 +61,77 @@ describe("UserNetworkingCodec", () => {
       state: clientUpdate.state,
     });
   });
+
+  const frameCases: Array<[string, UserNetworkingUpdateFrame, Uint8Array]> = [
+    [
+      "empty frame",
+      { tick: 1, timestamp: 0, updates: [] },
+      new Uint8Array([0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+    ],
+    [
+      "multiple updates",
+      {
+        tick: 258,
+        timestamp: 1.5,
+        updates: [
+          {
+            id: 123,
+            position: { x: 1, y: 2, z: 3 },
+            rotation: { quaternionY: 0.25, quaternionW: 0.5 },
+            state: 3,
+          },
+          {
+            id: 0,
+            position: { x: 0, y: 0, z: 0 },
+            rotation: { quaternionY: 0, quaternionW: 0 },
+            state: 0,
+          },
+        ],
+      },
+      new Uint8Array([
+        0, 0, 1, 2, 63, 248, 0, 0, 0, 0, 0, 0, 0, 2, 0, 123, 63, 128, 0, 0, 64, 0, 0, 0, 64, 64, 0,
+        0, 31, 255, 63, 255, 3, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      ]),
+    ],
+  ];
+  test.each(frameCases)("%p: should encode and decode frames", (testCaseName, frame, expected) => {
+    const encoded = UserNetworkingCodec.encodeUpdateFrame(frame);
+    expect(encoded).toStrictEqual(expected);
+    const decoded = UserNetworkingCodec.decodeUpdateFrame(encoded.buffer);
+    expect(decoded.tick).toEqual(frame.tick);
+    expect(decoded.timestamp).toEqual(frame.timestamp);
+    expect(decoded.updates).toHaveLength(frame.updates.length);
+    decoded.updates.forEach((update, index) => {
+      expect(update).toEqual({
+        id: frame.updates[index].id,
+        position: frame.updates[index].position,
+        rotation: {
+          quaternionY: expect.closeTo(frame.updates[index].rotation.quaternionY, 4),
+          quaternionW: expect.closeTo(frame.updates[index].rotation.quaternionW, 4),
+        },
+        state: frame.updates[index].state,
+      });
+    });
+  });
+
+  test("should reject frames with a length that does not match the update count", () => {
+    const encoded = UserNetworkingCodec.encodeUpdateFrame({
+      tick: 1,
+      timestamp: 0,
+      updates: [
+        {
+          id: 1,
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { quaternionY: 0, quaternionW: 1 },
+          state: 0,
+        },
+      ],
+    });
+    expect(() => UserNetworkingCodec.decodeUpdateFrame(encoded.slice(0, 20).buffer)).toThrow(
+      "Update frame length mismatch",
+    );
+    expect(() => UserNetworkingCodec.decodeUpdateFrame(new ArrayBuffer(4))).toThrow(
+      "Update frame too short",
+    );
+  });
 });
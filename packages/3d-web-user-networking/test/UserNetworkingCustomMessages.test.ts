@@ -0,0 +1,67 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking custom messages", () => {
+  test("should deliver custom messages from clients and to selected clients", async () => {
+    const receivedMessages: Array<{ clientId: number; customType: string; payload: any }> = [];
+    const server: UserNetworkingServer = new UserNetworkingServer({
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+      onClientCustomMessage: (clientId: number, customType: string, payload: any) => {
+        receivedMessages.push({ clientId, customType, payload });
+        server.sendCustomMessage("pong", { count: payload.count + 1 }, [clientId]);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8593);
+    const serverAddress = "ws://localhost:8593/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+
+    user2.client.sendCustomMessage("ping", { count: 1 });
+    await waitUntil(
+      () => user2.customMessages.length === 1,
+      "wait for user 2 to receive the reply",
+    );
+    expect(receivedMessages).toEqual([{ clientId: 2, customType: "ping", payload: { count: 1 } }]);
+    expect(user2.customMessages).toEqual([{ customType: "pong", payload: { count: 2 } }]);
+
+    server.sendCustomMessage("announcement", "hello");
+    await waitUntil(
+      () => user1.customMessages.length === 1 && user2.customMessages.length === 2,
+      "wait for both users to receive the announcement",
+    );
+    expect(user1.customMessages).toEqual([{ customType: "announcement", payload: "hello" }]);
+
+    user1.client.stop();
+    user2.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData, UserIdentity } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+function updateAt(id: number, x: number) {
+  return {
+    id,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  };
+}
+
+describe("UserNetworking interest management", () => {
+  test("should only send clients within the radius and despawn clients that leave it", async () => {
+    const server = new UserNetworkingServer({
+      interestManagement: { radius: 10 },
+      onClientConnect: (
+        clientId: number,
+        sessionToken: string,
+        userIdentity?: UserIdentity,
+      ): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8586);
+    const serverAddress = "ws://localhost:8586/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    user1.client.sendUpdate(updateAt(1, 0));
+
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+    user2.client.sendUpdate(updateAt(2, 5));
+
+    const user3 = await createTestUserNetworkingClient(serverAddress, "user3");
+    expect(await user3.identityPromise).toEqual(3);
+    user3.client.sendUpdate(updateAt(3, 100));
+
+    await waitUntil(
+      () => user1.userStates.get(2)?.position.x === 5 && !user1.userStates.has(3),
+      "wait for user 1 to see only user 2",
+    );
+    await waitUntil(
+      () => user3.userStates.size === 0 && user3.profiles.size === 1,
+      "wait for user 3 to see nobody else",
+    );
+    expect(user1.profiles.get(2)).toEqual({
+      username: "user2",
+      characterDescription: { meshFileUrl: "http://example.com/user2.glb" },
+    });
+
+    // User 3 walks into range of users 1 and 2
+    user3.client.sendUpdate(updateAt(3, 3));
+    await waitUntil(
+      () => user1.userStates.get(3)?.position.x === 3 && user3.userStates.size === 2,
+      "wait for user 3 to enter the area of interest of user 1",
+    );
+    expect(user1.profiles.get(3)).toEqual({
+      username: "user3",
+      characterDescription: { meshFileUrl: "http://example.com/user3.glb" },
+    });
+
+    // User 2 walks far away and should be despawned for the others
+    user2.client.sendUpdate(updateAt(2, 500));
+    await waitUntil(
+      () => !user1.userStates.has(2) && !user3.userStates.has(2) && user2.userStates.size === 0,
+      "wait for user 2 to leave the area of interest of users 1 and 3",
+    );
+    expect(Array.from(user1.userStates.keys())).toEqual([3]);
+
+    user1.client.stop();
+    user2.client.stop();
+    user3.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import {
+  USER_NETWORKING_BANNED_ERROR_TYPE,
+  USER_NETWORKING_KICKED_ERROR_TYPE,
+  UserData,
+} from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking moderation", () => {
+  test("should kick and ban clients", async () => {
+    const server = new UserNetworkingServer({
+      sessionResumptionGracePeriod: 5000,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken.split("-")[0],
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8595);
+    const serverAddress = "ws://localhost:8595/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1-a");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2-a");
+    expect(await user2.identityPromise).toEqual(2);
+    await waitUntil(() => user2.userStates.has(1), "wait for user 2 to see user 1");
+
+    expect(server.kickClient(1, "Spamming")).toEqual(true);
+    await waitUntil(() => user1.serverErrors.length === 1, "wait for user 1 to be kicked");
+    expect(user1.serverErrors).toEqual([
+      { type: "error", errorType: USER_NETWORKING_KICKED_ERROR_TYPE, message: "Spamming" },
+    ]);
+    user1.client.stop();
+    await waitUntil(() => !user2.userStates.has(1), "wait for user 2 to see user 1 leave");
+
+    expect(server.banClient(2, "Cheating")).toEqual(true);
+    await waitUntil(() => user2.serverErrors.length === 1, "wait for user 2 to be banned");
+    expect(user2.serverErrors).toEqual([
+      { type: "error", errorType: USER_NETWORKING_BANNED_ERROR_TYPE, message: "Cheating" },
+    ]);
+    user2.client.stop();
+
+    // The ban applies to a new session token for the same username
+    const user2Again = await createTestUserNetworkingClient(serverAddress, "user2-b");
+    await waitUntil(() => user2Again.serverErrors.length > 0, "wait for user 2 to be rejected");
+    expect(user2Again.serverErrors[0]).toEqual({
+      type: "error",
+      errorType: USER_NETWORKING_BANNED_ERROR_TYPE,
+      message: "Cheating",
+    });
+    user2Again.client.stop();
+
+    server.unbanIdentity({ username: "user2" });
+    const user2Unbanned = await createTestUserNetworkingClient(serverAddress, "user2-c");
+    await user2Unbanned.identityPromise;
+    expect(user2Unbanned.serverErrors).toEqual([]);
+
+    // The sessions of kicked and banned clients are not held for resumption
+    await waitUntil(
+      () => (server as any).allClientsById.size === 1,
+      "wait for server to only hold the unbanned user",
+    );
+
+    user2Unbanned.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.get(user2Unbanned.identities[0])?.suspendedTimeout,
+      "wait for server to suspend the unbanned user",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
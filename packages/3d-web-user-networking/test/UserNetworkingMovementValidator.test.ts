@@ -0,0 +1,64 @@
+import { UserNetworkingClientUpdate } from "../src/UserNetworkingCodec";
+import { UserNetworkingMovementValidator } from "../src/UserNetworkingMovementValidator";
+
+function updateAt(x: number, y: number, z: number, state = 0): UserNetworkingClientUpdate {
+  return {
+    id: 1,
+    position: { x, y, z },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state,
+  };
+}
+
+describe("UserNetworkingMovementValidator", () => {
+  const validator = new UserNetworkingMovementValidator({
+    maxHorizontalSpeed: 10,
+    maxVerticalSpeed: 50,
+    worldBounds: { min: { x: -100, y: -10, z: -100 }, max: { x: 100, y: 100, z: 100 } },
+    isTeleportAllowed: (clientId, position) => position.x === 0 && position.z === 0,
+  });
+
+  test("should accept valid movement unchanged", () => {
+    const update = updateAt(2, 0, 0, 1);
+    expect(validator.validate(1, updateAt(0, 0, 0), update, 250)).toEqual({
+      violations: [],
+      update,
+    });
+  });
+
+  test("should reject non-finite values", () => {
+    const result = validator.validate(1, updateAt(0, 0, 0), updateAt(NaN, 0, 0), 250);
+    expect(result.update).toBeNull();
+    expect(result.violations.map((violation) => violation.type)).toEqual(["non_finite"]);
+  });
+
+  test("should clamp movement above the maximum speed", () => {
+    // 0.25s elapsed + 0.25s tolerance at 10m/s allows 5m
+    const result = validator.validate(1, updateAt(0, 0, 0), updateAt(20, 0, 0), 250);
+    expect(result.violations.map((violation) => violation.type)).toEqual(["speed"]);
+    expect(result.update?.position).toEqual({ x: 5, y: 0, z: 0 });
+  });
+
+  test("should allow permitted teleports and the first update", () => {
+    expect(validator.validate(1, updateAt(50, 0, 50), updateAt(0, 0, 0), 250).violations).toEqual(
+      [],
+    );
+    expect(validator.validate(1, updateAt(0, 0, 0), updateAt(50, 0, 50), null).violations).toEqual(
+      [],
+    );
+  });
+
+  test("should clamp positions to the world bounds", () => {
+    const result = validator.validate(1, updateAt(0, 0, 0), updateAt(0, -20, 0), null);
+    expect(result.violations.map((violation) => violation.type)).toEqual(["out_of_bounds"]);
+    expect(result.update?.position).toEqual({ x: 0, y: -10, z: 0 });
+  });
+
+  test("should replace invalid animation states with the previous state", () => {
+    const result = validator.validate(1, updateAt(0, 0, 0, 2), updateAt(0, 0, 0, 200), 250);
+    expect(result.violations.map((violation) => violation.type)).toEqual([
+      "invalid_animation_state",
+    ]);
+    expect(result.update?.state).toEqual(2);
+  });
+});
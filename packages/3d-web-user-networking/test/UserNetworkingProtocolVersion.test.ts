@@ -0,0 +1,116 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import {
+  USER_NETWORKING_PROTOCOL_VERSION,
+  USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+  USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE,
+  UserData,
+  UserNetworkingServerOptions,
+} from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+function updateAt(id: number, x: number) {
+  return {
+    id,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  };
+}
+
+function createServer(port: number, options: Partial<UserNetworkingServerOptions> = {}) {
+  const server = new UserNetworkingServer({
+    ...options,
+    onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+      return {
+        username: sessionToken,
+        characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+      };
+    },
+    onClientUserIdentityUpdate: (): UserData | null => null,
+    onClientDisconnect: (): void => {},
+  });
+  const { app } = enableWs(express());
+  app.ws("/user-networking", (ws) => {
+    server.connectClient(ws);
+  });
+  const listener = app.listen(port);
+  return { server, listener };
+}
+
+describe("UserNetworking protocol version negotiation", () => {
+  test("should send individual updates to legacy clients and frames to current clients", async () => {
+    const { server, listener } = createServer(8587);
+    const serverAddress = "ws://localhost:8587/user-networking";
+
+    const legacyUser = await createTestUserNetworkingClient(
+      serverAddress,
+      "legacy",
+      USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+    );
+    expect(await legacyUser.identityPromise).toEqual(1);
+    expect(legacyUser.client.getProtocolVersion()).toEqual(USER_NETWORKING_PROTOCOL_VERSION_LEGACY);
+
+    const currentUser = await createTestUserNetworkingClient(serverAddress, "current");
+    expect(await currentUser.identityPromise).toEqual(2);
+    expect(currentUser.client.getProtocolVersion()).toEqual(USER_NETWORKING_PROTOCOL_VERSION);
+
+    legacyUser.client.sendUpdate(updateAt(1, 1));
+    currentUser.client.sendUpdate(updateAt(2, 2));
+
+    await waitUntil(
+      () =>
+        legacyUser.userStates.get(2)?.position.x === 2 &&
+        currentUser.userStates.get(1)?.position.x === 1,
+      "wait for both clients to see each other",
+    );
+
+    legacyUser.client.stop();
+    currentUser.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should reject clients below the minimum protocol version", async () => {
+    const { server, listener } = createServer(8588, {
+      minimumProtocolVersion: USER_NETWORKING_PROTOCOL_VERSION,
+    });
+    const serverAddress = "ws://localhost:8588/user-networking";
+
+    const legacyUser = await createTestUserNetworkingClient(
+      serverAddress,
+      "legacy",
+      USER_NETWORKING_PROTOCOL_VERSION_LEGACY,
+    );
+    await waitUntil(
+      () => legacyUser.serverErrors.length > 0,
+      "wait for the legacy client to be rejected",
+    );
+    expect(legacyUser.serverErrors[0].errorType).toEqual(
+      USER_NETWORKING_UNSUPPORTED_PROTOCOL_VERSION_ERROR_TYPE,
+    );
+    legacyUser.client.stop();
+
+    const currentUser = await createTestUserNetworkingClient(serverAddress, "current");
+    expect(await currentUser.identityPromise).toBeGreaterThan(0);
+    currentUser.client.stop();
+
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
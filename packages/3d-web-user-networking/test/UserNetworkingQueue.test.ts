@@ -0,0 +1,67 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking queue", () => {
+  test("should queue clients when full and admit them in order", async () => {
+    const server = new UserNetworkingServer({
+      connectionLimit: 1,
+      queueWhenFull: true,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8597);
+    const serverAddress = "ws://localhost:8597/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    await waitUntil(() => user2.queuePositions.length === 1, "wait for user 2 to be queued");
+    expect(user2.queuePositions).toEqual([1]);
+
+    const user3 = await createTestUserNetworkingClient(serverAddress, "user3");
+    await waitUntil(() => user3.queuePositions.length === 1, "wait for user 3 to be queued");
+    expect(user3.queuePositions).toEqual([2]);
+    expect(user2.identities).toEqual([]);
+    expect(user2.serverErrors).toEqual([]);
+
+    // A slot frees up - the first user in the queue is admitted and the rest move up
+    user1.client.stop();
+    expect(await user2.identityPromise).toEqual(2);
+    await waitUntil(() => user3.queuePositions.length === 2, "wait for user 3 to move up");
+    expect(user3.queuePositions).toEqual([2, 1]);
+    expect(user3.identities).toEqual([]);
+
+    user2.client.stop();
+    expect(await user3.identityPromise).toEqual(3);
+    expect(user3.serverErrors).toEqual([]);
+
+    user3.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to remove all clients",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  parseUserNetworkingRecording,
+  serializeUserNetworkingRecordingLine,
+  UserNetworkingRecordingEntry,
+  UserNetworkingRecordingEvent,
+  UserNetworkingReplay,
+} from "../src";
+
+import { waitUntil } from "./test-utils";
+
+function createUpdate(id: number, x: number) {
+  return {
+    id,
+    position: { x, y: 0, z: 0 },
+    rotation: { quaternionY: 0, quaternionW: 1 },
+    state: 0,
+  };
+}
+
+const userData = {
+  username: "user1",
+  characterDescription: { meshFileUrl: "http://example.com/user1.glb" },
+};
+
+const entries: Array<UserNetworkingRecordingEntry> = [
+  { time: 0, type: "profile", id: 1, userData },
+  { time: 0, type: "updates", updates: [createUpdate(1, 0)] },
+  { time: 100, type: "chat", id: 1, text: "Hello" },
+  { time: 200, type: "updates", updates: [createUpdate(1, 5)] },
+  { time: 300, type: "disconnected", id: 1 },
+];
+
+function createReplay(): UserNetworkingReplay {
+  const text =
+    serializeUserNetworkingRecordingLine({ type: "recording", version: 1, startTime: 1000 }) +
+    entries.map((entry) => serializeUserNetworkingRecordingLine(entry)).join("") +
+    // A partially written final line is skipped
+    '{"time": 400, "ty';
+  return new UserNetworkingReplay(parseUserNetworkingRecording(text));
+}
+
+describe("UserNetworkingReplay", () => {
+  test("should emit the state at the seeked time", () => {
+    const replay = createReplay();
+    expect(replay.getDuration()).toEqual(300);
+
+    const events: Array<UserNetworkingRecordingEvent> = [];
+    replay.subscribe((event) => events.push(event));
+    // The recording starts with the user present
+    expect(events).toEqual([
+      { type: "profile", id: 1, userData },
+      { type: "updates", updates: [createUpdate(1, 0)] },
+    ]);
+
+    events.length = 0;
+    replay.seek(250);
+    // The chat message that was skipped over is not emitted
+    expect(events).toEqual([
+      { type: "profile", id: 1, userData },
+      { type: "updates", updates: [createUpdate(1, 5)] },
+    ]);
+
+    events.length = 0;
+    replay.seek(300);
+    expect(events).toEqual([{ type: "disconnected", id: 1 }]);
+
+    // Seeking backwards restores the user
+    events.length = 0;
+    replay.seek(50);
+    expect(events).toEqual([
+      { type: "profile", id: 1, userData },
+      { type: "updates", updates: [createUpdate(1, 0)] },
+    ]);
+    replay.dispose();
+  });
+
+  test("should play events in order at the configured speed", async () => {
+    const replay = createReplay();
+    const events: Array<UserNetworkingRecordingEvent> = [];
+    replay.subscribe((event) => events.push(event));
+    events.length = 0;
+
+    replay.setSpeed(4);
+    replay.play();
+    expect(replay.isPlaying()).toEqual(true);
+    await waitUntil(() => !replay.isPlaying(), "wait for the replay to reach the end");
+    expect(replay.getCurrentTime()).toEqual(300);
+    expect(events).toEqual([
+      { type: "chat", id: 1, text: "Hello" },
+      { type: "updates", updates: [createUpdate(1, 5)] },
+      { type: "disconnected", id: 1 },
+    ]);
+
+    // Pausing stops the replay from advancing
+    replay.seek(0);
+    replay.play();
+    replay.pause();
+    const pausedTime = replay.getCurrentTime();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(replay.getCurrentTime()).toEqual(pausedTime);
+    replay.dispose();
+  });
+});
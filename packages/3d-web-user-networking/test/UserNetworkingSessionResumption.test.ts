@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking session resumption", () => {
+  test("should resume a reconnecting session with the same id and expire abandoned sessions", async () => {
+    const connectedSessionTokens: Array<string> = [];
+    const disconnectedClientIds: Array<number> = [];
+    const server = new UserNetworkingServer({
+      sessionResumptionGracePeriod: 500,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        connectedSessionTokens.push(sessionToken);
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (clientId: number): void => {
+        disconnectedClientIds.push(clientId);
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8590);
+    const serverAddress = "ws://localhost:8590/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+
+    user1.client.sendUpdate({
+      id: 1,
+      position: { x: 7, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(
+      () => user2.userStates.get(1)?.position.x === 7,
+      "wait for user 2 to see user 1",
+    );
+
+    // Drop the connection without stopping the client so that it reconnects
+    (user1.client as any).websocket.close();
+    await waitUntil(
+      () => user1.identities.length === 2,
+      "wait for user 1 to reconnect and be assigned an identity",
+    );
+    expect(user1.identities).toEqual([1, 1]);
+    await waitUntil(
+      () => user1.userStates.get(2) !== undefined && user1.profiles.has(2),
+      "wait for user 1 to receive user 2 again",
+    );
+    // The session was resumed rather than authenticated again and other users did not see a leave
+    expect(connectedSessionTokens).toEqual(["user1", "user2"]);
+    expect(user2.userStates.get(1)?.position.x).toEqual(7);
+    expect(disconnectedClientIds).toEqual([]);
+
+    // A client that does not come back is removed once the grace period has elapsed
+    user1.client.stop();
+    await waitUntil(() => !user2.userStates.has(1), "wait for user 1 to expire");
+    expect(disconnectedClientIds).toEqual([1]);
+
+    user2.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking spectators", () => {
+  test("should let spectators see users without being seen or counted", async () => {
+    const server = new UserNetworkingServer({
+      connectionLimit: 1,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+          spectator: sessionToken.startsWith("spectator"),
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8598);
+    const serverAddress = "ws://localhost:8598/user-networking";
+
+    const spectator = await createTestUserNetworkingClient(serverAddress, "spectator1");
+    expect(await spectator.identityPromise).toEqual(1);
+    expect(spectator.client.isSpectator()).toEqual(true);
+
+    // The spectator does not count towards the connection limit
+    const user = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user.identityPromise).toEqual(2);
+    expect(user.client.isSpectator()).toEqual(false);
+    expect(user.serverErrors).toEqual([]);
+
+    user.client.sendUpdate({
+      id: 2,
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { quaternionY: 0.1, quaternionW: 0.2 },
+      state: 1,
+    });
+    await waitUntil(
+      () => spectator.userStates.get(2)?.position.x === 1,
+      "wait for the spectator to see the update from the user",
+    );
+    expect(spectator.profiles.get(2)?.username).toEqual("user1");
+
+    // Updates sent by the spectator are ignored
+    spectator.client.sendUpdate({
+      id: 1,
+      position: { x: 5, y: 5, z: 5 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 1,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(user.userStates.has(1)).toEqual(false);
+    expect(user.profiles.has(1)).toEqual(false);
+    expect(server.getClientCount()).toEqual(1);
+
+    user.client.stop();
+    await waitUntil(() => !spectator.userStates.has(2), "wait for the user to be removed");
+
+    spectator.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to remove all clients",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
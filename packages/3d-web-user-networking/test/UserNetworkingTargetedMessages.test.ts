@@ -0,0 +1,79 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking targeted messages", () => {
+  test("should only deliver targeted messages to the selected clients", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8594);
+    const serverAddress = "ws://localhost:8594/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+    const user3 = await createTestUserNetworkingClient(serverAddress, "user3");
+    expect(await user3.identityPromise).toEqual(3);
+
+    expect(server.sendToClient(1, "tip", "welcome")).toEqual(true);
+    expect(server.sendToClient(4, "tip", "welcome")).toEqual(false);
+    server.sendToClients([2, 3, 4], "team", "blue");
+    server.sendToMatchingClients((client) => client.userData.username === "user3", "notification", {
+      unread: 1,
+    });
+    server.broadcastMessage("event", "start");
+
+    await waitUntil(
+      () =>
+        user1.broadcasts.length === 2 &&
+        user2.broadcasts.length === 2 &&
+        user3.broadcasts.length === 3,
+      "wait for all users to receive their messages",
+    );
+    expect(user1.broadcasts).toEqual([
+      { broadcastType: "tip", payload: "welcome", targeted: true },
+      { broadcastType: "event", payload: "start", targeted: false },
+    ]);
+    expect(user2.broadcasts).toEqual([
+      { broadcastType: "team", payload: "blue", targeted: true },
+      { broadcastType: "event", payload: "start", targeted: false },
+    ]);
+    expect(user3.broadcasts).toEqual([
+      { broadcastType: "team", payload: "blue", targeted: true },
+      { broadcastType: "notification", payload: { unread: 1 }, targeted: true },
+      { broadcastType: "event", payload: "start", targeted: false },
+    ]);
+
+    user1.client.stop();
+    user2.client.stop();
+    user3.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
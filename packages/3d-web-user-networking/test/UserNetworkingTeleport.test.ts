@@ -0,0 +1,127 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking teleport", () => {
+  test("should move the client and ignore its updates until the teleport is acknowledged", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8589);
+    const serverAddress = "ws://localhost:8589/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+
+    const teleportPromise = server.teleportClient(
+      1,
+      { x: 10, y: 2, z: -5 },
+      { quaternionY: 1, quaternionW: 0 },
+    );
+    // An update sent before the client has seen the teleport must not move the character back
+    user1.client.sendUpdate({
+      id: 1,
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await teleportPromise;
+
+    expect(user1.teleports).toEqual([
+      { position: { x: 10, y: 2, z: -5 }, rotation: { quaternionY: 1, quaternionW: 0 } },
+    ]);
+    await waitUntil(
+      () => user2.userStates.get(1)?.position.x === 10,
+      "wait for user 2 to see the teleported position",
+    );
+    expect(user2.userStates.get(1)?.position).toEqual({ x: 10, y: 2, z: -5 });
+
+    await expect(
+      server.teleportClient(3, { x: 0, y: 0, z: 0 }, { quaternionY: 0, quaternionW: 1 }),
+    ).rejects.toThrow("Client 3 not found");
+
+    user1.client.stop();
+    user2.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+
+  test("should accept updates again and reject the teleport if the client does not acknowledge it", async () => {
+    const server = new UserNetworkingServer({
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+      teleportAcknowledgementTimeout: 200,
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8601);
+    const serverAddress = "ws://localhost:8601/user-networking";
+
+    const user1 = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user1.identityPromise).toEqual(1);
+    const user2 = await createTestUserNetworkingClient(serverAddress, "user2");
+    expect(await user2.identityPromise).toEqual(2);
+
+    // The client has nothing to apply the teleport to (e.g. its character has not spawned yet) so does not acknowledge
+    user1.applyTeleports = false;
+    await expect(
+      server.teleportClient(1, { x: 10, y: 2, z: -5 }, { quaternionY: 1, quaternionW: 0 }),
+    ).rejects.toThrow("Client 1 did not acknowledge teleport in time");
+    expect(user1.teleports).toEqual([]);
+
+    user1.client.sendUpdate({
+      id: 1,
+      position: { x: 3, y: 0, z: 0 },
+      rotation: { quaternionY: 0, quaternionW: 1 },
+      state: 0,
+    });
+    await waitUntil(
+      () => user2.userStates.get(1)?.position.x === 3,
+      "wait for user 2 to see the update sent after the teleport timed out",
+    );
+
+    user1.client.stop();
+    user2.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to see the removal of all users",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import express from "express";
+import enableWs from "express-ws";
+
+import { UserData } from "../src";
+import { UserNetworkingServer } from "../src/UserNetworkingServer";
+
+import { createTestUserNetworkingClient, waitUntil } from "./test-utils";
+
+describe("UserNetworking virtual clients", () => {
+  test("should present virtual clients to connected clients as users", async () => {
+    const chatMessages: Array<{ clientId: number; text: string }> = [];
+    const server = new UserNetworkingServer({
+      connectionLimit: 1,
+      onClientConnect: (clientId: number, sessionToken: string): UserData | null => {
+        return {
+          username: sessionToken,
+          characterDescription: { meshFileUrl: `http://example.com/${sessionToken}.glb` },
+        };
+      },
+      onClientUserIdentityUpdate: (): UserData | null => null,
+      onClientDisconnect: (): void => {},
+      onVirtualClientChatMessage: (clientId: number, text: string) => {
+        chatMessages.push({ clientId, text });
+      },
+    });
+
+    const { app } = enableWs(express());
+    app.ws("/user-networking", (ws) => {
+      server.connectClient(ws);
+    });
+    const listener = app.listen(8599);
+    const serverAddress = "ws://localhost:8599/user-networking";
+
+    const guide = server.createVirtualClient(
+      {
+        username: "Guide",
+        characterDescription: { meshFileUrl: "http://example.com/guide.glb" },
+      },
+      { x: 1, y: 0, z: 1 },
+    );
+    expect(guide.id).toEqual(1);
+
+    // The virtual client does not count towards the connection limit
+    const user = await createTestUserNetworkingClient(serverAddress, "user1");
+    expect(await user.identityPromise).toEqual(2);
+    expect(user.serverErrors).toEqual([]);
+    await waitUntil(() => user.userStates.has(1), "wait for the user to see the virtual client");
+    expect(user.profiles.get(1)?.username).toEqual("Guide");
+    expect(user.userStates.get(1)?.position).toEqual({ x: 1, y: 0, z: 1 });
+
+    guide.setPosition({ x: 5, y: 0, z: 3 });
+    guide.setState(1);
+    await waitUntil(
+      () => user.userStates.get(1)?.position.x === 5 && user.userStates.get(1)?.state === 1,
+      "wait for the user to see the virtual client move",
+    );
+    expect(server.getClientPosition(1)).toEqual({ x: 5, y: 0, z: 3 });
+
+    guide.updateUserData({
+      username: "Tour Guide",
+      characterDescription: { meshFileUrl: "http://example.com/guide.glb" },
+    });
+    await waitUntil(
+      () => user.profiles.get(1)?.username === "Tour Guide",
+      "wait for the user to see the new username",
+    );
+
+    guide.sendChatMessage("Welcome!");
+    expect(chatMessages).toEqual([{ clientId: 1, text: "Welcome!" }]);
+
+    guide.remove();
+    expect(guide.isRemoved()).toEqual(true);
+    await waitUntil(() => !user.userStates.has(1), "wait for the virtual client to be removed");
+    expect(server.getVirtualClientCount()).toEqual(0);
+
+    // Messages are not sent once the virtual client is removed
+    guide.sendChatMessage("Goodbye!");
+    expect(chatMessages.length).toEqual(1);
+
+    user.client.stop();
+    await waitUntil(
+      () => (server as any).allClientsById.size === 0,
+      "wait for server to remove all clients",
+    );
+    server.dispose();
+    listener.close();
+  });
+});
@@ -1,34 +1,104 @@
-export function waitUntil(checkFn: () => boolean, message?: string) {
-  return new Promise((resolve, reject) => {
-    if (checkFn()) {
-      resolve(null);
-      return;
-    }
+import { createWaitable, waitUntil } from "../../../utils/test-utils";
+import {
+  UserData,
+  UserNetworkingClient,
+  UserNetworkingClientUpdate,
+  UserNetworkingServerErrorType,
+  WebsocketFactory,
+} from "../src";
 
-    let maxTimeout: NodeJS.Timeout | null = null;
-    const interval = setInterval(() => {
-      if (checkFn()) {
-        clearInterval(interval);
-        if (maxTimeout) {
-          clearTimeout(maxTimeout);
-        }
-        resolve(null);
-      }
-    }, 10);
+export { createWaitable, waitUntil };
 
-    maxTimeout = setTimeout(() => {
-      clearInterval(interval);
-      reject(new Error(`waitUntil timed out${message ? `: ${message}` : ""}`));
-    }, 3000);
-  });
-}
+export type TestUserNetworkingClient = {
+  client: UserNetworkingClient;
+  userStates: Map<number, UserNetworkingClientUpdate>;
+  profiles: Map<number, UserData>;
+  identityPromise: Promise<number>;
+  // Every identity assigned to the client, including those from reconnections
+  identities: Array<number>;
+  serverErrors: Array<{ message: string; errorType: UserNetworkingServerErrorType }>;
+  teleports: Array<{
+    position: { x: number; y: number; z: number };
+    rotation: { quaternionY: number; quaternionW: number };
+  }>;
+  // Whether teleports are applied (and so acknowledged) - set to false to simulate a client that cannot apply them
+  applyTeleports: boolean;
+  customMessages: Array<{ customType: string; payload: any }>;
+  broadcasts: Array<{ broadcastType: string; payload: any; targeted: boolean }>;
+  queuePositions: Array<number>;
+};
 
-export async function createWaitable<T>(): Promise<[Promise<T>, (arg: T) => void]> {
-  return new Promise<[Promise<T>, (arg: T) => void]>((outerResolve) => {
-    const internalPromise = new Promise<T>((resolve) => {
-      process.nextTick(() => {
-        outerResolve([internalPromise, resolve]);
-      });
-    });
+export async function createTestUserNetworkingClient(
+  url: string,
+  sessionToken: string,
+  protocolVersion?: number,
+  websocketFactory: WebsocketFactory = (url) => new WebSocket(url),
+): Promise<TestUserNetworkingClient> {
+  const [identityPromise, identityResolve] = await createWaitable<number>();
+  const userStates: Map<number, UserNetworkingClientUpdate> = new Map();
+  const profiles: Map<number, UserData> = new Map();
+  const identities: Array<number> = [];
+  const serverErrors: Array<{ message: string; errorType: UserNetworkingServerErrorType }> = [];
+  const teleports: TestUserNetworkingClient["teleports"] = [];
+  const customMessages: TestUserNetworkingClient["customMessages"] = [];
+  const broadcasts: TestUserNetworkingClient["broadcasts"] = [];
+  const queuePositions: Array<number> = [];
+  const client = new UserNetworkingClient({
+    url,
+    sessionToken,
+    protocolVersion,
+    websocketFactory,
+    statusUpdateCallback: () => {},
+    assignedIdentity: (clientId: number) => {
+      identities.push(clientId);
+      identityResolve(clientId);
+    },
+    clientUpdate: (
+      clientId: number,
+      userNetworkingClientUpdate: null | UserNetworkingClientUpdate,
+    ) => {
+      if (userNetworkingClientUpdate === null) {
+        userStates.delete(clientId);
+        profiles.delete(clientId);
+      } else {
+        userStates.set(clientId, userNetworkingClientUpdate);
+      }
+    },
+    clientProfileUpdated: (id, username, characterDescription) => {
+      profiles.set(id, { username, characterDescription });
+    },
+    onServerError: (error) => {
+      serverErrors.push(error);
+    },
+    onTeleport: (teleport) => {
+      if (!testClient.applyTeleports) {
+        return false;
+      }
+      teleports.push(teleport);
+      return true;
+    },
+    onCustomMessage: (message) => {
+      customMessages.push(message);
+    },
+    onServerBroadcast: (broadcast) => {
+      broadcasts.push(broadcast);
+    },
+    onQueuePositionUpdate: (position) => {
+      queuePositions.push(position);
+    },
   });
+  const testClient: TestUserNetworkingClient = {
+    client,
+    userStates,
+    profiles,
+    identityPromise,
+    identities,
+    serverErrors,
+    teleports,
+    applyTeleports: true,
+    customMessages,
+    broadcasts,
+    queuePositions,
+  };
+  return testClient;
 }
@@ -0,0 +1,20 @@
+// The jest config of the packages, which export it from their jest.config.ts
+
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+const jestConfig = {
+  extensionsToTreatAsEsm: [".ts", ".tsx"],
+  moduleNameMapper: {
+    "^(\\.{1,2}/.*)\\.js$": "$1",
+  },
+  verbose: true,
+  transform: {
+    "^.+\\.tsx?$": [
+      "ts-jest",
+      {
+        useESM: true,
+      },
+    ],
+  },
+};
+
+module.exports = { jestConfig };